@@ -9,6 +9,7 @@ import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import { authRouter } from '../src/server/routes/auth.js';
 import { snapshotRouter } from '../src/server/routes/snapshot.js';
+import { schedulesRouter } from '../src/server/routes/schedules.js';
 
 // Load environment variables
 dotenv.config();
@@ -26,6 +27,7 @@ app.use(express.json());
 // Routes
 app.use('/api/auth', authRouter);
 app.use('/api/snapshot', snapshotRouter);
+app.use('/api/schedules', schedulesRouter);
 
 // Health check
 app.get('/api/health', (_req, res) => {
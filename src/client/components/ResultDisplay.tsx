@@ -6,6 +6,20 @@ interface SnapshotResult {
   recordsProcessed: number;
   fieldsConverted: number;
   errors: Array<{ message: string }>;
+  incremental?: { created: number; updated: number; deleted: number };
+  verification?: {
+    passed: boolean;
+    tables: Array<{
+      tableName: string;
+      expectedRecords: number;
+      targetRecords: number;
+      missingRecordIds: string[];
+      mismatchedRecordIds: string[];
+      unexpectedRecordIds: string[];
+      passed: boolean;
+    }>;
+  };
+  warnings?: Array<{ table?: string; view?: string; message: string }>;
 }
 
 interface ResultDisplayProps {
@@ -67,6 +81,49 @@ export function ResultDisplay({ result, onReset }: ResultDisplayProps) {
         </div>
       </div>
 
+      {result.incremental && (
+        <p className="text-sm text-gray-600 mb-6">
+          差分: {result.incremental.created} 件追加 / {result.incremental.updated} 件更新 /{' '}
+          {result.incremental.deleted} 件削除
+        </p>
+      )}
+
+      {result.warnings && result.warnings.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6 text-left text-sm">
+          <p className="font-medium text-yellow-800 mb-2">警告 {result.warnings.length} 件</p>
+          <ul className="space-y-1 text-yellow-900">
+            {result.warnings.map((warning, index) => (
+              <li key={index}>
+                {[warning.table, warning.view].filter(Boolean).join(' > ')}
+                {warning.table || warning.view ? ': ' : ''}
+                {warning.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.verification && (
+        <div
+          className={`rounded-lg p-4 mb-6 text-left text-sm border ${
+            result.verification.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+          }`}
+        >
+          <p className={`font-medium mb-2 ${result.verification.passed ? 'text-green-800' : 'text-red-800'}`}>
+            {result.verification.passed ? '検証 OK: コピー先はコピー元と一致しています' : '検証で不一致が見つかりました'}
+          </p>
+          <ul className="space-y-1">
+            {result.verification.tables.map((table) => (
+              <li key={table.tableName} className="text-gray-700">
+                {table.passed ? '✓' : '✗'} {table.tableName}: {table.targetRecords} / {table.expectedRecords} 件
+                {!table.passed &&
+                  `（欠落 ${table.missingRecordIds.length} 件 / 値の不一致 ${table.mismatchedRecordIds.length} 件 / 余分 ${table.unexpectedRecordIds.length} 件）`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex justify-center gap-4">
         {result.targetBase.url && (
@@ -10,20 +10,108 @@ interface SnapshotResult {
   errors: Array<{ message: string }>;
 }
 
+interface SnapshotJob {
+  id: string;
+  state: 'queued' | 'running' | 'completed' | 'failed';
+  currentTable?: string;
+  recordsWritten: number;
+  errors: Array<{ message: string }>;
+  result?: SnapshotResult;
+}
+
+/** Progress of one table, built from the job's progress events */
+interface TableProgress {
+  tableId: string;
+  tableName: string;
+  fieldCount?: number;
+  recordsRead: number;
+  recordsWritten: number;
+  finished: boolean;
+}
+
+/** Event sent by GET /api/snapshot/jobs/:id/events */
+interface JobEvent {
+  type: string;
+  tableId?: string;
+  tableName?: string;
+  fieldCount?: number;
+  recordsRead?: number;
+  recordsWritten?: number;
+  error?: { message: string; table?: string };
+  job?: SnapshotJob;
+}
+
+const JOB_EVENT_TYPES = [
+  'job_status',
+  'table_started',
+  'fields_converted',
+  'records_page_read',
+  'batch_written',
+  'table_finished',
+  'error',
+  'job_finished',
+];
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
 interface SnapshotFormProps {
   onComplete: (result: SnapshotResult) => void;
 }
 
+interface FieldInfo {
+  fieldId: string;
+  name: string;
+  uiType: string;
+  isPrimary: boolean;
+}
+
+/** Result of a record filter, returned by the preview */
+interface RecordFilterInfo {
+  expression: string;
+  recordCount?: number;
+  matchedCount?: number;
+  error?: string;
+}
+
+/** View of the source URL (?view=), which limits its table to the view's records */
+interface ViewInfo {
+  viewId: string;
+  viewName?: string;
+  recordCount?: number;
+  visibleFieldIds?: string[];
+  error?: string;
+}
+
 interface TableInfo {
   name: string;
   tableId: string;
   fieldCount: number;
   dynamicFieldCount: number;
+  fields: FieldInfo[];
+  recordFilter?: RecordFilterInfo;
+  view?: ViewInfo;
+}
+
+/** Per-field choice sent as fieldPolicies[tableId][fieldId] */
+interface FieldPolicy {
+  action?: 'keep' | 'text' | 'typed' | 'drop';
+  valueType?: 'Number' | 'DateTime' | 'Checkbox';
+  rename?: string;
 }
 
+const FIELD_POLICY_ACTIONS = [
+  { value: 'keep', label: 'Default' },
+  { value: 'text', label: 'Freeze to text' },
+  { value: 'typed', label: 'Freeze to typed value' },
+  { value: 'drop', label: 'Drop' },
+];
+
+const FIELD_POLICY_VALUE_TYPES = ['Number', 'DateTime', 'Checkbox'];
+
 interface PreviewData {
   base: { name: string };
   tables: TableInfo[];
+  view: { tableId: string | null; viewId: string } | null;
   totalTables: number;
   totalDynamicFields: number;
 }
@@ -31,12 +119,27 @@ interface PreviewData {
 export function SnapshotForm({ onComplete }: SnapshotFormProps) {
   const [sourceUrl, setSourceUrl] = useState('');
   const [targetName, setTargetName] = useState('');
+  const [targetMode, setTargetMode] = useState<'new' | 'existing'>('new');
+  const [targetBaseUrl, setTargetBaseUrl] = useState('');
   const [grantAdmin, setGrantAdmin] = useState(true);
+  const [preserveAttachments, setPreserveAttachments] = useState(false);
+  const [incremental, setIncremental] = useState(false);
+  const [verify, setVerify] = useState(false);
+  const [viewFieldsOnly, setViewFieldsOnly] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [job, setJob] = useState<SnapshotJob | null>(null);
+  const [tableProgress, setTableProgress] = useState<TableProgress[]>([]);
+  const [liveErrors, setLiveErrors] = useState<Array<{ message: string; table?: string }>>([]);
   const [previewing, setPreviewing] = useState(false);
   const [preview, setPreview] = useState<PreviewData | null>(null);
   const [selectedTables, setSelectedTables] = useState<Set<string>>(new Set());
+  const [fieldPolicies, setFieldPolicies] = useState<Record<string, Record<string, FieldPolicy>>>({});
+  const [expandedTable, setExpandedTable] = useState<string | null>(null);
+  const [recordFilters, setRecordFilters] = useState<Record<string, string>>({});
+  const [filterResults, setFilterResults] = useState<Record<string, RecordFilterInfo>>({});
+  const [checkingFilters, setCheckingFilters] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
 
   const handlePreview = async () => {
     if (!sourceUrl) {
@@ -47,6 +150,10 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
     setPreviewing(true);
     setError(null);
     setPreview(null);
+    setFieldPolicies({});
+    setExpandedTable(null);
+    setRecordFilters({});
+    setFilterResults({});
 
     try {
       const res = await fetch('/api/snapshot/preview', {
@@ -102,11 +209,216 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
     }
   };
 
+  const updateFieldPolicy = (tableId: string, fieldId: string, update: Partial<FieldPolicy>) => {
+    setFieldPolicies((prev) => ({
+      ...prev,
+      [tableId]: { ...prev[tableId], [fieldId]: { ...prev[tableId]?.[fieldId], ...update } },
+    }));
+  };
+
+  // Only send the choices that differ from the default, for the tables being copied
+  const buildFieldPolicies = (): Record<string, Record<string, FieldPolicy>> | undefined => {
+    const result: Record<string, Record<string, FieldPolicy>> = {};
+
+    for (const [tableId, policies] of Object.entries(fieldPolicies)) {
+      if (selectedTables.size > 0 && !selectedTables.has(tableId)) continue;
+
+      for (const [fieldId, policy] of Object.entries(policies)) {
+        const rename = policy.rename?.trim();
+        const action = policy.action ?? 'keep';
+        if (action === 'keep' && !rename) continue;
+
+        result[tableId] = {
+          ...result[tableId],
+          [fieldId]: {
+            action,
+            valueType: action === 'typed' ? policy.valueType ?? 'Number' : undefined,
+            rename: rename || undefined,
+          },
+        };
+      }
+    }
+
+    return Object.keys(result).length > 0 ? result : undefined;
+  };
+
+  // Filters of the tables being copied
+  const buildRecordFilters = (): Record<string, string> | undefined => {
+    const entries = Object.entries(recordFilters).filter(([tableId, expression]) =>
+      expression.trim() !== '' && (selectedTables.size === 0 || selectedTables.has(tableId))
+    );
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  };
+
+  // Count the records matching each filter before starting the snapshot
+  const handleCheckFilters = async () => {
+    setCheckingFilters(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/snapshot/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ sourceBaseUrl: sourceUrl, recordFilters: buildRecordFilters() }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || data.error || 'Preview failed');
+      }
+
+      const results: Record<string, RecordFilterInfo> = {};
+      for (const table of data.tables as TableInfo[]) {
+        if (table.recordFilter) results[table.tableId] = table.recordFilter;
+      }
+      setFilterResults(results);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setCheckingFilters(false);
+    }
+  };
+
+  const hasTarget = targetMode === 'new' ? targetName !== '' : targetBaseUrl !== '';
+
+  const waitForJob = async (jobId: string): Promise<SnapshotJob> => {
+    for (;;) {
+      await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+
+      const res = await fetch(`/api/snapshot/jobs/${jobId}`, { credentials: 'include' });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.message || data.error || 'Failed to get job status');
+      }
+
+      setJob(data);
+      if (data.state === 'completed' || data.state === 'failed') {
+        return data;
+      }
+    }
+  };
+
+  const updateTable = (tableId: string, update: (table: TableProgress) => TableProgress) => {
+    setTableProgress((tables) => tables.map((t) => (t.tableId === tableId ? update(t) : t)));
+  };
+
+  const applyJobEvent = (event: JobEvent) => {
+    const tableId = event.tableId ?? '';
+
+    switch (event.type) {
+      case 'job_status':
+      case 'job_finished':
+        if (event.job) setJob(event.job);
+        break;
+      case 'table_started':
+        setTableProgress((tables) => [
+          ...tables,
+          { tableId, tableName: event.tableName ?? '', recordsRead: 0, recordsWritten: 0, finished: false },
+        ]);
+        break;
+      case 'fields_converted':
+        updateTable(tableId, (t) => ({ ...t, fieldCount: event.fieldCount }));
+        break;
+      case 'records_page_read':
+        updateTable(tableId, (t) => ({ ...t, recordsRead: t.recordsRead + (event.recordsRead ?? 0) }));
+        break;
+      case 'batch_written':
+        updateTable(tableId, (t) => ({ ...t, recordsWritten: t.recordsWritten + (event.recordsWritten ?? 0) }));
+        break;
+      case 'table_finished':
+        updateTable(tableId, (t) => ({ ...t, finished: true }));
+        break;
+      case 'error':
+        if (event.error) setLiveErrors((errors) => [...errors, event.error!]);
+        break;
+    }
+  };
+
+  // Follow the job over SSE; fall back to polling when the stream is unavailable
+  const followJob = (jobId: string): Promise<SnapshotJob> => {
+    return new Promise((resolve, reject) => {
+      const source = new EventSource(`/api/snapshot/jobs/${jobId}/events`, { withCredentials: true });
+
+      for (const type of JOB_EVENT_TYPES) {
+        source.addEventListener(type, (e) => {
+          const event: JobEvent = JSON.parse((e as MessageEvent).data);
+          applyJobEvent(event);
+          if (event.type === 'job_finished' && event.job) {
+            source.close();
+            resolve(event.job);
+          }
+        });
+      }
+
+      source.onerror = () => {
+        source.close();
+        waitForJob(jobId).then(resolve, reject);
+      };
+    });
+  };
+
+  const handleDownload = async (endpoint: string, format?: string) => {
+    if (!sourceUrl) {
+      setError('Source URL is required');
+      return;
+    }
+
+    setExporting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          sourceBaseUrl: sourceUrl,
+          selectedTableIds: selectedTables.size > 0 ? Array.from(selectedTables) : undefined,
+          format,
+          // Archives hold whole tables; exports are limited like a Base snapshot
+          ...(format && {
+            viewFieldsOnly,
+            fieldPolicies: buildFieldPolicies(),
+            recordFilters: buildRecordFilters(),
+          }),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.message || data.errors?.[0]?.message || data.error || 'Export failed');
+      }
+
+      // Save the file under the name chosen by the server
+      const disposition = res.headers.get('Content-Disposition') ?? '';
+      const encodedName = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+      const fileName = encodedName
+        ? decodeURIComponent(encodedName)
+        : disposition.match(/filename="([^"]+)"/)?.[1] ?? `snapshot.${format ?? 'jsonl.gz'}`;
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!sourceUrl || !targetName) {
-      setError('Source URL and Target Name are required');
+    if (!sourceUrl || !hasTarget) {
+      setError(targetMode === 'new'
+        ? 'Source URL and Target Name are required'
+        : 'Source URL and Target Base URL are required');
       return;
     }
 
@@ -117,6 +429,8 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
 
     setLoading(true);
     setError(null);
+    setTableProgress([]);
+    setLiveErrors([]);
 
     try {
       const res = await fetch('/api/snapshot', {
@@ -125,9 +439,16 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
         credentials: 'include',
         body: JSON.stringify({
           sourceBaseUrl: sourceUrl,
-          targetBaseName: targetName,
+          targetBaseName: targetMode === 'new' ? targetName : undefined,
+          targetBaseUrl: targetMode === 'existing' ? targetBaseUrl : undefined,
           grantAdminPermission: grantAdmin,
+          preserveAttachments,
+          incremental,
+          verify,
+          viewFieldsOnly,
           selectedTableIds: selectedTables.size > 0 ? Array.from(selectedTables) : undefined,
+          fieldPolicies: buildFieldPolicies(),
+          recordFilters: buildRecordFilters(),
         }),
       });
 
@@ -137,11 +458,22 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
         throw new Error(data.message || data.error || 'Snapshot failed');
       }
 
-      onComplete(data);
+      setJob(data.job);
+      // Serverless deployments run the job inside the request and return it finished
+      const finished: SnapshotJob = data.job.state === 'completed' || data.job.state === 'failed'
+        ? data.job
+        : await followJob(data.jobId);
+
+      if (!finished.result) {
+        throw new Error(finished.errors[0]?.message || 'Snapshot failed');
+      }
+
+      onComplete(finished.result);
     } catch (err) {
       setError((err as Error).message);
     } finally {
       setLoading(false);
+      setJob(null);
     }
   };
 
@@ -192,6 +524,21 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
               <span className="font-medium">{preview.totalDynamicFields}</span>
             </div>
           </div>
+          {preview.view && (
+            <p className="text-xs text-blue-700 mt-2">
+              {(() => {
+                const viewTable = preview.tables.find((t) => t.tableId === preview.view?.tableId);
+                if (!viewTable?.view) {
+                  return `View ${preview.view.viewId} was not found in the table of the URL`;
+                }
+                if (viewTable.view.error) {
+                  return `View ${viewTable.view.viewId} could not be read: ${viewTable.view.error}`;
+                }
+                return `${viewTable.name}: only the ${viewTable.view.recordCount} records of view ` +
+                  `"${viewTable.view.viewName}" are copied, in view order`;
+              })()}
+            </p>
+          )}
           {preview.tables.length > 0 && (
             <div className="mt-3">
               <div className="flex items-center justify-between mb-2">
@@ -206,26 +553,119 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
               </div>
               <div className="space-y-2">
                 {preview.tables.map((table) => (
-                  <label
-                    key={table.tableId}
-                    className="flex items-center gap-2 bg-white px-3 py-2 rounded cursor-pointer hover:bg-gray-50"
-                  >
-                    <input
-                      type="checkbox"
-                      checked={selectedTables.has(table.tableId)}
-                      onChange={() => toggleTableSelection(table.tableId)}
-                      className="w-4 h-4 text-lark-primary border-gray-300 rounded focus:ring-lark-primary"
-                    />
-                    <span className="text-sm font-medium">{table.name}</span>
-                    <span className="text-xs text-gray-500">
-                      ({table.fieldCount} fields)
-                    </span>
-                    {table.dynamicFieldCount > 0 && (
-                      <span className="text-xs text-blue-600">
-                        {table.dynamicFieldCount} dynamic
-                      </span>
+                  <div key={table.tableId} className="bg-white rounded">
+                    <div className="flex items-center gap-2 px-3 py-2 hover:bg-gray-50">
+                      <label className="flex items-center gap-2 flex-1 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selectedTables.has(table.tableId)}
+                          onChange={() => toggleTableSelection(table.tableId)}
+                          className="w-4 h-4 text-lark-primary border-gray-300 rounded focus:ring-lark-primary"
+                        />
+                        <span className="text-sm font-medium">{table.name}</span>
+                        <span className="text-xs text-gray-500">
+                          ({table.fieldCount} fields)
+                        </span>
+                        {table.dynamicFieldCount > 0 && (
+                          <span className="text-xs text-blue-600">
+                            {table.dynamicFieldCount} dynamic
+                          </span>
+                        )}
+                        {table.view?.viewName && (
+                          <span className="text-xs text-blue-600">
+                            view: {table.view.viewName}
+                          </span>
+                        )}
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => setExpandedTable(expandedTable === table.tableId ? null : table.tableId)}
+                        disabled={!selectedTables.has(table.tableId)}
+                        className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        {expandedTable === table.tableId ? 'Hide options' : 'Fields / Filter'}
+                      </button>
+                    </div>
+                    {expandedTable === table.tableId && selectedTables.has(table.tableId) && (
+                      <div className="border-t border-gray-100 px-3 py-2 space-y-1">
+                        <div className="flex gap-2 items-center text-xs pb-2">
+                          <input
+                            type="text"
+                            value={recordFilters[table.tableId] ?? ''}
+                            onChange={(e) => setRecordFilters((prev) => ({ ...prev, [table.tableId]: e.target.value }))}
+                            placeholder='Record filter, e.g. Status = "Closed" AND [Close Date] >= "2024-10-01"'
+                            className="input-field py-1 text-xs flex-1 font-mono"
+                          />
+                          <button
+                            type="button"
+                            onClick={handleCheckFilters}
+                            disabled={checkingFilters || !recordFilters[table.tableId]?.trim()}
+                            className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                          >
+                            {checkingFilters ? 'Counting...' : 'Count matches'}
+                          </button>
+                        </div>
+                        {filterResults[table.tableId] &&
+                          filterResults[table.tableId].expression === recordFilters[table.tableId] && (
+                          <p className={`text-xs pb-2 ${filterResults[table.tableId].error ? 'text-red-600' : 'text-gray-600'}`}>
+                            {filterResults[table.tableId].error ??
+                              `${filterResults[table.tableId].matchedCount} / ${filterResults[table.tableId].recordCount} records match`}
+                          </p>
+                        )}
+                        {table.fields.map((field) => {
+                          const policy = fieldPolicies[table.tableId]?.[field.fieldId] ?? {};
+                          return (
+                            <div key={field.fieldId} className="grid grid-cols-4 gap-2 items-center text-xs">
+                              <span className="truncate" title={field.uiType}>
+                                {field.name} <span className="text-gray-400">({field.uiType})</span>
+                                {table.view?.visibleFieldIds && !table.view.visibleFieldIds.includes(field.fieldId) && (
+                                  <span className="text-gray-400"> hidden in view</span>
+                                )}
+                              </span>
+                              <select
+                                value={policy.action ?? 'keep'}
+                                onChange={(e) => updateFieldPolicy(table.tableId, field.fieldId, {
+                                  action: e.target.value as FieldPolicy['action'],
+                                })}
+                                className="input-field py-1 text-xs"
+                              >
+                                {FIELD_POLICY_ACTIONS
+                                  .filter((a) => !(field.isPrimary && a.value === 'drop'))
+                                  .map((a) => (
+                                    <option key={a.value} value={a.value}>{a.label}</option>
+                                  ))}
+                              </select>
+                              {policy.action === 'typed' ? (
+                                <select
+                                  value={policy.valueType ?? 'Number'}
+                                  onChange={(e) => updateFieldPolicy(table.tableId, field.fieldId, {
+                                    valueType: e.target.value as FieldPolicy['valueType'],
+                                  })}
+                                  className="input-field py-1 text-xs"
+                                >
+                                  {FIELD_POLICY_VALUE_TYPES.map((type) => (
+                                    <option key={type} value={type}>{type}</option>
+                                  ))}
+                                </select>
+                              ) : (
+                                <span />
+                              )}
+                              <input
+                                type="text"
+                                value={policy.rename ?? ''}
+                                onChange={(e) => updateFieldPolicy(table.tableId, field.fieldId, {
+                                  rename: e.target.value,
+                                })}
+                                placeholder="Rename to..."
+                                disabled={policy.action === 'drop'}
+                                className="input-field py-1 text-xs"
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
                     )}
-                  </label>
+                  </div>
                 ))}
               </div>
               <p className="text-xs text-gray-500 mt-2">
@@ -236,24 +676,66 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
         </div>
       )}
 
-      {/* Target Name */}
-      <div>
-        <label htmlFor="targetName" className="block text-sm font-medium text-gray-700 mb-2">
-          New Base Name
+      {/* Target */}
+      <div className="flex gap-6">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="radio"
+            name="targetMode"
+            checked={targetMode === 'new'}
+            onChange={() => setTargetMode('new')}
+            className="w-4 h-4 text-lark-primary border-gray-300 focus:ring-lark-primary"
+          />
+          新しい Base を作成
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="radio"
+            name="targetMode"
+            checked={targetMode === 'existing'}
+            onChange={() => setTargetMode('existing')}
+            className="w-4 h-4 text-lark-primary border-gray-300 focus:ring-lark-primary"
+          />
+          既存の Base に追加
         </label>
-        <input
-          type="text"
-          id="targetName"
-          value={targetName}
-          onChange={(e) => setTargetName(e.target.value)}
-          placeholder="My Snapshot"
-          className="input-field"
-          required
-        />
-        <p className="text-sm text-gray-500 mt-1">
-          新しく作成するスナップショット Base の名前
-        </p>
       </div>
+      {targetMode === 'new' ? (
+        <div>
+          <label htmlFor="targetName" className="block text-sm font-medium text-gray-700 mb-2">
+            New Base Name
+          </label>
+          <input
+            type="text"
+            id="targetName"
+            value={targetName}
+            onChange={(e) => setTargetName(e.target.value)}
+            placeholder="My Snapshot"
+            className="input-field"
+            required
+          />
+          <p className="text-sm text-gray-500 mt-1">
+            新しく作成するスナップショット Base の名前
+          </p>
+        </div>
+      ) : (
+        <div>
+          <label htmlFor="targetBaseUrl" className="block text-sm font-medium text-gray-700 mb-2">
+            Target Base URL
+          </label>
+          <input
+            type="url"
+            id="targetBaseUrl"
+            value={targetBaseUrl}
+            onChange={(e) => setTargetBaseUrl(e.target.value)}
+            placeholder="https://xxx.larksuite.com/base/xxxxx"
+            className="input-field"
+            required
+          />
+          <p className="text-sm text-gray-500 mt-1">
+            スナップショットのテーブルを追加する Base の URL（編集権限が必要です）
+          </p>
+        </div>
+      )}
 
       {/* Options */}
       <div className="flex items-center gap-3">
@@ -268,10 +750,104 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
           管理者権限を付与する
         </label>
       </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="preserveAttachments"
+          checked={preserveAttachments}
+          onChange={(e) => setPreserveAttachments(e.target.checked)}
+          className="w-4 h-4 text-lark-primary border-gray-300 rounded focus:ring-lark-primary"
+        />
+        <label htmlFor="preserveAttachments" className="text-sm text-gray-700">
+          添付ファイルをコピーする
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="incremental"
+          checked={incremental}
+          onChange={(e) => setIncremental(e.target.checked)}
+          className="w-4 h-4 text-lark-primary border-gray-300 rounded focus:ring-lark-primary"
+        />
+        <label htmlFor="incremental" className="text-sm text-gray-700">
+          差分スナップショット（前回以降に更新されたレコードのみ同じ Base にコピー）
+        </label>
+      </div>
+      <div className="flex items-center gap-3">
+        <input
+          type="checkbox"
+          id="verify"
+          checked={verify}
+          onChange={(e) => setVerify(e.target.checked)}
+          className="w-4 h-4 text-lark-primary border-gray-300 rounded focus:ring-lark-primary"
+        />
+        <label htmlFor="verify" className="text-sm text-gray-700">
+          コピー後に検証する（レコード数と値をコピー先と照合）
+        </label>
+      </div>
+      {preview?.view && (
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            id="viewFieldsOnly"
+            checked={viewFieldsOnly}
+            onChange={(e) => setViewFieldsOnly(e.target.checked)}
+            className="w-4 h-4 text-lark-primary border-gray-300 rounded focus:ring-lark-primary"
+          />
+          <label htmlFor="viewFieldsOnly" className="text-sm text-gray-700">
+            URL のビューで表示中のフィールドのみコピー（非表示のフィールドを除外）
+          </label>
+        </div>
+      )}
       <p className="text-xs text-gray-500">
-        ※ 添付ファイルはファイル名のみがコピーされます（Lark API制約）
+        {preserveAttachments
+          ? '※ 添付ファイルをダウンロードして新しい Base に再アップロードします（合計 200MB まで）'
+          : '※ 添付ファイルはファイル名のみがコピーされます'}
       </p>
 
+      {/* Job Progress */}
+      {loading && tableProgress.length > 0 && (
+        <div className="space-y-3">
+          {tableProgress.map((table) => {
+            const percent = table.finished
+              ? 100
+              : table.recordsRead > 0
+                ? Math.min(100, Math.round((table.recordsWritten / table.recordsRead) * 100))
+                : 0;
+            return (
+              <div key={table.tableId}>
+                <div className="flex justify-between text-xs text-gray-600 mb-1">
+                  <span className="font-medium">
+                    {table.finished ? '✅' : '⏳'} {table.tableName}
+                  </span>
+                  <span>
+                    {table.fieldCount !== undefined && `${table.fieldCount} fields / `}
+                    読み込み {table.recordsRead} / 書き込み {table.recordsWritten}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-lark-primary h-2 rounded-full transition-all"
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {loading && liveErrors.length > 0 && (
+        <ul className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm px-4 py-3 rounded-lg space-y-1">
+          {liveErrors.map((err, idx) => (
+            <li key={idx}>
+              {err.table && <span className="font-medium">{err.table}: </span>}
+              {err.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
@@ -282,13 +858,15 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
       {/* Submit Button */}
       <button
         type="submit"
-        disabled={loading || !sourceUrl || !targetName || (preview && selectedTables.size === 0)}
+        disabled={loading || !sourceUrl || !hasTarget || (preview && selectedTables.size === 0)}
         className="btn-primary w-full flex items-center justify-center gap-2"
       >
         {loading ? (
           <>
             <span className="animate-spin">⏳</span>
-            Creating Snapshot...
+            {job?.currentTable
+              ? `${job.currentTable} をコピー中... (${job.recordsWritten} records)`
+              : 'Creating Snapshot...'}
           </>
         ) : (
           <>
@@ -297,6 +875,45 @@ export function SnapshotForm({ onComplete }: SnapshotFormProps) {
           </>
         )}
       </button>
+
+      {/* Local File Export */}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => handleDownload('/api/snapshot/export', 'csv')}
+          disabled={loading || exporting || !sourceUrl || (!!preview && selectedTables.size === 0)}
+          className="btn-secondary flex-1"
+        >
+          {exporting ? 'Exporting...' : '⬇️ CSV でダウンロード'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleDownload('/api/snapshot/export', 'xlsx')}
+          disabled={loading || exporting || !sourceUrl || (!!preview && selectedTables.size === 0)}
+          className="btn-secondary flex-1"
+        >
+          {exporting ? 'Exporting...' : '⬇️ Excel でダウンロード'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleDownload('/api/snapshot/export', 'html')}
+          disabled={loading || exporting || !sourceUrl || (!!preview && selectedTables.size === 0)}
+          className="btn-secondary flex-1"
+        >
+          {exporting ? 'Exporting...' : '🌐 HTML ビューア'}
+        </button>
+        <button
+          type="button"
+          onClick={() => handleDownload('/api/snapshot/archive')}
+          disabled={loading || exporting || !sourceUrl || (!!preview && selectedTables.size === 0)}
+          className="btn-secondary flex-1"
+        >
+          {exporting ? 'Exporting...' : '🗄️ アーカイブを保存'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Lark アカウントがない方向けに、テーブルごとの CSV（複数テーブルは ZIP）、1 つの Excel ブック（テーブルごとにシート）、またはブラウザで開ける読み取り専用の HTML ビューア（1 ファイル）でダウンロードします。アーカイブ（.jsonl.gz）は変換前のフィールド定義とレコードをそのまま保存します
+      </p>
     </form>
   );
 }
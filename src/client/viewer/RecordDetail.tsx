@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import type { ViewerColumn, ViewerRecord } from './ViewerApp';
+
+interface RecordDetailProps {
+  columns: ViewerColumn[];
+  record: ViewerRecord;
+  onClose: () => void;
+}
+
+export function RecordDetail({ columns, record, onClose }: RecordDetailProps) {
+  // Close with the Escape key
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex justify-end" onClick={onClose}>
+      <aside
+        className="w-full max-w-lg h-full bg-white shadow-xl overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-lark-dark">{record.values[0] || '(空)'}</h2>
+            <p className="text-xs text-gray-400">{record.id}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-800 text-xl" aria-label="閉じる">
+            ×
+          </button>
+        </div>
+
+        <dl className="space-y-3">
+          {columns.map((column, index) => (
+            <div key={index}>
+              <dt className="text-xs font-medium text-gray-500">{column.name}</dt>
+              <dd className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+                {record.values[index] || <span className="text-gray-300">-</span>}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </aside>
+    </div>
+  );
+}
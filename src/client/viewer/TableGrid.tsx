@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import type { ViewerColumn, ViewerRecord, ViewerTable } from './ViewerApp';
+
+/** Rows rendered at once; more are shown on demand */
+const PAGE_SIZE = 200;
+
+interface SortState {
+  column: number;
+  descending: boolean;
+}
+
+/**
+ * Compare two display values of a column (empty values always sort last)
+ */
+function compareValues(a: string, b: string, column: ViewerColumn): number {
+  if (a === '' || b === '') {
+    return a === b ? 0 : a === '' ? 1 : -1;
+  }
+  if (column.kind === 'number') {
+    return Number(a) - Number(b);
+  }
+  // Dates are rendered as YYYY-MM-DD HH:mm:ss, so text order is time order
+  return a.localeCompare(b, 'ja', { numeric: true });
+}
+
+interface TableGridProps {
+  table: ViewerTable;
+  onSelect: (record: ViewerRecord) => void;
+}
+
+export function TableGrid({ table, onSelect }: TableGridProps) {
+  const [query, setQuery] = useState('');
+  const [filterColumn, setFilterColumn] = useState(-1);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+
+  const rows = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = needle === ''
+      ? table.records
+      : table.records.filter((record) =>
+          (filterColumn >= 0 ? [record.values[filterColumn]] : record.values)
+            .some((value) => value.toLowerCase().includes(needle))
+        );
+
+    if (!sort) {
+      return filtered;
+    }
+    const column = table.columns[sort.column];
+    return [...filtered].sort((a, b) => {
+      const result = compareValues(a.values[sort.column], b.values[sort.column], column);
+      // Keep empty values last in both directions
+      const hasEmpty = a.values[sort.column] === '' || b.values[sort.column] === '';
+      return sort.descending && !hasEmpty ? -result : result;
+    });
+  }, [table, query, filterColumn, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort((current) =>
+      current?.column === column
+        ? current.descending ? null : { column, descending: true }
+        : { column, descending: false }
+    );
+  };
+
+  return (
+    <div className="card p-4">
+      {/* Filter */}
+      <div className="flex items-center gap-2 mb-4">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setLimit(PAGE_SIZE);
+          }}
+          placeholder="絞り込み..."
+          className="input-field py-2"
+        />
+        <select
+          value={filterColumn}
+          onChange={(e) => setFilterColumn(Number(e.target.value))}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        >
+          <option value={-1}>すべての列</option>
+          {table.columns.map((column, index) => (
+            <option key={index} value={index}>
+              {column.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-sm text-gray-500 whitespace-nowrap">
+          {rows.length} / {table.records.length} 件
+        </span>
+      </div>
+
+      {/* Grid */}
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              {table.columns.map((column, index) => (
+                <th
+                  key={index}
+                  onClick={() => toggleSort(index)}
+                  className="px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap cursor-pointer select-none hover:bg-gray-50"
+                >
+                  {column.name}
+                  {sort?.column === index && (sort.descending ? ' ▼' : ' ▲')}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, limit).map((record) => (
+              <tr
+                key={record.id}
+                onClick={() => onSelect(record)}
+                className="border-b border-gray-100 cursor-pointer hover:bg-blue-50"
+              >
+                {record.values.map((value, index) => (
+                  <td
+                    key={index}
+                    className={`px-3 py-2 max-w-xs truncate ${
+                      table.columns[index].kind === 'number' ? 'text-right tabular-nums' : ''
+                    }`}
+                    title={value}
+                  >
+                    {value}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {rows.length > limit && (
+        <div className="text-center mt-4">
+          <button onClick={() => setLimit(limit + PAGE_SIZE)} className="btn-secondary py-2">
+            さらに表示 ({rows.length - limit} 件)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { TableGrid } from './TableGrid';
+import { RecordDetail } from './RecordDetail';
+
+export interface ViewerColumn {
+  name: string;
+  kind: 'number' | 'date' | 'boolean' | 'text';
+}
+
+export interface ViewerRecord {
+  id: string;
+  values: string[];
+}
+
+export interface ViewerTable {
+  tableId: string;
+  name: string;
+  columns: ViewerColumn[];
+  records: ViewerRecord[];
+}
+
+/** Snapshot data embedded in the page (SnapshotViewerData on the server) */
+export interface ViewerData {
+  sourceBase: { app_token: string; name: string };
+  capturedAt: string;
+  toolVersion: string;
+  tables: ViewerTable[];
+  errors: Array<{ table?: string; message: string }>;
+}
+
+interface ViewerAppProps {
+  data: ViewerData;
+}
+
+export function ViewerApp({ data }: ViewerAppProps) {
+  const [tableIndex, setTableIndex] = useState(0);
+  const [selectedRecord, setSelectedRecord] = useState<ViewerRecord | null>(null);
+
+  const table = data.tables[tableIndex];
+  const totalRecords = data.tables.reduce((sum, t) => sum + t.records.length, 0);
+
+  return (
+    <div className="min-h-screen bg-lark-light">
+      {/* Header with capture metadata */}
+      <header className="bg-white border-b border-gray-200 px-6 py-4">
+        <h1 className="text-xl font-bold text-lark-dark">{data.sourceBase.name}</h1>
+        <p className="text-sm text-gray-500 mt-1">
+          取得日時: {new Date(data.capturedAt).toLocaleString('ja-JP')} ・ {data.tables.length} テーブル ・{' '}
+          {totalRecords} レコード ・ 読み取り専用スナップショット (v{data.toolVersion})
+        </p>
+        {data.errors.length > 0 && (
+          <details className="mt-2 text-sm text-red-700">
+            <summary className="cursor-pointer">取得時のエラー {data.errors.length} 件</summary>
+            <ul className="mt-1 list-disc list-inside">
+              {data.errors.map((error, index) => (
+                <li key={index}>
+                  {error.table ? `[${error.table}] ` : ''}
+                  {error.message}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </header>
+
+      <div className="flex">
+        {/* Table list */}
+        <nav className="w-60 shrink-0 p-4">
+          <h2 className="text-xs font-semibold text-gray-500 uppercase mb-2">テーブル</h2>
+          <ul className="space-y-1">
+            {data.tables.map((t, index) => (
+              <li key={t.tableId}>
+                <button
+                  onClick={() => {
+                    setTableIndex(index);
+                    setSelectedRecord(null);
+                  }}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm flex justify-between ${
+                    index === tableIndex ? 'bg-lark-primary text-white' : 'text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <span className="truncate">{t.name}</span>
+                  <span className="ml-2 opacity-75">{t.records.length}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </nav>
+
+        <main className="flex-1 min-w-0 p-4">
+          {table ? (
+            <TableGrid key={table.tableId} table={table} onSelect={setSelectedRecord} />
+          ) : (
+            <p className="text-gray-500">テーブルがありません</p>
+          )}
+        </main>
+      </div>
+
+      {table && selectedRecord && (
+        <RecordDetail
+          columns={table.columns}
+          record={selectedRecord}
+          onClose={() => setSelectedRecord(null)}
+        />
+      )}
+    </div>
+  );
+}
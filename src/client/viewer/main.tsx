@@ -0,0 +1,13 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { ViewerApp, type ViewerData } from './ViewerApp';
+import '../styles/index.css';
+
+// Snapshot data is embedded in the page by renderViewerHtml
+const data = JSON.parse(document.getElementById('snapshot-data')!.textContent || '{}') as ViewerData;
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <ViewerApp data={data} />
+  </React.StrictMode>
+);
@@ -7,8 +7,34 @@
  * Powered by Miyabi - Autonomous AI Development Framework
  */
 
-import { SnapshotService } from './services/index.js';
-import type { SnapshotConfig, SnapshotResult, LarkConfig } from './types/index.js';
+import {
+  SnapshotService,
+  SnapshotScheduler,
+  SnapshotDiffService,
+  SnapshotRestoreService,
+  AuthService,
+  formatDiffSummary,
+  renderSnapshotExport,
+  writeExportFiles,
+  getExportName,
+  SNAPSHOT_EXPORT_FORMATS,
+  saveArchive,
+  loadArchive,
+  ARCHIVE_FILE_EXTENSION,
+} from './services/index.js';
+import type {
+  SnapshotConfig,
+  SnapshotResult,
+  SnapshotDiff,
+  SnapshotRestoreOptions,
+  SnapshotRestoreResult,
+  SnapshotExportFormat,
+  SnapshotExportResult,
+  SnapshotArchiveManifest,
+  SnapshotError,
+  SnapshotRehydrateOptions,
+  LarkConfig,
+} from './types/index.js';
 
 // Re-export types and services for library usage
 export * from './types/index.js';
@@ -17,6 +43,10 @@ export * from './services/index.js';
 /**
  * Create a snapshot of a Lark Base
  *
+ * Field types can be frozen differently by passing converters in
+ * `snapshotConfig.fieldConverters`, e.g.
+ * `{ uiType: 'User', converter: { ...BUILT_IN_FIELD_CONVERTERS.text, convertValue: ... } }`
+ *
  * @param larkConfig - Lark API configuration
  * @param snapshotConfig - Snapshot configuration
  * @returns Snapshot result
@@ -29,6 +59,148 @@ export async function createSnapshot(
   return service.createSnapshot(snapshotConfig);
 }
 
+/**
+ * Resume a snapshot that did not finish from its checkpoint
+ *
+ * @param larkConfig - Lark API configuration
+ * @param checkpointId - Checkpoint ID reported in the failed SnapshotResult
+ * @returns Snapshot result
+ */
+export async function resumeSnapshot(
+  larkConfig: LarkConfig,
+  checkpointId: string
+): Promise<SnapshotResult> {
+  const service = new SnapshotService(larkConfig);
+  return service.resumeSnapshot(checkpointId);
+}
+
+/**
+ * Export a snapshot to local files instead of a new Lark Base
+ *
+ * @param larkConfig - Lark API configuration
+ * @param snapshotConfig - Source Base URL (optionally of a view), table selection, field policies and record filters
+ * @param options - Export format (csv, xlsx, sqlite or html) and output directory (default: `<Base name>_snap_<YYYYMMDD>`)
+ * @returns Written files and export counts
+ */
+export async function exportSnapshot(
+  larkConfig: LarkConfig,
+  snapshotConfig: Pick<
+    SnapshotConfig,
+    'sourceBaseUrl' | 'selectedTableIds' | 'viewFieldsOnly' | 'fieldPolicies' | 'recordFilters'
+  >,
+  options: { format: SnapshotExportFormat; outputDir?: string }
+): Promise<SnapshotExportResult> {
+  const service = new SnapshotService(larkConfig);
+  const snapshot = await service.captureSnapshot(snapshotConfig);
+  const files = await writeExportFiles(
+    await renderSnapshotExport(snapshot, options.format),
+    options.outputDir ?? getExportName(snapshot.sourceBase.name, snapshot.createdAt)
+  );
+
+  return {
+    format: options.format,
+    files,
+    tablesExported: snapshot.tables.length,
+    recordsExported: snapshot.tables.reduce((sum, t) => sum + t.records.length, 0),
+    errors: snapshot.errors,
+  };
+}
+
+/**
+ * Save a lossless archive of a Base (raw fields and records) as a .jsonl.gz file
+ *
+ * @param larkConfig - Lark API configuration
+ * @param snapshotConfig - Source Base URL and optional table selection
+ * @param outputPath - Archive file path (default: `<Base name>_snap_<YYYYMMDD>.jsonl.gz`)
+ * @returns Written path, archive manifest and tables that could not be read
+ */
+export async function archiveSnapshot(
+  larkConfig: LarkConfig,
+  snapshotConfig: Pick<SnapshotConfig, 'sourceBaseUrl' | 'selectedTableIds'>,
+  outputPath?: string
+): Promise<{ path: string; manifest: SnapshotArchiveManifest; errors: SnapshotError[] }> {
+  const service = new SnapshotService(larkConfig);
+  const { archive, errors } = await service.captureArchive(snapshotConfig);
+  const path = outputPath ??
+    `${getExportName(archive.manifest.baseName, archive.manifest.capturedAt)}${ARCHIVE_FILE_EXTENSION}`;
+
+  await saveArchive(archive, path);
+  return { path, manifest: archive.manifest, errors };
+}
+
+/**
+ * Create a new Lark Base from a snapshot archive file
+ *
+ * @param larkConfig - Lark API configuration
+ * @param archivePath - Path of a .jsonl.gz archive written by archiveSnapshot
+ * @param options - New Base name and link handling
+ * @returns Snapshot result for the created Base
+ */
+export async function rehydrateSnapshot(
+  larkConfig: LarkConfig,
+  archivePath: string,
+  options: SnapshotRehydrateOptions
+): Promise<SnapshotResult> {
+  const archive = await loadArchive(archivePath);
+  const service = new SnapshotService(larkConfig);
+  return service.rehydrateArchive(archive, options);
+}
+
+/**
+ * Compare two snapshots, or a snapshot and the live source Base
+ *
+ * @param larkConfig - Lark API configuration
+ * @param beforeUrl - URL of the older Base or table
+ * @param afterUrl - URL of the newer Base or table
+ * @returns Added, removed and modified records per table
+ */
+export async function diffSnapshots(
+  larkConfig: LarkConfig,
+  beforeUrl: string,
+  afterUrl: string
+): Promise<SnapshotDiff> {
+  const service = new SnapshotDiffService(larkConfig);
+  return service.diff(beforeUrl, afterUrl);
+}
+
+/**
+ * Write field values from a snapshot back to the source table
+ *
+ * @param larkConfig - Lark API configuration
+ * @param options - Snapshot and source URLs, fields to restore and dry-run flag
+ * @returns Values overwritten (or that would be overwritten) per table
+ */
+export async function restoreSnapshot(
+  larkConfig: LarkConfig,
+  options: SnapshotRestoreOptions
+): Promise<SnapshotRestoreResult> {
+  const service = new SnapshotRestoreService(larkConfig);
+  return service.restore(options);
+}
+
+/**
+ * Run the snapshot scheduler until the process is stopped
+ *
+ * @param larkConfig - Lark API configuration
+ */
+export function runSchedulerDaemon(larkConfig: LarkConfig): SnapshotScheduler {
+  const redirectUri = process.env.OAUTH_REDIRECT_URI || 'http://localhost:3000/api/auth/callback';
+  const scheduler = new SnapshotScheduler(larkConfig, {
+    authService: new AuthService(larkConfig, redirectUri),
+  });
+
+  scheduler.start();
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      scheduler.stop();
+      process.exit(0);
+    });
+  }
+
+  return scheduler;
+}
+
 /**
  * CLI entry point
  */
@@ -41,6 +213,8 @@ export async function main(): Promise<void> {
   const appSecret = process.env.LARK_APP_SECRET;
   const sourceUrl = process.env.SOURCE_BASE_URL || process.argv[2];
   const targetName = process.env.TARGET_BASE_NAME || process.argv[3];
+  const targetBaseUrl = process.env.TARGET_BASE_URL;
+  const resumeCheckpointId = process.env.RESUME_CHECKPOINT;
 
   if (!appId || !appSecret) {
     console.error('❌ Error: Missing Lark credentials');
@@ -55,36 +229,250 @@ export async function main(): Promise<void> {
     process.exit(1);
   }
 
-  if (!sourceUrl) {
+  // Standalone scheduler daemon: npx tsx src/index.ts scheduler
+  if (process.argv[2] === 'scheduler') {
+    runSchedulerDaemon({ appId, appSecret });
+    return;
+  }
+
+  // Export to local files: npx tsx src/index.ts export <source_url> [--format=csv|xlsx|sqlite|html] [--out=dir]
+  if (process.argv[2] === 'export') {
+    const args = process.argv.slice(3);
+    const exportSourceUrl = args.find((arg) => !arg.startsWith('--'));
+    const format = (args.find((arg) => arg.startsWith('--format='))?.slice('--format='.length) ?? 'csv') as SnapshotExportFormat;
+    const outputDir = args.find((arg) => arg.startsWith('--out='))?.slice('--out='.length);
+    if (!exportSourceUrl || !SNAPSHOT_EXPORT_FORMATS.includes(format)) {
+      console.error('❌ Error: Missing source Base URL or unsupported format');
+      console.error('');
+      console.error('Usage:');
+      console.error(`  npx tsx src/index.ts export <source_url> [--format=${SNAPSHOT_EXPORT_FORMATS.join('|')}] [--out=dir]`);
+      process.exit(1);
+    }
+
+    try {
+      const result = await exportSnapshot(
+        { appId, appSecret },
+        { sourceBaseUrl: exportSourceUrl },
+        { format, outputDir }
+      );
+      console.log(`✅ Exported ${result.tablesExported} tables (${result.recordsExported} records)\n`);
+      for (const file of result.files) {
+        console.log(`  ${file}`);
+      }
+      if (result.errors.length > 0) {
+        console.error('\nErrors:');
+        for (const error of result.errors) {
+          console.error(`  - ${error.table ? `[${error.table}] ` : ''}${error.message}`);
+        }
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Export failed:', (error as Error).message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Lossless archive: npx tsx src/index.ts archive <source_url> [--out=file.jsonl.gz]
+  if (process.argv[2] === 'archive') {
+    const args = process.argv.slice(3);
+    const archiveSourceUrl = args.find((arg) => !arg.startsWith('--'));
+    const outputPath = args.find((arg) => arg.startsWith('--out='))?.slice('--out='.length);
+    if (!archiveSourceUrl) {
+      console.error('❌ Error: Missing source Base URL');
+      console.error('');
+      console.error('Usage:');
+      console.error('  npx tsx src/index.ts archive <source_url> [--out=file.jsonl.gz]');
+      process.exit(1);
+    }
+
+    try {
+      const result = await archiveSnapshot({ appId, appSecret }, { sourceBaseUrl: archiveSourceUrl }, outputPath);
+      const recordCount = result.manifest.tables.reduce((sum, t) => sum + t.recordCount, 0);
+      console.log(`✅ Archived ${result.manifest.tables.length} tables (${recordCount} records)`);
+      console.log(`  ${result.path}`);
+      if (result.errors.length > 0) {
+        console.error('\nErrors:');
+        for (const error of result.errors) {
+          console.error(`  - ${error.table ? `[${error.table}] ` : ''}${error.message}`);
+        }
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Archive failed:', (error as Error).message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Rebuild a Base from an archive: npx tsx src/index.ts rehydrate <archive_file> [target_base_name] [--no-links]
+  if (process.argv[2] === 'rehydrate') {
+    const args = process.argv.slice(3);
+    const [archivePath, rehydrateName] = args.filter((arg) => !arg.startsWith('--'));
+    if (!archivePath) {
+      console.error('❌ Error: Missing archive file');
+      console.error('');
+      console.error('Usage:');
+      console.error('  npx tsx src/index.ts rehydrate <archive_file> [target_base_name] [--no-links]');
+      process.exit(1);
+    }
+
+    try {
+      const result = await rehydrateSnapshot({ appId, appSecret }, archivePath, {
+        targetBaseName: rehydrateName || `Restored_${new Date().toISOString().split('T')[0]}`,
+        rebuildLinks: !args.includes('--no-links'),
+        grantAdminPermission: true,
+      });
+
+      if (!result.success) {
+        console.error('❌ Rehydrate failed\n');
+        for (const error of result.errors) {
+          const location = [error.table, error.field].filter(Boolean).join(' > ');
+          console.error(`  - ${location ? `[${location}] ` : ''}${error.message}`);
+        }
+        process.exit(1);
+      }
+
+      console.log(`✅ Rehydrated ${result.sourceBase.name} into ${result.targetBase.name}`);
+      console.log(`  Tables Processed: ${result.tablesProcessed}`);
+      console.log(`  Records Processed: ${result.recordsProcessed}`);
+      if (result.targetBase.url) {
+        console.log(`\n🔗 Open Base: ${result.targetBase.url}`);
+      }
+    } catch (error) {
+      console.error('❌ Rehydrate failed:', (error as Error).message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Diff two snapshots: npx tsx src/index.ts diff <before_url> <after_url> [--json]
+  if (process.argv[2] === 'diff') {
+    const [beforeUrl, afterUrl] = process.argv.slice(3).filter((arg) => arg !== '--json');
+    if (!beforeUrl || !afterUrl) {
+      console.error('❌ Error: Missing Base URLs');
+      console.error('');
+      console.error('Usage:');
+      console.error('  npx tsx src/index.ts diff <before_url> <after_url> [--json]');
+      process.exit(1);
+    }
+
+    try {
+      const diff = await diffSnapshots({ appId, appSecret }, beforeUrl, afterUrl);
+      if (process.argv.includes('--json')) {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        console.log(formatDiffSummary(diff));
+      }
+    } catch (error) {
+      console.error('❌ Diff failed:', (error as Error).message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  // Restore from a snapshot: npx tsx src/index.ts restore <snapshot_url> <source_url> [--fields=A,B] [--apply]
+  if (process.argv[2] === 'restore') {
+    const args = process.argv.slice(3);
+    const [snapshotUrl, restoreSourceUrl] = args.filter((arg) => !arg.startsWith('--'));
+    const fieldsArg = args.find((arg) => arg.startsWith('--fields='));
+    if (!snapshotUrl || !restoreSourceUrl) {
+      console.error('❌ Error: Missing Base URLs');
+      console.error('');
+      console.error('Usage:');
+      console.error('  npx tsx src/index.ts restore <snapshot_url> <source_url> [--fields=A,B] [--apply]');
+      console.error('  Without --apply only the values that would be overwritten are shown');
+      process.exit(1);
+    }
+
+    try {
+      const result = await restoreSnapshot({ appId, appSecret }, {
+        snapshotUrl,
+        sourceUrl: restoreSourceUrl,
+        fields: fieldsArg ? fieldsArg.slice('--fields='.length).split(',') : undefined,
+        dryRun: !args.includes('--apply'),
+      });
+
+      console.log(result.dryRun ? '🔍 Restore preview (dry run)\n' : '✅ Restore finished\n');
+      for (const table of result.tables) {
+        console.log(`[${table.tableName}] ${table.changes.length} records (matched by ${table.matchedBy})`);
+        for (const record of table.changes) {
+          for (const change of record.changes) {
+            console.log(`  ${record.sourceRecordId} ${change.field}: ${change.before ?? '(empty)'} -> ${change.after ?? '(empty)'}`);
+          }
+        }
+        for (const skipped of table.skippedFields) {
+          console.log(`  skipped ${skipped.field}: ${skipped.reason}`);
+        }
+        if (table.unmatchedRecords.length > 0) {
+          console.log(`  ${table.unmatchedRecords.length} snapshot records without a source record`);
+        }
+      }
+      for (const error of result.errors) {
+        console.error(`  - ${error.table ? `[${error.table}] ` : ''}${error.message}`);
+      }
+      if (!result.dryRun) {
+        console.log(`\nRecords updated: ${result.recordsUpdated}`);
+      }
+    } catch (error) {
+      console.error('❌ Restore failed:', (error as Error).message);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (!sourceUrl && !resumeCheckpointId) {
     console.error('❌ Error: Missing source Base URL');
     console.error('');
     console.error('Usage:');
     console.error('  npx tsx src/index.ts <source_base_url> <target_base_name>');
+    console.error('  npx tsx src/index.ts scheduler   (run scheduled snapshots)');
+    console.error('  npx tsx src/index.ts export <source_url> [--format=csv|xlsx|sqlite|html] [--out=dir]');
+    console.error('  npx tsx src/index.ts archive <source_url> [--out=file.jsonl.gz]');
+    console.error('  npx tsx src/index.ts rehydrate <archive_file> [target_base_name] [--no-links]');
+    console.error('  npx tsx src/index.ts diff <before_url> <after_url> [--json]');
+    console.error('  npx tsx src/index.ts restore <snapshot_url> <source_url> [--fields=A,B] [--apply]');
     console.error('');
     console.error('Or set environment variables:');
     console.error('  SOURCE_BASE_URL  - URL of the source Lark Base');
     console.error('  TARGET_BASE_NAME - Name for the snapshot Base');
+    console.error('  TARGET_BASE_URL  - Existing Base to add snapshot tables to (optional)');
+    console.error('  RESUME_CHECKPOINT - Checkpoint ID of a failed run to resume (optional)');
     process.exit(1);
   }
 
   const snapshotConfig: SnapshotConfig = {
-    sourceBaseUrl: sourceUrl,
+    sourceBaseUrl: sourceUrl ?? '',
     targetBaseName: targetName || `Snapshot_${new Date().toISOString().split('T')[0]}`,
+    targetBaseUrl,
     grantAdminPermission: true,
+    preserveAttachments: process.env.PRESERVE_ATTACHMENTS === 'true',
+    incremental: process.env.INCREMENTAL === 'true',
+    verify: process.env.VERIFY === 'true',
+    copyViews: process.env.COPY_VIEWS !== 'false',
+    timeZone: process.env.SNAPSHOT_TIME_ZONE || undefined,
   };
 
-  console.log('Configuration:');
-  console.log(`  Source: ${snapshotConfig.sourceBaseUrl}`);
-  console.log(`  Target: ${snapshotConfig.targetBaseName}`);
-  console.log(`  Admin Permission: ${snapshotConfig.grantAdminPermission}`);
-  console.log('');
-  console.log('Creating snapshot...\n');
+  if (resumeCheckpointId) {
+    // The checkpoint keeps the configuration of the original run
+    console.log(`Resuming checkpoint: ${resumeCheckpointId}\n`);
+  } else {
+    console.log('Configuration:');
+    console.log(`  Source: ${snapshotConfig.sourceBaseUrl}`);
+    console.log(`  Target: ${snapshotConfig.targetBaseUrl ?? snapshotConfig.targetBaseName}`);
+    console.log(`  Admin Permission: ${snapshotConfig.grantAdminPermission}`);
+    console.log(`  Preserve Attachments: ${snapshotConfig.preserveAttachments}`);
+    console.log(`  Incremental: ${snapshotConfig.incremental}`);
+    console.log(`  Verify: ${snapshotConfig.verify}`);
+    console.log(`  Copy Views: ${snapshotConfig.copyViews}`);
+    console.log('');
+    console.log('Creating snapshot...\n');
+  }
 
   try {
-    const result = await createSnapshot(
-      { appId, appSecret },
-      snapshotConfig
-    );
+    const result = resumeCheckpointId
+      ? await resumeSnapshot({ appId, appSecret }, resumeCheckpointId)
+      : await createSnapshot({ appId, appSecret }, snapshotConfig);
 
     if (result.success) {
       console.log('✅ Snapshot created successfully!\n');
@@ -96,9 +484,35 @@ export async function main(): Promise<void> {
       console.log(`  Fields Converted: ${result.fieldsConverted}`);
       console.log(`  Created At: ${result.createdAt}`);
 
+      if (result.incremental) {
+        console.log(`  Incremental: ${result.incremental.created} created, ${result.incremental.updated} updated, ${result.incremental.deleted} deleted`);
+      }
+
+      if (result.warnings && result.warnings.length > 0) {
+        console.log('\n⚠️ Warnings:');
+        for (const warning of result.warnings) {
+          const location = [warning.table, warning.view, warning.field].filter(Boolean).join(' > ');
+          console.log(`  - ${location ? `[${location}] ` : ''}${warning.message}`);
+        }
+      }
+
+      if (result.verification) {
+        console.log(`\n${result.verification.passed ? '✅' : '❌'} Verification:`);
+        for (const table of result.verification.tables) {
+          console.log(
+            `  ${table.passed ? '✓' : '✗'} ${table.tableName}: ${table.targetRecords}/${table.expectedRecords} records` +
+            (table.passed ? '' : `, ${table.missingRecordIds.length} missing, ${table.mismatchedRecordIds.length} mismatched, ${table.unexpectedRecordIds.length} unexpected`)
+          );
+        }
+      }
+
       if (result.targetBase.url) {
         console.log(`\n🔗 Open snapshot: ${result.targetBase.url}`);
       }
+
+      if (result.verification && !result.verification.passed) {
+        process.exit(1);
+      }
     } else {
       console.error('❌ Snapshot creation failed\n');
       console.error('Errors:');
@@ -108,6 +522,9 @@ export async function main(): Promise<void> {
           .join(' > ');
         console.error(`  - ${location ? `[${location}] ` : ''}${error.message}`);
       }
+      if (result.checkpointId) {
+        console.error(`\nResume with: RESUME_CHECKPOINT=${result.checkpointId}`);
+      }
       process.exit(1);
     }
   } catch (error) {
@@ -10,6 +10,9 @@ import cookieParser from 'cookie-parser';
 import dotenv from 'dotenv';
 import { authRouter } from './routes/auth.js';
 import { snapshotRouter } from './routes/snapshot.js';
+import { schedulesRouter } from './routes/schedules.js';
+import { AuthService } from '../services/authService.js';
+import { SnapshotScheduler } from '../services/snapshotScheduler.js';
 
 // Load environment variables
 dotenv.config();
@@ -28,6 +31,7 @@ app.use(express.json());
 // Routes
 app.use('/api/auth', authRouter);
 app.use('/api/snapshot', snapshotRouter);
+app.use('/api/schedules', schedulesRouter);
 
 // Health check
 app.get('/api/health', (_req, res) => {
@@ -44,7 +48,33 @@ app.listen(PORT, () => {
   console.log('  GET  /api/auth/callback   - OAuth callback');
   console.log('  GET  /api/auth/status     - Check auth status');
   console.log('  POST /api/auth/logout     - Logout');
-  console.log('  POST /api/snapshot        - Create snapshot');
+  console.log('  POST /api/snapshot        - Start snapshot job');
+  console.log('  POST /api/snapshot/resume - Resume snapshot from checkpoint');
+  console.log('  POST /api/snapshot/export - Download snapshot as local files');
+  console.log('  POST /api/snapshot/archive - Download lossless archive (.jsonl.gz)');
+  console.log('  POST /api/snapshot/rehydrate - Create Base from archive (background job)');
+  console.log('  POST /api/snapshot/diff   - Diff two snapshots');
+  console.log('  POST /api/snapshot/restore - Restore source values from a snapshot');
+  console.log('  GET  /api/snapshot/jobs/:id        - Snapshot job status');
+  console.log('  GET  /api/snapshot/jobs/:id/events - Snapshot job progress (SSE)');
+  console.log('  GET  /api/schedules       - List snapshot schedules');
+  console.log('  POST /api/schedules       - Create snapshot schedule');
+
+  // Run scheduled snapshots in this process when enabled
+  if (process.env.SCHEDULER_ENABLED === 'true') {
+    const appId = process.env.LARK_APP_ID;
+    const appSecret = process.env.LARK_APP_SECRET;
+
+    if (!appId || !appSecret) {
+      console.error('SCHEDULER_ENABLED requires LARK_APP_ID and LARK_APP_SECRET');
+    } else {
+      const redirectUri = process.env.OAUTH_REDIRECT_URI || 'http://localhost:3000/api/auth/callback';
+      const scheduler = new SnapshotScheduler({ appId, appSecret }, {
+        authService: new AuthService({ appId, appSecret }, redirectUri),
+      });
+      scheduler.start();
+    }
+  }
 });
 
 export default app;
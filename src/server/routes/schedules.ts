@@ -0,0 +1,296 @@
+/**
+ * Schedule Routes
+ *
+ * @description CRUD endpoints for recurring snapshot schedules
+ * @note Schedules are run by SnapshotScheduler (server with SCHEDULER_ENABLED=true, or CLI daemon)
+ */
+
+import { Router } from 'express';
+import crypto from 'crypto';
+import { AuthService, type OAuthTokens } from '../../services/authService.js';
+import { createDefaultScheduleStore } from '../../services/scheduleStore.js';
+import { validateSchedule } from '../../services/snapshotScheduler.js';
+import { getNextRunTime } from '../../services/cron.js';
+import type { SnapshotSchedule } from '../../types/index.js';
+import type { Request } from 'express';
+
+const router = Router();
+
+// Check if running in serverless environment
+const IS_SERVERLESS = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+// Cookie name for auth tokens
+const AUTH_COOKIE = 'lark_auth';
+
+const scheduleStore = createDefaultScheduleStore();
+
+// Schedules need a persistent store and a long-running scheduler, which serverless does not have
+router.use((_req, res, next) => {
+  if (IS_SERVERLESS) {
+    return res.status(501).json({
+      error: 'Schedules are not available in serverless deployments: run the server with SCHEDULER_ENABLED=true or the CLI daemon',
+    });
+  }
+  next();
+});
+
+// Fields a user may set on a schedule
+const EDITABLE_FIELDS = [
+  'name',
+  'sourceBaseUrl',
+  'selectedTableIds',
+  'nameTemplate',
+  'cron',
+  'grantAdminPermission',
+  'preserveAttachments',
+  'retention',
+  'enabled',
+] as const;
+
+// Helper: Decode tokens from cookie
+function decodeTokens(encoded: string): OAuthTokens | null {
+  try {
+    return JSON.parse(Buffer.from(encoded, 'base64').toString('utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// Get auth service instance
+const getAuthService = () => {
+  const appId = process.env.LARK_APP_ID;
+  const appSecret = process.env.LARK_APP_SECRET;
+  const redirectUri = process.env.OAUTH_REDIRECT_URI || 'http://localhost:3000/api/auth/callback';
+
+  if (!appId || !appSecret) {
+    throw new Error('LARK_APP_ID and LARK_APP_SECRET must be set');
+  }
+
+  return new AuthService({ appId, appSecret }, redirectUri);
+};
+
+// Helper: Get tokens from request (supports both serverless and development)
+function getTokensFromRequest(req: Request): OAuthTokens | null {
+  if (IS_SERVERLESS) {
+    const authCookie = req.cookies?.[AUTH_COOKIE];
+    if (!authCookie) return null;
+    return decodeTokens(authCookie);
+  } else {
+    const sessionId = req.cookies?.session_id;
+    if (!sessionId) return null;
+    const authService = getAuthService();
+    return authService.getTokens(sessionId) || null;
+  }
+}
+
+// Helper: Pick the editable fields from a request body
+function pickEditableFields(body: Record<string, unknown>): Partial<SnapshotSchedule> {
+  const fields: Record<string, unknown> = {};
+  for (const key of EDITABLE_FIELDS) {
+    if (body[key] !== undefined) {
+      fields[key] = body[key];
+    }
+  }
+  return fields as Partial<SnapshotSchedule>;
+}
+
+// Helper: Remove stored credentials before sending a schedule to the client
+function toPublicSchedule(schedule: SnapshotSchedule): Omit<SnapshotSchedule, 'refreshToken'> {
+  const { refreshToken: _refreshToken, ...rest } = schedule;
+  return rest;
+}
+
+// Helper: Load a schedule owned by the current user
+// Schedules without an owner were created from the CLI and can only be managed there
+async function getOwnSchedule(id: string, tokens: OAuthTokens): Promise<SnapshotSchedule | null> {
+  const schedule = await scheduleStore.get(id);
+  if (!schedule || schedule.ownerId !== tokens.userId) {
+    return null;
+  }
+  return schedule;
+}
+
+/**
+ * GET /api/schedules
+ * List the current user's schedules
+ */
+router.get('/', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const schedules = (await scheduleStore.list())
+      .filter((s) => s.ownerId === tokens.userId)
+      .map(toPublicSchedule);
+
+    res.json({ schedules });
+  } catch (error) {
+    console.error('List schedules error:', error);
+    res.status(500).json({
+      error: 'Failed to list schedules',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/schedules
+ * Create a schedule that runs with the current user's credentials
+ */
+router.post('/', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const fields = pickEditableFields(req.body ?? {});
+    const problems = validateSchedule(fields);
+
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Invalid schedule', problems });
+    }
+
+    const now = new Date();
+    const enabled = fields.enabled ?? true;
+    const schedule: SnapshotSchedule = {
+      ...fields,
+      id: crypto.randomUUID(),
+      name: fields.name!,
+      sourceBaseUrl: fields.sourceBaseUrl!,
+      nameTemplate: fields.nameTemplate!,
+      cron: fields.cron!,
+      enabled,
+      ownerId: tokens.userId,
+      refreshToken: tokens.refreshToken,
+      nextRunAt: enabled ? getNextRunTime(fields.cron!, now).toISOString() : undefined,
+      runs: [],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await scheduleStore.save(schedule);
+
+    res.status(201).json(toPublicSchedule(schedule));
+  } catch (error) {
+    console.error('Create schedule error:', error);
+    res.status(500).json({
+      error: 'Failed to create schedule',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /api/schedules/:id
+ * Get a schedule and its run history
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const schedule = await getOwnSchedule(req.params.id, tokens);
+
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    res.json(toPublicSchedule(schedule));
+  } catch (error) {
+    console.error('Get schedule error:', error);
+    res.status(500).json({
+      error: 'Failed to get schedule',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * PUT /api/schedules/:id
+ * Update a schedule (only the fields present in the body are changed)
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const schedule = await getOwnSchedule(req.params.id, tokens);
+
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    const updated: SnapshotSchedule = {
+      ...schedule,
+      ...pickEditableFields(req.body ?? {}),
+      ownerId: schedule.ownerId,
+      refreshToken: schedule.refreshToken,
+    };
+    const problems = validateSchedule(updated);
+
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Invalid schedule', problems });
+    }
+
+    const now = new Date();
+    updated.nextRunAt = updated.enabled ? getNextRunTime(updated.cron, now).toISOString() : undefined;
+    // Renew the stored credentials only when the owner edits the schedule
+    if (schedule.ownerId === tokens.userId) {
+      updated.refreshToken = tokens.refreshToken;
+    }
+    updated.updatedAt = now.toISOString();
+
+    await scheduleStore.save(updated);
+
+    res.json(toPublicSchedule(updated));
+  } catch (error) {
+    console.error('Update schedule error:', error);
+    res.status(500).json({
+      error: 'Failed to update schedule',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * DELETE /api/schedules/:id
+ * Delete a schedule (snapshot Bases it created are kept)
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const schedule = await getOwnSchedule(req.params.id, tokens);
+
+    if (!schedule) {
+      return res.status(404).json({ error: 'Schedule not found' });
+    }
+
+    await scheduleStore.delete(schedule.id);
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Delete schedule error:', error);
+    res.status(500).json({
+      error: 'Failed to delete schedule',
+      message: (error as Error).message,
+    });
+  }
+});
+
+export { router as schedulesRouter };
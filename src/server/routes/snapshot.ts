@@ -5,17 +5,54 @@
  * @note Uses cookie-based session storage for serverless compatibility
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { SnapshotService } from '../../services/snapshotService.js';
+import { SnapshotJobRunner } from '../../services/snapshotJobRunner.js';
+import { SnapshotDiffService, formatDiffSummary } from '../../services/snapshotDiff.js';
+import { SnapshotRestoreService } from '../../services/snapshotRestore.js';
+import { compileRecordFilter } from '../../services/recordFilter.js';
+import { isValidTimeZone } from '../../services/fieldFormatting.js';
+import {
+  SNAPSHOT_EXPORT_FORMATS,
+  bundleExportFiles,
+  getExportName,
+  renderSnapshotExport,
+} from '../../services/snapshotExport.js';
+import { ARCHIVE_FILE_EXTENSION, readArchive, writeArchive } from '../../services/snapshotArchive.js';
+import { loadViewerAssets } from '../../services/htmlViewer.js';
 import { AuthService, type OAuthTokens } from '../../services/authService.js';
-import type { SnapshotConfig } from '../../types/index.js';
-import type { Request } from 'express';
+import type {
+  LarkRecord,
+  LarkView,
+  SnapshotCheckpoint,
+  SnapshotConfig,
+  SnapshotExportFormat,
+  SnapshotJob,
+  SnapshotJobEvent,
+} from '../../types/index.js';
+import type { Request, Response } from 'express';
 
 const router = Router();
 
 // Check if running in serverless environment
 const IS_SERVERLESS = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME;
 
+// Runs snapshots in the background after the request has returned
+const jobRunner = new SnapshotJobRunner();
+
+/**
+ * Respond with a started job: 202 while it keeps running in the background.
+ * Serverless functions are frozen once the response is sent, so there the job
+ * runs inside the request and the finished job is returned with 200
+ */
+async function sendJob(res: Response, job: SnapshotJob) {
+  if (IS_SERVERLESS) {
+    const finished = await jobRunner.waitForJob(job.id);
+    return res.json({ jobId: job.id, job: finished ?? job });
+  }
+  res.status(202).json({ jobId: job.id, job });
+}
+
 // Cookie name for auth tokens
 const AUTH_COOKIE = 'lark_auth';
 
@@ -41,6 +78,18 @@ const getAuthService = () => {
   return new AuthService({ appId, appSecret }, redirectUri);
 };
 
+// Helper: Check that a job belongs to the signed-in user
+// (jobs or sessions without a user ID belong to nobody)
+function isJobOwner(job: SnapshotJob, tokens: OAuthTokens): boolean {
+  return !!job.ownerId && !!tokens.userId && job.ownerId === tokens.userId;
+}
+
+// Helper: Check that a checkpoint belongs to the signed-in user
+// (checkpoints of CLI and app-credential runs belong to nobody)
+function isCheckpointOwner(checkpoint: SnapshotCheckpoint, tokens: OAuthTokens): boolean {
+  return !!checkpoint.ownerId && !!tokens.userId && checkpoint.ownerId === tokens.userId;
+}
+
 // Helper: Get tokens from request (supports both serverless and development)
 function getTokensFromRequest(req: Request): OAuthTokens | null {
   if (IS_SERVERLESS) {
@@ -59,7 +108,7 @@ function getTokensFromRequest(req: Request): OAuthTokens | null {
 
 /**
  * POST /api/snapshot
- * Create a new snapshot
+ * Start a snapshot job (returns 202 with the job id; serverless: 200 with the finished job)
  */
 router.post('/', async (req, res) => {
   try {
@@ -74,31 +123,78 @@ router.post('/', async (req, res) => {
       return res.status(401).json({ error: 'Token expired' });
     }
 
-    const { sourceBaseUrl, targetBaseName, grantAdminPermission, preserveAttachments, selectedTableIds } = req.body;
+    const {
+      sourceBaseUrl,
+      targetBaseName,
+      grantAdminPermission,
+      preserveAttachments,
+      selectedTableIds,
+      incremental,
+      verify,
+      copyViews,
+      fieldPolicies,
+      recordFilters,
+      viewFieldsOnly,
+      timeZone,
+      targetBaseUrl,
+    } = req.body;
+
+    if (!sourceBaseUrl || (!targetBaseName && !targetBaseUrl)) {
+      return res.status(400).json({
+        error: 'Missing required fields: sourceBaseUrl, targetBaseName or targetBaseUrl',
+      });
+    }
 
-    if (!sourceBaseUrl || !targetBaseName) {
+    // Policies are checked against the source schema when each table is copied
+    const isObject = (value: unknown) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (fieldPolicies !== undefined &&
+        (!isObject(fieldPolicies) || !Object.values(fieldPolicies).every(isObject))) {
       return res.status(400).json({
-        error: 'Missing required fields: sourceBaseUrl, targetBaseName',
+        error: 'fieldPolicies must map table IDs to objects keyed by field ID',
       });
     }
+    if (recordFilters !== undefined &&
+        (!isObject(recordFilters) || !Object.values(recordFilters).every((v) => typeof v === 'string'))) {
+      return res.status(400).json({
+        error: 'recordFilters must map table IDs to filter expressions',
+      });
+    }
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return res.status(400).json({ error: 'timeZone must be a time zone name such as "Asia/Tokyo"' });
+    }
 
     const appId = process.env.LARK_APP_ID!;
     const appSecret = process.env.LARK_APP_SECRET!;
 
     // Pass user access token to access user's Bases
-    const snapshotService = new SnapshotService({ appId, appSecret }, tokens.accessToken);
+    const snapshotService = new SnapshotService({ appId, appSecret }, tokens.accessToken, {
+      ownerId: tokens.userId,
+    });
 
     const config: SnapshotConfig = {
       sourceBaseUrl,
-      targetBaseName,
+      targetBaseName: targetBaseName || '',
+      targetBaseUrl: targetBaseUrl || undefined,
       grantAdminPermission: grantAdminPermission ?? true,
       preserveAttachments: preserveAttachments ?? false,
       selectedTableIds: selectedTableIds || undefined,
+      incremental: incremental ?? false,
+      verify: verify ?? false,
+      copyViews: copyViews ?? true,
+      fieldPolicies: fieldPolicies || undefined,
+      recordFilters: recordFilters || undefined,
+      viewFieldsOnly: viewFieldsOnly ?? false,
+      timeZone: timeZone || undefined,
     };
 
-    const result = await snapshotService.createSnapshot(config);
+    const job = await jobRunner.start(
+      snapshotService,
+      (service) => service.createSnapshot(config),
+      tokens.userId
+    );
 
-    res.json(result);
+    await sendJob(res, job);
   } catch (error) {
     console.error('Snapshot error:', error);
     res.status(500).json({
@@ -108,9 +204,455 @@ router.post('/', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/snapshot/resume
+ * Resume a snapshot that did not finish from its checkpoint (returns 202 with the job id)
+ */
+router.post('/resume', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // Check if token is expired
+    if (Date.now() >= tokens.expiresAt) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+
+    const { checkpointId } = req.body;
+
+    if (!checkpointId) {
+      return res.status(400).json({ error: 'Missing checkpointId' });
+    }
+
+    const appId = process.env.LARK_APP_ID!;
+    const appSecret = process.env.LARK_APP_SECRET!;
+    const snapshotService = new SnapshotService({ appId, appSecret }, tokens.accessToken, {
+      ownerId: tokens.userId,
+    });
+
+    // Checkpoints of other users are reported as missing
+    const checkpoint = await snapshotService.getCheckpoint(checkpointId);
+    if (!checkpoint || !isCheckpointOwner(checkpoint, tokens)) {
+      return res.status(404).json({ error: 'Checkpoint not found' });
+    }
+
+    const job = await jobRunner.start(
+      snapshotService,
+      (service) => service.resumeSnapshot(checkpointId),
+      tokens.userId
+    );
+
+    await sendJob(res, job);
+  } catch (error) {
+    console.error('Resume error:', error);
+    res.status(500).json({
+      error: 'Failed to resume snapshot',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /api/snapshot/jobs/:id
+ * Get the status of a snapshot job
+ */
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const job = await jobRunner.getJob(req.params.id);
+
+    // Jobs of other users are reported as missing
+    if (!job || !isJobOwner(job, tokens)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Job status error:', error);
+    res.status(500).json({
+      error: 'Failed to get job status',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * GET /api/snapshot/jobs/:id/events
+ * Stream the progress of a snapshot job as Server-Sent Events
+ * The stream closes after `job_finished`, or right after `job_status` when the
+ * job is not running in this server process (clients fall back to polling)
+ */
+router.get('/jobs/:id/events', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const jobId = req.params.id;
+    const job = await jobRunner.getJob(jobId);
+
+    if (!job || !isJobOwner(job, tokens)) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+
+    const send = (event: SnapshotJobEvent) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // Subscribe before re-reading the job so no event is missed in between
+    const unsubscribe = jobRunner.subscribe(jobId, (event) => {
+      try {
+        send(event);
+      } catch (error) {
+        console.error('Job events write error:', error);
+      }
+      if (event.type === 'job_finished') {
+        unsubscribe?.();
+        res.end();
+      }
+    });
+    req.on('close', () => unsubscribe?.());
+
+    const current = (await jobRunner.getJob(jobId)) ?? job;
+    send({ type: 'job_status', job: current });
+
+    if (current.state === 'completed' || current.state === 'failed') {
+      unsubscribe?.();
+      send({ type: 'job_finished', job: current });
+      return res.end();
+    }
+
+    if (!unsubscribe) {
+      return res.end();
+    }
+  } catch (error) {
+    console.error('Job events error:', error);
+    // The stream has started once headers are sent: it can only be closed
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({
+      error: 'Failed to stream job events',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/snapshot/export
+ * Download a snapshot as local files (a single file, or a zip of several)
+ */
+router.post('/export', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // Check if token is expired
+    if (Date.now() >= tokens.expiresAt) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+
+    const {
+      sourceBaseUrl,
+      selectedTableIds,
+      format = 'csv',
+      viewFieldsOnly,
+      fieldPolicies,
+      recordFilters,
+    } = req.body;
+
+    if (!sourceBaseUrl) {
+      return res.status(400).json({ error: 'Missing sourceBaseUrl' });
+    }
+    if (!SNAPSHOT_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported format: ${format}` });
+    }
+
+    // Policies and filters are checked against the source schema when each table is read
+    const isObject = (value: unknown) =>
+      typeof value === 'object' && value !== null && !Array.isArray(value);
+    if (fieldPolicies !== undefined &&
+        (!isObject(fieldPolicies) || !Object.values(fieldPolicies).every(isObject))) {
+      return res.status(400).json({
+        error: 'fieldPolicies must map table IDs to objects keyed by field ID',
+      });
+    }
+    if (recordFilters !== undefined &&
+        (!isObject(recordFilters) || !Object.values(recordFilters).every((v) => typeof v === 'string'))) {
+      return res.status(400).json({
+        error: 'recordFilters must map table IDs to filter expressions',
+      });
+    }
+
+    // The viewer bundle is built separately, so check for it before reading the Base
+    if (format === 'html') {
+      try {
+        await loadViewerAssets();
+      } catch (error) {
+        return res.status(501).json({
+          error: 'HTML export is not available on this server',
+          message: (error as Error).message,
+        });
+      }
+    }
+
+    const appId = process.env.LARK_APP_ID!;
+    const appSecret = process.env.LARK_APP_SECRET!;
+
+    const snapshotService = new SnapshotService({ appId, appSecret }, tokens.accessToken);
+    const snapshot = await snapshotService.captureSnapshot({
+      sourceBaseUrl,
+      selectedTableIds: selectedTableIds || undefined,
+      viewFieldsOnly: viewFieldsOnly ?? false,
+      fieldPolicies: fieldPolicies || undefined,
+      recordFilters: recordFilters || undefined,
+    });
+
+    if (snapshot.tables.length === 0) {
+      return res.status(500).json({
+        error: 'Failed to export snapshot',
+        errors: snapshot.errors,
+      });
+    }
+
+    const file = bundleExportFiles(
+      await renderSnapshotExport(snapshot, format as SnapshotExportFormat),
+      getExportName(snapshot.sourceBase.name, snapshot.createdAt)
+    );
+
+    res.attachment(file.name);
+    res.type(file.contentType);
+    res.setHeader('X-Snapshot-Error-Count', String(snapshot.errors.length));
+    res.send(file.data);
+  } catch (error) {
+    console.error('Export error:', error);
+    res.status(500).json({
+      error: 'Failed to export snapshot',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/snapshot/archive
+ * Download a lossless archive (.jsonl.gz) of the source Base
+ */
+router.post('/archive', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // Check if token is expired
+    if (Date.now() >= tokens.expiresAt) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+
+    const { sourceBaseUrl, selectedTableIds } = req.body;
+
+    if (!sourceBaseUrl) {
+      return res.status(400).json({ error: 'Missing sourceBaseUrl' });
+    }
+
+    const appId = process.env.LARK_APP_ID!;
+    const appSecret = process.env.LARK_APP_SECRET!;
+
+    const snapshotService = new SnapshotService({ appId, appSecret }, tokens.accessToken);
+    const { archive, errors } = await snapshotService.captureArchive({
+      sourceBaseUrl,
+      selectedTableIds: selectedTableIds || undefined,
+    });
+
+    if (archive.tables.length === 0) {
+      return res.status(500).json({ error: 'Failed to archive snapshot', errors });
+    }
+
+    res.attachment(
+      `${getExportName(archive.manifest.baseName, archive.manifest.capturedAt)}${ARCHIVE_FILE_EXTENSION}`
+    );
+    res.type('application/gzip');
+    res.setHeader('X-Snapshot-Error-Count', String(errors.length));
+    res.send(writeArchive(archive));
+  } catch (error) {
+    console.error('Archive error:', error);
+    res.status(500).json({
+      error: 'Failed to archive snapshot',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/snapshot/rehydrate?targetBaseName=...&rebuildLinks=false
+ * Create a new Base from an uploaded archive (request body: the .jsonl.gz file)
+ * Runs as a background job (returns 202 with the job id)
+ */
+router.post(
+  '/rehydrate',
+  express.raw({ type: ['application/gzip', 'application/octet-stream'], limit: '100mb' }),
+  async (req, res) => {
+    try {
+      const tokens = getTokensFromRequest(req);
+
+      if (!tokens) {
+        return res.status(401).json({ error: 'Not authenticated' });
+      }
+
+      // Check if token is expired
+      if (Date.now() >= tokens.expiresAt) {
+        return res.status(401).json({ error: 'Token expired' });
+      }
+
+      const targetBaseName = typeof req.query.targetBaseName === 'string' ? req.query.targetBaseName : '';
+
+      if (!targetBaseName || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({
+          error: 'Missing targetBaseName or archive file (send it as application/gzip)',
+        });
+      }
+
+      let archive;
+      try {
+        archive = readArchive(req.body);
+      } catch (error) {
+        return res.status(400).json({ error: (error as Error).message });
+      }
+
+      const appId = process.env.LARK_APP_ID!;
+      const appSecret = process.env.LARK_APP_SECRET!;
+
+      const snapshotService = new SnapshotService({ appId, appSecret }, tokens.accessToken);
+      const job = await jobRunner.start(
+        snapshotService,
+        (service) => service.rehydrateArchive(archive, {
+          targetBaseName,
+          rebuildLinks: req.query.rebuildLinks !== 'false',
+          grantAdminPermission: true,
+        }),
+        tokens.userId
+      );
+
+      await sendJob(res, job);
+    } catch (error) {
+      console.error('Rehydrate error:', error);
+      res.status(500).json({
+        error: 'Failed to rehydrate archive',
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/snapshot/diff
+ * Compare two snapshots, or a snapshot and the live source
+ */
+router.post('/diff', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // Check if token is expired
+    if (Date.now() >= tokens.expiresAt) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+
+    const { beforeUrl, afterUrl } = req.body;
+
+    if (!beforeUrl || !afterUrl) {
+      return res.status(400).json({ error: 'Missing required fields: beforeUrl, afterUrl' });
+    }
+
+    const appId = process.env.LARK_APP_ID!;
+    const appSecret = process.env.LARK_APP_SECRET!;
+
+    const diffService = new SnapshotDiffService({ appId, appSecret }, tokens.accessToken);
+    const diff = await diffService.diff(beforeUrl, afterUrl);
+
+    res.json({ diff, summary: formatDiffSummary(diff) });
+  } catch (error) {
+    console.error('Diff error:', error);
+    res.status(500).json({
+      error: 'Failed to diff snapshots',
+      message: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/snapshot/restore
+ * Write snapshot values back to the source table (dry run unless dryRun is false)
+ */
+router.post('/restore', async (req, res) => {
+  try {
+    const tokens = getTokensFromRequest(req);
+
+    if (!tokens) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // Check if token is expired
+    if (Date.now() >= tokens.expiresAt) {
+      return res.status(401).json({ error: 'Token expired' });
+    }
+
+    const { snapshotUrl, sourceUrl, fields, dryRun } = req.body;
+
+    if (!snapshotUrl || !sourceUrl) {
+      return res.status(400).json({ error: 'Missing required fields: snapshotUrl, sourceUrl' });
+    }
+
+    const appId = process.env.LARK_APP_ID!;
+    const appSecret = process.env.LARK_APP_SECRET!;
+
+    const restoreService = new SnapshotRestoreService({ appId, appSecret }, tokens.accessToken);
+    const result = await restoreService.restore({
+      snapshotUrl,
+      sourceUrl,
+      fields: Array.isArray(fields) ? fields : undefined,
+      dryRun: dryRun !== false,
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Restore error:', error);
+    res.status(500).json({
+      error: 'Failed to restore snapshot',
+      message: (error as Error).message,
+    });
+  }
+});
+
 /**
  * POST /api/snapshot/preview
  * Preview snapshot (get source base info without creating)
+ * recordFilters (table ID -> expression) adds the matched record count of each filtered table
+ * A URL with ?table=...&view=... adds the view (records and visible fields) of that table
  */
 router.post('/preview', async (req, res) => {
   try {
@@ -125,12 +667,15 @@ router.post('/preview', async (req, res) => {
       return res.status(401).json({ error: 'Token expired' });
     }
 
-    const { sourceBaseUrl } = req.body;
+    const { sourceBaseUrl, recordFilters } = req.body;
 
     if (!sourceBaseUrl) {
       return res.status(400).json({ error: 'Missing sourceBaseUrl' });
     }
 
+    const filters: Record<string, string> =
+      typeof recordFilters === 'object' && recordFilters !== null ? recordFilters : {};
+
     const appId = process.env.LARK_APP_ID!;
     const appSecret = process.env.LARK_APP_SECRET!;
 
@@ -141,7 +686,8 @@ router.post('/preview', async (req, res) => {
     // Resolve URL to get app_token (handles Wiki URLs)
     const appToken = await client.resolveBaseAppToken(sourceBaseUrl);
     const tableIdFromUrl = client.parseTableIdFromUrl(sourceBaseUrl);
-    console.log('Resolved app_token:', appToken, 'tableIdFromUrl:', tableIdFromUrl);
+    const viewIdFromUrl = client.parseViewIdFromUrl(sourceBaseUrl);
+    console.log('Resolved app_token:', appToken, 'tableIdFromUrl:', tableIdFromUrl, 'viewIdFromUrl:', viewIdFromUrl);
 
     let base;
     try {
@@ -152,6 +698,9 @@ router.post('/preview', async (req, res) => {
       throw error;
     }
 
+    // Filter dates are read in the time zone of the Base, as in a snapshot run
+    const baseTimeZone = base.time_zone && isValidTimeZone(base.time_zone) ? base.time_zone : undefined;
+
     // Try listTables, fallback to specific table if Advanced Permissions block it
     let tables;
     try {
@@ -178,11 +727,66 @@ router.post('/preview', async (req, res) => {
         const dynamicFields = fields.filter((f) =>
           ['SingleLink', 'DuplexLink', 'Lookup', 'Formula', 'User'].includes(f.ui_type)
         );
+
+        // Records are only read for tables limited by a view or a filter
+        let records: LarkRecord[] | undefined;
+        const readRecords = async (viewId?: string) =>
+          (records ??= await client.listRecordsWithFallback(appToken, table.table_id, { viewId }));
+
+        // A URL with ?view= limits its table to the records of that view, in view order
+        let view;
+        let sourceView: LarkView | null = null;
+        try {
+          sourceView = await client.resolveUrlView(appToken, table.table_id, sourceBaseUrl);
+        } catch (error) {
+          view = { viewId: viewIdFromUrl, error: (error as Error).message };
+        }
+        if (sourceView) {
+          const hidden = new Set(sourceView.property?.hidden_fields ?? []);
+          view = {
+            viewId: sourceView.view_id,
+            viewName: sourceView.view_name,
+            viewType: sourceView.view_type,
+            recordCount: (await readRecords(sourceView.view_id)).length,
+            // Fields kept with viewFieldsOnly (the primary field is always kept)
+            visibleFieldIds: fields.filter((f) => f.is_primary || !hidden.has(f.field_id)).map((f) => f.field_id),
+          };
+        }
+
+        // Count the records a filter would copy
+        let recordFilter;
+        const expression = filters[table.table_id];
+        if (typeof expression === 'string' && expression.trim() !== '') {
+          let matches;
+          try {
+            matches = compileRecordFilter(expression, fields, baseTimeZone);
+          } catch (error) {
+            recordFilter = { expression, error: (error as Error).message };
+          }
+          if (matches) {
+            const records = await readRecords(sourceView?.view_id);
+            recordFilter = {
+              expression,
+              recordCount: records.length,
+              matchedCount: records.filter(matches).length,
+            };
+          }
+        }
+
         return {
           name: table.name,
           tableId: table.table_id,
           fieldCount: fields.length,
           dynamicFieldCount: dynamicFields.length,
+          // Listed so per-field policies can be chosen in the form
+          fields: fields.map((f) => ({
+            fieldId: f.field_id,
+            name: f.field_name,
+            uiType: f.ui_type,
+            isPrimary: f.is_primary ?? false,
+          })),
+          view,
+          recordFilter,
         };
       })
     );
@@ -194,6 +798,8 @@ router.post('/preview', async (req, res) => {
         appToken: base.app_token,
       },
       tables: tableInfo,
+      // The table and view the snapshot is limited to, when the URL points at a view
+      view: viewIdFromUrl ? { tableId: tableIdFromUrl, viewId: viewIdFromUrl } : null,
       totalTables: tables.length,
       totalDynamicFields: tableInfo.reduce((sum, t) => sum + t.dynamicFieldCount, 0),
     });
@@ -0,0 +1,40 @@
+/**
+ * Cell Text
+ *
+ * @description Normalizes cell values to plain text, shared by the diff,
+ * restore and verification of snapshots and by the file exporters
+ */
+
+import { unwrapComputedValue } from './fieldTypeInference.js';
+
+/**
+ * Normalize a cell value to text so live and frozen values compare equal
+ * Empty values (including unchecked checkboxes, which Lark omits) become null
+ */
+export function toComparableText(value: unknown): string | null {
+  if (value === null || value === undefined || value === '' || value === false) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  // Rich text is a list of segments that make up a single string
+  if (Array.isArray(value) && value.length > 0 && value.every(isTextSegment)) {
+    return value.map((segment) => segment.text).join('');
+  }
+
+  const parts = unwrapComputedValue(value).map(String).filter((s) => s !== '');
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function isTextSegment(value: unknown): value is { type: string; text: string } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as Record<string, unknown>).text === 'string' &&
+    typeof (value as Record<string, unknown>).type === 'string';
+}
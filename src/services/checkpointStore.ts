@@ -0,0 +1,119 @@
+/**
+ * Snapshot Checkpoint Store
+ *
+ * @description Persists the progress of snapshot runs so a run that failed
+ * partway through can be resumed into the same target Base
+ */
+
+import type { SnapshotCheckpoint } from '../types/index.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+// Check if running in serverless environment (Vercel)
+const IS_SERVERLESS = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+// Default checkpoint file location (next to .sessions.json)
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_CHECKPOINT_FILE = join(__dirname, '../../.snapshot-checkpoints.json');
+
+/** Checkpoints that have not been updated for a week are dropped */
+const DEFAULT_CHECKPOINT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Storage for snapshot checkpoints */
+export interface CheckpointStore {
+  get(id: string): Promise<SnapshotCheckpoint | null>;
+  save(checkpoint: SnapshotCheckpoint): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/** Options of the checkpoint stores */
+export interface CheckpointStoreOptions {
+  /** How long a checkpoint is kept after its last update (default: 7 days) */
+  checkpointTtlMs?: number;
+}
+
+/**
+ * Remove checkpoints last updated longer than ttlMs ago
+ */
+function evictStaleCheckpoints(checkpoints: Map<string, SnapshotCheckpoint>, ttlMs: number): void {
+  const cutoff = Date.now() - ttlMs;
+  for (const [id, checkpoint] of checkpoints) {
+    if (Date.parse(checkpoint.updatedAt) < cutoff) {
+      checkpoints.delete(id);
+    }
+  }
+}
+
+/**
+ * In-memory checkpoint store (checkpoints are lost when the process exits)
+ */
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, SnapshotCheckpoint>();
+  private checkpointTtlMs: number;
+
+  constructor(options: CheckpointStoreOptions = {}) {
+    this.checkpointTtlMs = options.checkpointTtlMs ?? DEFAULT_CHECKPOINT_TTL_MS;
+  }
+
+  async get(id: string): Promise<SnapshotCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(id);
+    return checkpoint ? structuredClone(checkpoint) : null;
+  }
+
+  async save(checkpoint: SnapshotCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.id, structuredClone(checkpoint));
+    evictStaleCheckpoints(this.checkpoints, this.checkpointTtlMs);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.checkpoints.delete(id);
+  }
+}
+
+/**
+ * File-backed checkpoint store (all checkpoints are kept in a single JSON file)
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private checkpointTtlMs: number;
+
+  constructor(private filePath: string = DEFAULT_CHECKPOINT_FILE, options: CheckpointStoreOptions = {}) {
+    this.checkpointTtlMs = options.checkpointTtlMs ?? DEFAULT_CHECKPOINT_TTL_MS;
+  }
+
+  private load(): Record<string, SnapshotCheckpoint> {
+    try {
+      if (existsSync(this.filePath)) {
+        return JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.error('Failed to read snapshot checkpoints:', (error as Error).message);
+    }
+    return {};
+  }
+
+  async get(id: string): Promise<SnapshotCheckpoint | null> {
+    return this.load()[id] ?? null;
+  }
+
+  async save(checkpoint: SnapshotCheckpoint): Promise<void> {
+    const checkpoints = new Map(Object.entries(this.load()));
+    checkpoints.set(checkpoint.id, checkpoint);
+    evictStaleCheckpoints(checkpoints, this.checkpointTtlMs);
+    writeFileSync(this.filePath, JSON.stringify(Object.fromEntries(checkpoints), null, 2));
+  }
+
+  async delete(id: string): Promise<void> {
+    const checkpoints = this.load();
+    delete checkpoints[id];
+    writeFileSync(this.filePath, JSON.stringify(checkpoints, null, 2));
+  }
+}
+
+/**
+ * Create the default checkpoint store for the current environment
+ * (file-backed in development, in-memory in serverless)
+ */
+export function createDefaultCheckpointStore(): CheckpointStore {
+  return IS_SERVERLESS ? new InMemoryCheckpointStore() : new FileCheckpointStore();
+}
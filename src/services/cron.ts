@@ -0,0 +1,163 @@
+/**
+ * Cron Expressions
+ *
+ * @description Parses 5-field cron expressions (minute hour day-of-month
+ * month day-of-week) and computes their next run time in server local time
+ */
+
+/** Parsed cron expression */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  daysOfWeek: Set<number>;
+  /** Both day fields are restricted, so a day matches if either matches */
+  matchEitherDay: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** Give up searching for a next run time after this many years */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Parse a single cron field (`*`, `5`, `1-5`, `*\/15`, `1,15`, `10-20/5`)
+ */
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`invalid ${name} "${part}"`);
+    }
+
+    const [, startText, endText, stepText] = match;
+    const start = startText === '*' ? min : parseInt(startText, 10);
+    // `5/10` runs from 5 to the end of the range
+    const end = endText !== undefined
+      ? parseInt(endText, 10)
+      : startText === '*' || stepText !== undefined ? max : start;
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`${name} "${part}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCron(expression: string): CronExpression {
+  const normalized = ALIASES[expression.trim()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, idx) =>
+      parseField(field, FIELDS[idx].min, FIELDS[idx].max, FIELDS[idx].name)
+    );
+
+    // 7 is an alias for Sunday
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      matchEitherDay: fields[2] !== '*' && fields[4] !== '*',
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+  return cron.matchEitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time after `after` (exclusive, minute precision) the expression matches
+ */
+export function getNextRunTime(expression: string | CronExpression, after: Date): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const next = new Date(after.getTime());
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match
+  while (next <= limit) {
+    if (!cron.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+      continue;
+    }
+    return next;
+  }
+
+  throw new Error('Cron expression never matches');
+}
@@ -0,0 +1,99 @@
+/**
+ * CSV Exporter
+ *
+ * @description Writes frozen snapshot tables as RFC 4180 CSV files
+ * (UTF-8 with BOM so Excel opens Japanese text correctly)
+ */
+
+import { toComparableText } from './cellText.js';
+import { formatDate } from './fieldFormatting.js';
+import type { FrozenField, FrozenSnapshot, FrozenTable, SnapshotExportFile } from '../types/index.js';
+
+/** Byte order mark Excel uses to detect UTF-8 */
+const UTF8_BOM = '\uFEFF';
+
+/** Field types holding millisecond timestamps */
+const DATE_FIELD_TYPES = ['DateTime', 'CreatedTime', 'ModifiedTime'];
+
+/** Date format of timestamps in exported files */
+const TIMESTAMP_FORMATTER = 'yyyy-MM-dd HH:mm:ss';
+
+/**
+ * Format a timestamp as `YYYY-MM-DD HH:mm:ss` in a time zone
+ * (the Base's, or the server's local time zone when none is given)
+ */
+export function formatTimestamp(ms: number, timeZone?: string): string {
+  return formatDate(ms, TIMESTAMP_FORMATTER, timeZone);
+}
+
+/**
+ * Format a frozen cell value as display text
+ */
+export function formatCellText(field: FrozenField, value: unknown, timeZone?: string): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (DATE_FIELD_TYPES.includes(field.ui_type) && typeof value === 'number') {
+    return formatTimestamp(value, timeZone);
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return toComparableText(value) ?? '';
+}
+
+/**
+ * Quote a CSV cell when it contains a comma, quote or line break
+ */
+export function escapeCsvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a frozen table as CSV (header row + one row per record, CRLF line endings)
+ */
+export function toCsv(table: FrozenTable, bom = true, timeZone?: string): string {
+  const rows = [
+    table.fields.map((f) => escapeCsvCell(f.field_name)),
+    ...table.records.map((record) =>
+      table.fields.map((f) => escapeCsvCell(formatCellText(f, record.fields[f.field_name], timeZone)))
+    ),
+  ];
+  return (bom ? UTF8_BOM : '') + rows.map((row) => row.join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Replace characters that are not allowed in file names
+ */
+export function toFileName(name: string): string {
+  return name.replace(/[\\/:*?"<>|\r\n\t]/g, '_').trim() || 'table';
+}
+
+/**
+ * Make file names valid and unique, e.g. "A/B" and "A_B" become "A_B" and "A_B (2)"
+ * (compared case-insensitively, as on Windows and macOS file systems)
+ */
+export function toFileNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base = toFileName(name);
+    let fileName = base;
+    for (let i = 2; used.has(fileName.toLowerCase()); i++) {
+      fileName = `${base} (${i})`;
+    }
+    used.add(fileName.toLowerCase());
+    return fileName;
+  });
+}
+
+/**
+ * Render one CSV file per table
+ */
+export function renderCsvFiles(snapshot: FrozenSnapshot): SnapshotExportFile[] {
+  const fileNames = toFileNames(snapshot.tables.map((t) => t.tableName));
+  return snapshot.tables.map((table, idx) => ({
+    name: `${fileNames[idx]}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    data: Buffer.from(toCsv(table, true, snapshot.timeZone), 'utf-8'),
+  }));
+}
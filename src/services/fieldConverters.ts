@@ -0,0 +1,451 @@
+/**
+ * Field Converters
+ *
+ * @description Built-in converters that freeze each kind of source field,
+ * and the registry that picks the converter for a field. Embedding code can
+ * replace the converter of a ui_type or type number with its own
+ */
+
+import {
+  getFieldFormat,
+  formatValueAsText,
+  toNumberFieldProperty,
+  toNumberFieldType,
+  toDateFieldProperty,
+} from './fieldFormatting.js';
+import {
+  LARK_FIELD_TYPES,
+  getFieldTypeMapping,
+  getLocationFieldNames,
+  parseLocationValue,
+  resolveUiType,
+  toEmailAddress,
+  type FieldConversion,
+} from './fieldTypeMapping.js';
+import { toStaticValue } from './fieldTypeInference.js';
+import type {
+  LarkField,
+  LarkCellValue,
+  LarkFieldProperty,
+  LarkFieldType,
+  LarkUserValue,
+  LarkLinkValue,
+  LarkAttachmentValue,
+  FieldConverter,
+  FieldConverterOverride,
+} from '../types/index.js';
+
+/**
+ * Extract text from complex Lark value objects
+ */
+export function extractTextFromValue(val: unknown): string {
+  if (val === null || val === undefined) {
+    return '';
+  }
+
+  if (typeof val === 'string') {
+    return val;
+  }
+
+  if (typeof val === 'number' || typeof val === 'boolean') {
+    return String(val);
+  }
+
+  if (typeof val === 'object') {
+    const obj = val as Record<string, unknown>;
+
+    // Try common property names for text values
+    if ('text' in obj && typeof obj.text === 'string') {
+      return obj.text;
+    }
+    if ('value' in obj) {
+      return extractTextFromValue(obj.value);
+    }
+    if ('name' in obj && typeof obj.name === 'string') {
+      return obj.name;
+    }
+    if ('en_name' in obj && typeof obj.en_name === 'string') {
+      return obj.en_name;
+    }
+
+    // If it's an array, recursively extract
+    if (Array.isArray(obj)) {
+      return obj.map((item) => extractTextFromValue(item)).join(', ');
+    }
+
+    // Last resort: JSON stringify
+    return JSON.stringify(val);
+  }
+
+  return String(val);
+}
+
+/**
+ * Sanitize number field values to ensure they are valid numbers
+ */
+export function sanitizeNumberValue(value: LarkCellValue): number | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (typeof value === 'number') {
+    return isNaN(value) ? null : value;
+  }
+  if (typeof value === 'string') {
+    const num = parseFloat(value);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+/**
+ * Convert user field value to text
+ */
+export function convertUserValue(value: LarkCellValue): string {
+  if (Array.isArray(value)) {
+    return (value as LarkUserValue[])
+      .map((u) => u.name || u.en_name || u.id)
+      .join(', ');
+  }
+
+  const user = value as LarkUserValue;
+  return user.name || user.en_name || user.id || '';
+}
+
+/**
+ * Convert link (relation) field value to text
+ */
+export function convertLinkValue(value: LarkCellValue): string {
+  if (!Array.isArray(value)) {
+    return '';
+  }
+
+  return (value as LarkLinkValue[])
+    .map((link) => link.text || link.record_id)
+    .join(', ');
+}
+
+/**
+ * Convert attachment field value to file names
+ */
+export function convertAttachmentValue(value: LarkCellValue): string {
+  if (!Array.isArray(value)) {
+    return '';
+  }
+
+  return (value as LarkAttachmentValue[])
+    .map((att) => att.name || att.file_token || '')
+    .filter((name) => name !== '')
+    .join(', ');
+}
+
+/**
+ * Convert lookup field value to text
+ */
+export function convertLookupValue(value: LarkCellValue): string {
+  // Lookup values can be arrays of various types
+  if (Array.isArray(value)) {
+    return value
+      .map((v) => extractTextFromValue(v))
+      .filter((s) => s !== '')
+      .join(', ');
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return extractTextFromValue(value);
+  }
+
+  return String(value);
+}
+
+/**
+ * Convert formula field value
+ */
+export function convertFormulaValue(value: LarkCellValue): string | number {
+  // Formula can return string, number, or complex types
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((v) => extractTextFromValue(v)).join(', ');
+  }
+
+  // Handle object values (Lark returns formula results as objects)
+  if (typeof value === 'object' && value !== null) {
+    return extractTextFromValue(value);
+  }
+
+  return String(value);
+}
+
+/**
+ * Convert a dynamic field value to static text
+ */
+export function convertDynamicValue(
+  value: LarkCellValue,
+  uiType: LarkFieldType
+): string | number {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  switch (uiType) {
+    case 'User':
+    case 'CreatedUser':
+    case 'ModifiedUser':
+      return convertUserValue(value);
+
+    case 'SingleLink':
+    case 'DuplexLink':
+      return convertLinkValue(value);
+
+    case 'Lookup':
+      return convertLookupValue(value);
+
+    case 'Formula':
+      return convertFormulaValue(value);
+
+    case 'Attachment':
+      return convertAttachmentValue(value);
+
+    default:
+      return extractTextFromValue(value);
+  }
+}
+
+/**
+ * Sanitize field property (remove link-related properties)
+ */
+export function sanitizeProperty(
+  property: LarkField['property'],
+  uiType: LarkFieldType
+): LarkField['property'] {
+  if (!property) return undefined;
+
+  // Remove link-related properties
+  const sanitized = { ...property };
+  delete sanitized.table_id;
+  delete sanitized.link_table_id;
+  delete sanitized.back_field_id;
+  delete sanitized.formula_expression;
+
+  // Keep select options for select fields, but strip IDs (new Base will generate new IDs)
+  if (uiType === 'SingleSelect' || uiType === 'MultiSelect') {
+    if (sanitized.options && Array.isArray(sanitized.options)) {
+      // Remove 'id' from each option - Lark API will generate new IDs
+      const cleanOptions = sanitized.options
+        .filter((opt: { name?: string }) => opt.name) // Only keep options with names
+        .map((opt: { name: string; color?: number; id?: string }) => ({
+          name: opt.name,
+          color: opt.color,
+        }));
+      return { options: cleanOptions };
+    }
+    return { options: [] };
+  }
+
+  return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+}
+
+/**
+ * Text field definition with the name of the source field
+ */
+function toTextField(field: LarkField): Partial<LarkField> {
+  return { field_name: field.field_name, type: LARK_FIELD_TYPES.Text, ui_type: 'Text' };
+}
+
+/**
+ * Convert a value to display text, keeping the number / date formatting of the field
+ */
+function toFrozenText(value: LarkCellValue, field: LarkField, timeZone?: string): string {
+  // Number and date results frozen to Text keep their source formatting
+  const format = getFieldFormat(field);
+  if (format) {
+    return formatValueAsText(value, format, timeZone);
+  }
+
+  // Converted fields become Text fields, so ensure value is string
+  const convertedValue = convertDynamicValue(value, field.ui_type);
+  return typeof convertedValue === 'number' ? String(convertedValue) : convertedValue;
+}
+
+/** Copies the field and its values as they are */
+const keepConverter: FieldConverter = {
+  toFieldDefinitions: (field) => [{
+    field_name: field.field_name,
+    type: field.type,
+    ui_type: field.ui_type,
+    property: sanitizeProperty(field.property, field.ui_type),
+  }],
+  convertValue: (value, field) => ({
+    // Handle Number fields specially to avoid conversion errors
+    [field.field_name]: field.ui_type === 'Number' ? sanitizeNumberValue(value) : value,
+  }),
+};
+
+/** Freezes the display text of users, links, attachment names and other values */
+const textConverter: FieldConverter = {
+  toFieldDefinitions: (field) => [toTextField(field)],
+  convertValue: (value, field, context) => ({ [field.field_name]: toFrozenText(value, field, context.timeZone) }),
+};
+
+/**
+ * Property of a Currency / Progress / Rating field: display format, currency code,
+ * value range and rating symbol
+ */
+function toNumericFieldProperty(field: LarkField): LarkFieldProperty | undefined {
+  const source = field.property ?? {};
+  const property: LarkFieldProperty = {
+    ...toNumberFieldProperty(getFieldFormat(field)),
+    ...(source.min !== undefined ? { min: source.min } : {}),
+    ...(source.max !== undefined ? { max: source.max } : {}),
+    ...(source.range_customize !== undefined ? { range_customize: source.range_customize } : {}),
+    ...(source.rating ? { rating: { symbol: source.rating.symbol } } : {}),
+  };
+  return Object.keys(property).length > 0 ? property : undefined;
+}
+
+/** Currency / Progress / Rating to a field of the same type holding the numeric value */
+const numberConverter: FieldConverter = {
+  toFieldDefinitions: (field) => {
+    const uiType = resolveUiType(field) ?? 'Number';
+    const property = toNumericFieldProperty(field);
+    return [{
+      field_name: field.field_name,
+      type: LARK_FIELD_TYPES[uiType],
+      ui_type: uiType,
+      ...(property ? { property } : {}),
+    }];
+  },
+  convertValue: (value, field) => ({ [field.field_name]: sanitizeNumberValue(value) }),
+};
+
+/** Created / modified times to a DateTime field holding the captured timestamp */
+const dateTimeConverter: FieldConverter = {
+  toFieldDefinitions: (field) => {
+    const property = toDateFieldProperty(getFieldFormat(field));
+    return [{
+      field_name: field.field_name,
+      type: LARK_FIELD_TYPES.DateTime,
+      ui_type: 'DateTime',
+      ...(property ? { property } : {}),
+    }];
+  },
+  convertValue: (value, field, context) => {
+    // Tables created before these became DateTime fields hold formatted text
+    if (context.existingFieldType !== undefined && context.existingFieldType !== LARK_FIELD_TYPES.DateTime) {
+      return { [field.field_name]: formatValueAsText(value, getFieldFormat(field)!, context.timeZone) };
+    }
+    return { [field.field_name]: sanitizeNumberValue(value) };
+  },
+};
+
+/** Email to a Text field holding the address */
+const emailConverter: FieldConverter = {
+  toFieldDefinitions: (field) => [toTextField(field)],
+  convertValue: (value, field) => ({ [field.field_name]: toEmailAddress(value) }),
+};
+
+/** Location to the address plus latitude / longitude Number fields */
+const locationConverter: FieldConverter = {
+  toFieldDefinitions: (field) => {
+    const { latitude, longitude } = getLocationFieldNames(field.field_name);
+    const coordinate = (name: string): Partial<LarkField> => ({
+      field_name: name,
+      type: LARK_FIELD_TYPES.Number,
+      ui_type: 'Number',
+      property: { formatter: '0.000000' },
+    });
+    return [toTextField(field), coordinate(latitude), coordinate(longitude)];
+  },
+  convertValue: (value, field) => {
+    const { address, latitude, longitude } = parseLocationValue(value);
+    const names = getLocationFieldNames(field.field_name);
+    return {
+      [field.field_name]: address,
+      [names.latitude]: latitude,
+      [names.longitude]: longitude,
+    };
+  },
+};
+
+/** Formula / Lookup results in their inferred type, or frozen text */
+const computedConverter: FieldConverter = {
+  toFieldDefinitions: (field, context) => {
+    // Formula / Lookup results keep their native type when it can be inferred
+    const computedType = context.computedType;
+    if (!computedType || computedType === 'Text') {
+      return [toTextField(field)];
+    }
+    const format = getFieldFormat(field);
+    const uiType = computedType === 'Number' ? toNumberFieldType(format) : computedType;
+    const property = computedType === 'Number'
+      ? toNumberFieldProperty(format)
+      : computedType === 'DateTime' ? toDateFieldProperty(format) : undefined;
+    return [{
+      field_name: field.field_name,
+      type: LARK_FIELD_TYPES[uiType],
+      ui_type: uiType,
+      ...(property ? { property } : {}),
+    }];
+  },
+  convertValue: (value, field, context) => {
+    // Typed Formula / Lookup results are written in their native type
+    if (context.computedType && context.computedType !== 'Text') {
+      return { [field.field_name]: toStaticValue(value, context.computedType) };
+    }
+    return { [field.field_name]: toFrozenText(value, field, context.timeZone) };
+  },
+};
+
+/** Built-in converter of each conversion in the field type mapping */
+export const BUILT_IN_FIELD_CONVERTERS: Record<FieldConversion, FieldConverter> = {
+  keep: keepConverter,
+  text: textConverter,
+  number: numberConverter,
+  dateTime: dateTimeConverter,
+  email: emailConverter,
+  location: locationConverter,
+  computed: computedConverter,
+};
+
+/**
+ * Picks the converter of a field: a converter registered for its ui_type,
+ * then one registered for its type number, then the built-in converter
+ */
+export class FieldConverterRegistry {
+  private byUiType = new Map<string, FieldConverter>();
+  private byType = new Map<number, FieldConverter>();
+
+  constructor(overrides: FieldConverterOverride[] = []) {
+    overrides.forEach((override) => this.register(override));
+  }
+
+  /**
+   * Register a converter (a later registration for the same key replaces the earlier one)
+   */
+  register(override: FieldConverterOverride): void {
+    if (override.uiType === undefined && override.type === undefined) {
+      throw new Error('A field converter needs a uiType or a type');
+    }
+    if (override.uiType !== undefined) {
+      this.byUiType.set(override.uiType, override.converter);
+    }
+    if (override.type !== undefined) {
+      this.byType.set(override.type, override.converter);
+    }
+  }
+
+  /**
+   * Get the converter for a source field
+   */
+  get(field: Pick<LarkField, 'type' | 'ui_type'>): FieldConverter {
+    return this.byUiType.get(field.ui_type) ??
+      this.byType.get(field.type) ??
+      BUILT_IN_FIELD_CONVERTERS[getFieldTypeMapping(field).conversion];
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Field Formatting
+ *
+ * @description Reads the display formatting of Number, Progress, Currency and
+ * DateTime fields and applies it to values that are frozen to text, so a
+ * downgraded field shows "¥1,200" instead of "1200"
+ */
+
+import { isComputedField, unwrapComputedValue } from './fieldTypeInference.js';
+import type { LarkField, LarkFieldProperty, LarkFieldType } from '../types/index.js';
+
+/** Display formatting of a number, currency or date field */
+export type FieldFormat =
+  | { kind: 'number'; formatter?: string }
+  | { kind: 'currency'; currencyCode?: string; formatter?: string }
+  | { kind: 'date'; dateFormatter: string };
+
+/** Date format Lark uses when a DateTime field has no date_formatter */
+export const DEFAULT_DATE_FORMATTER = 'yyyy/MM/dd';
+
+/** Date format for created / modified time fields, which are full timestamps */
+const DEFAULT_TIMESTAMP_FORMATTER = 'yyyy/MM/dd HH:mm';
+
+/** Currency symbols by ISO 4217 code (other codes are shown as the code itself) */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  CNY: '¥',
+  JPY: '¥',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  HKD: 'HK$',
+  KRW: '₩',
+};
+
+/**
+ * Get the field type and property that decide how values are displayed
+ * Formula / Lookup fields are displayed like the field type of their result
+ */
+function getDisplayType(field: LarkField): { uiType?: LarkFieldType; property?: LarkFieldProperty } {
+  if (isComputedField(field)) {
+    const resultType = field.property?.type;
+    if (resultType?.ui_type) {
+      return { uiType: resultType.ui_type, property: resultType.ui_property };
+    }
+    // Date formulas carry a date formatter but no result type
+    if (field.property?.date_formatter) {
+      return { uiType: 'DateTime', property: field.property };
+    }
+    return {};
+  }
+  return { uiType: field.ui_type, property: field.property };
+}
+
+/**
+ * Get the display formatting of a field
+ * Returns null for fields whose values are not numbers or dates
+ */
+export function getFieldFormat(field: LarkField): FieldFormat | null {
+  const { uiType, property } = getDisplayType(field);
+
+  switch (uiType) {
+    case 'Currency':
+      return { kind: 'currency', currencyCode: property?.currency_code, formatter: property?.formatter };
+
+    case 'Number':
+    case 'Progress':
+    case 'Rating':
+      return { kind: 'number', formatter: property?.formatter };
+
+    case 'DateTime':
+      return { kind: 'date', dateFormatter: property?.date_formatter || DEFAULT_DATE_FORMATTER };
+
+    case 'CreatedTime':
+    case 'ModifiedTime':
+      return { kind: 'date', dateFormatter: property?.date_formatter || DEFAULT_TIMESTAMP_FORMATTER };
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format a number with a Lark number formatter
+ * ("0", "0.00", "1,000", "1,000.00", "%", "0%", "0.00%")
+ */
+export function formatNumber(value: number, formatter?: string, grouping = false): string {
+  if (!formatter) {
+    return grouping ? value.toLocaleString('en-US', { maximumFractionDigits: 20 }) : String(value);
+  }
+
+  const isPercent = formatter.includes('%');
+  const decimals = formatter.includes('.') ? formatter.split('.')[1].replace(/[^0]/g, '').length : 0;
+  const useGrouping = grouping || formatter.includes(',');
+
+  const text = (isPercent ? value * 100 : value).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping,
+  });
+  return isPercent ? `${text}%` : text;
+}
+
+/**
+ * Format an amount with its currency symbol, e.g. "¥1,200"
+ */
+export function formatCurrency(value: number, currencyCode?: string, formatter?: string): string {
+  const symbol = currencyCode ? (CURRENCY_SYMBOLS[currencyCode] ?? `${currencyCode} `) : '';
+  const amount = formatNumber(Math.abs(value), formatter || '0', true);
+  return `${value < 0 ? '-' : ''}${symbol}${amount}`;
+}
+
+/**
+ * Check whether a time zone name (e.g. "Asia/Tokyo") is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock date and time of a timestamp in a time zone
+ * (the local time zone of the server when none is given)
+ */
+export function getDateParts(time: number, timeZone?: string): Record<'yyyy' | 'MM' | 'dd' | 'HH' | 'mm' | 'ss', number> {
+  if (!timeZone) {
+    const date = new Date(time);
+    return {
+      yyyy: date.getFullYear(),
+      MM: date.getMonth() + 1,
+      dd: date.getDate(),
+      HH: date.getHours(),
+      mm: date.getMinutes(),
+      ss: date.getSeconds(),
+    };
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    yyyy: part('year'),
+    MM: part('month'),
+    dd: part('day'),
+    HH: part('hour'),
+    mm: part('minute'),
+    ss: part('second'),
+  };
+}
+
+/**
+ * Get the timestamp of a wall-clock date and time in a time zone
+ * (the local time zone of the server when none is given)
+ */
+export function fromDateParts(
+  parts: Record<'yyyy' | 'MM' | 'dd' | 'HH' | 'mm' | 'ss', number>,
+  timeZone?: string
+): number {
+  if (!timeZone) {
+    return new Date(parts.yyyy, parts.MM - 1, parts.dd, parts.HH, parts.mm, parts.ss).getTime();
+  }
+
+  // Shift the same wall-clock time in UTC by the zone's offset, twice to settle across DST changes
+  const wallClock = Date.UTC(parts.yyyy, parts.MM - 1, parts.dd, parts.HH, parts.mm, parts.ss);
+  const offsetAt = (time: number) => {
+    const zoned = getDateParts(time, timeZone);
+    return Date.UTC(zoned.yyyy, zoned.MM - 1, zoned.dd, zoned.HH, zoned.mm, zoned.ss) - time;
+  };
+  const guess = wallClock - offsetAt(wallClock);
+  return wallClock - offsetAt(guess);
+}
+
+/**
+ * Format a Unix timestamp (ms) with a Lark date formatter such as "yyyy/MM/dd HH:mm"
+ * Dates are shown in the given time zone (the Base's), or the server's local time zone
+ */
+export function formatDate(
+  time: number,
+  dateFormatter: string = DEFAULT_DATE_FORMATTER,
+  timeZone?: string
+): string {
+  if (isNaN(new Date(time).getTime())) {
+    return String(time);
+  }
+
+  const parts = getDateParts(time, timeZone);
+  const pad = (n: number): string => String(n).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    yyyy: String(parts.yyyy),
+    MM: pad(parts.MM),
+    dd: pad(parts.dd),
+    HH: pad(parts.HH),
+    mm: pad(parts.mm),
+    ss: pad(parts.ss),
+  };
+  return dateFormatter.replace(/yyyy|MM|dd|HH|mm|ss/g, (token) => tokens[token]);
+}
+
+/**
+ * Read a number back from text written by formatNumber or formatCurrency,
+ * e.g. "¥1,200", "-$3.50", "USD 10", "50%" (returned as 0.5)
+ * Returns null when the text is not a formatted number
+ */
+export function parseFormattedNumber(text: string): number | null {
+  const match = text.trim().match(/^(-?)\s*(?:[A-Z]{3} |[^\d\s.,%-]{1,3})?\s*(\d[\d,]*(?:\.\d+)?|\.\d+)\s*(%?)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, digits, percent] = match;
+  const value = Number(digits.replace(/,/g, '')) * (sign ? -1 : 1);
+  return percent ? value / 100 : value;
+}
+
+/**
+ * Read a Unix timestamp (ms) back from text written by formatDate
+ * Returns null when the text does not match the date formatter
+ */
+export function parseFormattedDate(
+  text: string,
+  dateFormatter: string = DEFAULT_DATE_FORMATTER,
+  timeZone?: string
+): number | null {
+  const order: string[] = [];
+  const pattern = dateFormatter
+    .split(/(yyyy|MM|dd|HH|mm|ss)/)
+    .map((part, idx) => {
+      if (idx % 2 === 0) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      order.push(part);
+      return part === 'yyyy' ? '(\\d{4})' : '(\\d{1,2})';
+    })
+    .join('');
+  const match = text.trim().match(new RegExp(`^${pattern}$`));
+  if (!match) {
+    return null;
+  }
+
+  const parts = { yyyy: 1970, MM: 1, dd: 1, HH: 0, mm: 0, ss: 0 };
+  order.forEach((token, idx) => {
+    parts[token as keyof typeof parts] = Number(match[idx + 1]);
+  });
+  return fromDateParts(parts, timeZone);
+}
+
+/**
+ * Read a value frozen to text with formatValueAsText back as a number or timestamp
+ * Plain numbers are accepted for every format; returns null for anything else
+ */
+export function parseFormattedValue(text: string, format: FieldFormat, timeZone?: string): number | null {
+  if (text.trim() !== '' && !isNaN(Number(text))) {
+    return Number(text);
+  }
+  return format.kind === 'date'
+    ? parseFormattedDate(text, format.dateFormatter, timeZone)
+    : parseFormattedNumber(text);
+}
+
+/**
+ * Format a single scalar value
+ */
+function formatScalar(value: string | number | boolean, format: FieldFormat, timeZone?: string): string {
+  const num = typeof value === 'number'
+    ? value
+    : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (isNaN(num)) {
+    return String(value);
+  }
+
+  switch (format.kind) {
+    case 'currency':
+      return formatCurrency(num, format.currencyCode, format.formatter);
+    case 'number':
+      return formatNumber(num, format.formatter);
+    case 'date':
+      return formatDate(num, format.dateFormatter, timeZone);
+  }
+}
+
+/**
+ * Convert a cell value to text with the field's formatting applied
+ * Multiple values (e.g. a lookup over several records) are joined with ", "
+ */
+export function formatValueAsText(value: unknown, format: FieldFormat, timeZone?: string): string {
+  return unwrapComputedValue(value)
+    .map((part) => formatScalar(part, format, timeZone))
+    .filter((s) => s !== '')
+    .join(', ');
+}
+
+/**
+ * Get the field type a numeric Formula / Lookup result is frozen to:
+ * amounts go to a Currency field so their symbol carries over, others to Number
+ */
+export function toNumberFieldType(format: FieldFormat | null): 'Number' | 'Currency' {
+  return format?.kind === 'currency' && format.currencyCode ? 'Currency' : 'Number';
+}
+
+/**
+ * Get the display property of the field a number is written to:
+ * precision, percent display and currency code carry over
+ */
+export function toNumberFieldProperty(format: FieldFormat | null): LarkFieldProperty | undefined {
+  if (!format || format.kind === 'date') {
+    return undefined;
+  }
+  const property: LarkFieldProperty = {
+    ...(format.formatter ? { formatter: format.formatter } : {}),
+    ...(format.kind === 'currency' && format.currencyCode ? { currency_code: format.currencyCode } : {}),
+  };
+  return Object.keys(property).length > 0 ? property : undefined;
+}
+
+/**
+ * Get the property of a DateTime field a Formula / Lookup field is frozen to
+ */
+export function toDateFieldProperty(format: FieldFormat | null): LarkFieldProperty | undefined {
+  return format?.kind === 'date' ? { date_formatter: format.dateFormatter } : undefined;
+}
@@ -0,0 +1,150 @@
+/**
+ * Field Policy
+ *
+ * @description Per-field choices of a snapshot request: keep the default
+ * conversion, freeze to text, freeze to a typed value, drop or rename a field.
+ * Policies are checked against the source schema, then applied by dropping and
+ * renaming fields (and the matching record values) before conversion
+ */
+
+import { getFieldTypeMapping } from './fieldTypeMapping.js';
+import type { FieldPolicy, LarkField, LarkRecord } from '../types/index.js';
+import { SOURCE_RECORD_ID_FIELD } from '../types/index.js';
+
+/** Policy actions */
+export const FIELD_POLICY_ACTIONS = ['keep', 'text', 'typed', 'drop'] as const;
+
+/** Static types a field can be frozen to with the 'typed' action */
+export const FIELD_POLICY_VALUE_TYPES = ['Number', 'DateTime', 'Checkbox'] as const;
+
+/** Field types without a single scalar value to freeze with the 'typed' action */
+const UNTYPEABLE_CONVERSIONS = ['location'];
+const UNTYPEABLE_UI_TYPES = [
+  'Attachment',
+  'SingleLink',
+  'DuplexLink',
+  'User',
+  'CreatedUser',
+  'ModifiedUser',
+  'MultiSelect',
+];
+
+/** Fields and records of a table after its policies are applied */
+export interface AppliedFieldPolicies {
+  fields: LarkField[];
+  records: LarkRecord[];
+  /** Policies of the remaining fields, keyed by their snapshot field name */
+  policies: Map<string, FieldPolicy>;
+}
+
+/**
+ * Check the policies of one table against its source fields
+ * Returns the problems found (an empty list when the policies can be applied)
+ */
+export function validateFieldPolicies(
+  policies: Record<string, FieldPolicy>,
+  fields: LarkField[]
+): string[] {
+  const errors: string[] = [];
+  const fieldsById = new Map(fields.map((f) => [f.field_id, f]));
+
+  for (const [fieldId, policy] of Object.entries(policies)) {
+    const field = fieldsById.get(fieldId);
+    if (!field) {
+      errors.push(`Field "${fieldId}" is not in the source table`);
+      continue;
+    }
+
+    const action = policy.action ?? 'keep';
+    if (!FIELD_POLICY_ACTIONS.includes(action)) {
+      errors.push(`Unknown action "${action}" for field "${field.field_name}"`);
+      continue;
+    }
+
+    if (action === 'drop' && field.is_primary) {
+      errors.push(`Primary field "${field.field_name}" cannot be dropped`);
+    }
+
+    if (action === 'typed') {
+      if (!policy.valueType || !FIELD_POLICY_VALUE_TYPES.includes(policy.valueType)) {
+        errors.push(`Field "${field.field_name}" needs a valueType of ${FIELD_POLICY_VALUE_TYPES.join(', ')}`);
+      } else if (UNTYPEABLE_UI_TYPES.includes(field.ui_type) ||
+                 UNTYPEABLE_CONVERSIONS.includes(getFieldTypeMapping(field).conversion)) {
+        errors.push(`Field "${field.field_name}" (${field.ui_type}) cannot be frozen to a typed value`);
+      }
+    }
+
+    if (policy.rename !== undefined && policy.rename.trim() === '') {
+      errors.push(`Field "${field.field_name}" cannot be renamed to an empty name`);
+    }
+  }
+
+  // Renamed fields must not clash with each other or with the kept field names
+  const names = new Map<string, string[]>();
+  for (const field of fields) {
+    const policy = policies[field.field_id];
+    if (policy?.action === 'drop') continue;
+    const name = policy?.rename?.trim() || field.field_name;
+    names.set(name, [...(names.get(name) ?? []), field.field_name]);
+  }
+  for (const [name, sourceNames] of names) {
+    if (sourceNames.length > 1) {
+      errors.push(`Fields ${sourceNames.map((n) => `"${n}"`).join(', ')} would all be named "${name}"`);
+    }
+    if (name === SOURCE_RECORD_ID_FIELD) {
+      errors.push(`"${SOURCE_RECORD_ID_FIELD}" is reserved for the source record ID`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Drop and rename fields as requested, renaming the record values to match
+ * (policies must have been validated)
+ */
+export function applyFieldPolicies(
+  fields: LarkField[],
+  records: LarkRecord[],
+  policies: Record<string, FieldPolicy>
+): AppliedFieldPolicies {
+  const applied: LarkField[] = [];
+  const appliedPolicies = new Map<string, FieldPolicy>();
+  const renames = new Map<string, string | null>();
+
+  for (const field of fields) {
+    const policy = policies[field.field_id];
+    if (policy?.action === 'drop') {
+      renames.set(field.field_name, null);
+      continue;
+    }
+
+    const name = policy?.rename?.trim() || field.field_name;
+    if (name !== field.field_name) {
+      renames.set(field.field_name, name);
+    }
+    applied.push(name === field.field_name ? field : { ...field, field_name: name });
+    if (policy) {
+      appliedPolicies.set(name, policy);
+    }
+  }
+
+  if (renames.size === 0) {
+    return { fields: applied, records, policies: appliedPolicies };
+  }
+
+  return {
+    fields: applied,
+    records: records.map((record) => {
+      const renamed: LarkRecord['fields'] = {};
+      for (const [name, value] of Object.entries(record.fields)) {
+        const target = renames.has(name) ? renames.get(name) : name;
+        if (target) {
+          renamed[target] = value;
+        }
+      }
+      return { ...record, fields: renamed };
+    }),
+    policies: appliedPolicies,
+  };
+}
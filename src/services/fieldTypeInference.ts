@@ -0,0 +1,166 @@
+/**
+ * Field Type Inference
+ *
+ * @description Chooses a typed static field for frozen Formula and Lookup fields
+ * by looking at the field property and the sampled record values
+ */
+
+import type { LarkField, LarkCellValue, LarkFieldType } from '../types/index.js';
+
+/** Static field types a Formula / Lookup field can be frozen to */
+export type StaticValueType = Extract<LarkFieldType, 'Text' | 'Number' | 'DateTime' | 'Checkbox'>;
+
+/** Lark data_type numbers reported in a formula / lookup property */
+const DATA_TYPE_MAP: Record<number, StaticValueType> = {
+  1: 'Text',
+  2: 'Number',
+  5: 'DateTime',
+  7: 'Checkbox',
+};
+
+/** ui_type values that are stored as numbers */
+const NUMERIC_UI_TYPES: LarkFieldType[] = ['Number', 'Currency', 'Progress', 'Rating'];
+
+/**
+ * Check whether a field is a computed Formula or Lookup field
+ */
+export function isComputedField(field: LarkField): boolean {
+  return field.ui_type === 'Formula' || field.ui_type === 'Lookup' ||
+         field.type === 19 || field.type === 20;
+}
+
+/**
+ * Flatten a computed cell value into its scalar parts
+ * Lark wraps formula / lookup results as `{ type, value: [...] }` objects,
+ * arrays of those, or text segments like `{ type: 'text', text }`
+ */
+export function unwrapComputedValue(value: unknown): Array<string | number | boolean> {
+  if (value === null || value === undefined) {
+    return [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((v) => unwrapComputedValue(v));
+  }
+
+  if (typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    if ('value' in obj) {
+      return unwrapComputedValue(obj.value);
+    }
+    if ('text' in obj && typeof obj.text === 'string') {
+      return [obj.text];
+    }
+    if ('name' in obj && typeof obj.name === 'string') {
+      return [obj.name];
+    }
+    return [JSON.stringify(value)];
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return [value];
+  }
+
+  return [String(value)];
+}
+
+/**
+ * Get the static type declared by the field property, if any
+ */
+function getDeclaredType(field: LarkField): StaticValueType | null {
+  const resultType = field.property?.type;
+  if (resultType) {
+    if (resultType.ui_type && NUMERIC_UI_TYPES.includes(resultType.ui_type)) {
+      return 'Number';
+    }
+    if (resultType.ui_type === 'DateTime' || resultType.ui_type === 'CreatedTime' ||
+        resultType.ui_type === 'ModifiedTime') {
+      return 'DateTime';
+    }
+    return DATA_TYPE_MAP[resultType.data_type] ?? 'Text';
+  }
+
+  // Date formulas carry a date formatter but no result type
+  if (field.property?.date_formatter) {
+    return 'DateTime';
+  }
+
+  return null;
+}
+
+/**
+ * Infer the static field type for a Formula / Lookup field
+ * Values that hold more than one item per cell always stay Text,
+ * since Number, DateTime and Checkbox fields hold a single value.
+ */
+export function inferStaticFieldType(
+  field: LarkField,
+  values: LarkCellValue[]
+): StaticValueType {
+  const cells = values
+    .map((v) => unwrapComputedValue(v))
+    .filter((parts) => parts.length > 0);
+
+  if (cells.some((parts) => parts.length > 1)) {
+    return 'Text';
+  }
+
+  const declared = getDeclaredType(field);
+  if (declared) {
+    return declared;
+  }
+
+  if (cells.length === 0) {
+    return 'Text';
+  }
+
+  const scalars = cells.map((parts) => parts[0]);
+  if (scalars.every((v) => typeof v === 'number')) {
+    return 'Number';
+  }
+  if (scalars.every((v) => typeof v === 'boolean')) {
+    return 'Checkbox';
+  }
+
+  return 'Text';
+}
+
+/**
+ * Convert a computed cell value to the native value of a typed static field
+ * Returns null when the value cannot be represented (the cell is left empty)
+ */
+export function toStaticValue(
+  value: LarkCellValue,
+  type: Exclude<StaticValueType, 'Text'>
+): number | boolean | null {
+  const parts = unwrapComputedValue(value);
+  if (parts.length !== 1) {
+    return null;
+  }
+
+  const scalar = parts[0];
+
+  switch (type) {
+    case 'Number': {
+      const num = typeof scalar === 'number' ? scalar : parseFloat(String(scalar));
+      return isNaN(num) ? null : num;
+    }
+
+    case 'DateTime': {
+      if (typeof scalar === 'number') {
+        return scalar;
+      }
+      const time = Date.parse(String(scalar));
+      return isNaN(time) ? null : time;
+    }
+
+    case 'Checkbox':
+      if (typeof scalar === 'boolean') {
+        return scalar;
+      }
+      if (scalar === 'true' || scalar === 'false') {
+        return scalar === 'true';
+      }
+      return null;
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Field Type Mapping
+ *
+ * @description Maps every Lark field type to the static field type it is
+ * written to in a snapshot table, and how its values are converted
+ */
+
+import { unwrapComputedValue } from './fieldTypeInference.js';
+import type { LarkCellValue, LarkField, LarkFieldType } from '../types/index.js';
+
+/** How the values of a source field are written to the snapshot table */
+export type FieldConversion =
+  | 'keep'      // Same field type, values copied as they are
+  | 'text'      // Text field holding the display text (user names, linked records, ...)
+  | 'number'    // Currency / Progress / Rating field holding the numeric value and display settings
+  | 'dateTime'  // DateTime field holding the captured timestamp
+  | 'email'     // Text field holding the address
+  | 'location'  // Text field holding the address, plus latitude / longitude Number fields
+  | 'computed'; // Formula / Lookup: typed from the result (see fieldTypeInference)
+
+/** Snapshot mapping of a Lark field type */
+export interface FieldTypeMapping {
+  /** Lark field type number (several ui_types share a number) */
+  type: number;
+  /** Field type of the snapshot field (computed fields are typed per table) */
+  target: LarkFieldType;
+  conversion: FieldConversion;
+}
+
+/** Mapping of every Lark field type, keyed by ui_type */
+export const FIELD_TYPE_MAPPINGS: Record<LarkFieldType, FieldTypeMapping> = {
+  Text: { type: 1, target: 'Text', conversion: 'keep' },
+  Barcode: { type: 1, target: 'Barcode', conversion: 'keep' },
+  Email: { type: 1, target: 'Text', conversion: 'email' },
+  Number: { type: 2, target: 'Number', conversion: 'keep' },
+  Progress: { type: 2, target: 'Progress', conversion: 'number' },
+  Currency: { type: 2, target: 'Currency', conversion: 'number' },
+  Rating: { type: 2, target: 'Rating', conversion: 'number' },
+  SingleSelect: { type: 3, target: 'SingleSelect', conversion: 'keep' },
+  MultiSelect: { type: 4, target: 'MultiSelect', conversion: 'keep' },
+  DateTime: { type: 5, target: 'DateTime', conversion: 'keep' },
+  Checkbox: { type: 7, target: 'Checkbox', conversion: 'keep' },
+  User: { type: 11, target: 'Text', conversion: 'text' },
+  Phone: { type: 13, target: 'Phone', conversion: 'keep' },
+  Url: { type: 15, target: 'Url', conversion: 'keep' },
+  // Attachments become file names unless the files are copied
+  Attachment: { type: 17, target: 'Text', conversion: 'text' },
+  SingleLink: { type: 18, target: 'Text', conversion: 'text' },
+  Lookup: { type: 19, target: 'Text', conversion: 'computed' },
+  Formula: { type: 20, target: 'Text', conversion: 'computed' },
+  DuplexLink: { type: 21, target: 'Text', conversion: 'text' },
+  Location: { type: 22, target: 'Text', conversion: 'location' },
+  GroupChat: { type: 23, target: 'Text', conversion: 'text' },
+  Stage: { type: 24, target: 'Text', conversion: 'text' },
+  CreatedTime: { type: 1001, target: 'DateTime', conversion: 'dateTime' },
+  ModifiedTime: { type: 1002, target: 'DateTime', conversion: 'dateTime' },
+  CreatedUser: { type: 1003, target: 'Text', conversion: 'text' },
+  ModifiedUser: { type: 1004, target: 'Text', conversion: 'text' },
+  // Auto numbers can carry a prefix or date, so the sequence is kept as text
+  AutoNumber: { type: 1005, target: 'Text', conversion: 'text' },
+  // Buttons have no value
+  Button: { type: 3001, target: 'Text', conversion: 'text' },
+};
+
+/** Lark field type number of each ui_type */
+export const LARK_FIELD_TYPES = Object.fromEntries(
+  Object.entries(FIELD_TYPE_MAPPINGS).map(([uiType, mapping]) => [uiType, mapping.type])
+) as Record<LarkFieldType, number>;
+
+/** ui_type assumed for a type number when a field reports no known ui_type */
+const UI_TYPE_BY_NUMBER: Record<number, LarkFieldType> = {
+  1: 'Text',
+  2: 'Number',
+  3: 'SingleSelect',
+  4: 'MultiSelect',
+  5: 'DateTime',
+  7: 'Checkbox',
+  11: 'User',
+  13: 'Phone',
+  15: 'Url',
+  17: 'Attachment',
+  18: 'SingleLink',
+  19: 'Lookup',
+  20: 'Formula',
+  21: 'DuplexLink',
+  22: 'Location',
+  23: 'GroupChat',
+  24: 'Stage',
+  1001: 'CreatedTime',
+  1002: 'ModifiedTime',
+  1003: 'CreatedUser',
+  1004: 'ModifiedUser',
+  1005: 'AutoNumber',
+  3001: 'Button',
+};
+
+/** Mapping used for field types this table does not know */
+const UNKNOWN_FIELD_MAPPING: FieldTypeMapping = { type: 1, target: 'Text', conversion: 'text' };
+
+/** Loose e-mail address check (something@domain.tld) */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Get the ui_type of a field, falling back to its type number
+ */
+export function resolveUiType(field: Pick<LarkField, 'type' | 'ui_type'>): LarkFieldType | undefined {
+  if (field.ui_type && field.ui_type in FIELD_TYPE_MAPPINGS) {
+    return field.ui_type;
+  }
+  return UI_TYPE_BY_NUMBER[field.type];
+}
+
+/**
+ * Get the snapshot mapping of a source field
+ */
+export function getFieldTypeMapping(field: Pick<LarkField, 'type' | 'ui_type'>): FieldTypeMapping {
+  const uiType = resolveUiType(field);
+  return uiType ? FIELD_TYPE_MAPPINGS[uiType] : UNKNOWN_FIELD_MAPPING;
+}
+
+/**
+ * Names of the Number fields holding the coordinates of a Location field
+ */
+export function getLocationFieldNames(fieldName: string): { latitude: string; longitude: string } {
+  return { latitude: `${fieldName}_latitude`, longitude: `${fieldName}_longitude` };
+}
+
+/**
+ * Split a Location value into its address and coordinates
+ * Lark reports the coordinates as a "longitude,latitude" string
+ */
+export function parseLocationValue(value: LarkCellValue): {
+  address: string;
+  latitude: number | null;
+  longitude: number | null;
+} {
+  const location = (Array.isArray(value) ? value[0] : value) as Record<string, unknown> | null;
+  if (!location || typeof location !== 'object') {
+    return { address: value === null || value === undefined ? '' : String(value), latitude: null, longitude: null };
+  }
+
+  const address = [location.full_address, location.address, location.name]
+    .find((v): v is string => typeof v === 'string' && v !== '') ?? '';
+  const [longitude, latitude] = typeof location.location === 'string'
+    ? location.location.split(',').map((v) => parseFloat(v))
+    : [NaN, NaN];
+
+  return {
+    address,
+    latitude: Number.isFinite(latitude) ? latitude : null,
+    longitude: Number.isFinite(longitude) ? longitude : null,
+  };
+}
+
+/**
+ * Get the address held by an Email cell (text segments are joined, "mailto:" is dropped)
+ */
+export function toEmailAddress(value: LarkCellValue): string {
+  return unwrapComputedValue(value).map(String).join('').trim().replace(/^mailto:/i, '');
+}
+
+/**
+ * Check whether a text is a valid e-mail address
+ */
+export function isValidEmail(text: string): boolean {
+  return EMAIL_PATTERN.test(text);
+}
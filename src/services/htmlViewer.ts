@@ -0,0 +1,106 @@
+/**
+ * HTML Viewer
+ *
+ * @description Builds a self-contained, read-only HTML page for a frozen snapshot
+ * The page inlines the viewer bundle (src/client/viewer, built by `npm run build:viewer`)
+ * together with the snapshot data, so it can be hosted anywhere or opened from disk
+ */
+
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { formatCellText } from './csvExporter.js';
+import { getColumnType } from './xlsxExporter.js';
+import { SNAPSHOT_TOOL_VERSION } from './snapshotArchive.js';
+import type { FrozenSnapshot, SnapshotViewerData } from '../types/index.js';
+
+// Output directory of `npm run build:viewer`, resolved from this module:
+// src/services (tsx, serverless functions) or dist/server/services (npm run build:server)
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const VIEWER_ASSET_DIRS = [join(__dirname, '../../dist/viewer'), join(__dirname, '../../viewer')];
+
+/** Directory the viewer bundle is read from by default */
+export const VIEWER_ASSET_DIR = VIEWER_ASSET_DIRS.find((dir) => existsSync(join(dir, 'viewer.js'))) ??
+  VIEWER_ASSET_DIRS[0];
+
+/** Built viewer script and stylesheet */
+export interface ViewerAssets {
+  script: string;
+  style: string;
+}
+
+/**
+ * Convert a frozen snapshot to the data embedded in the viewer
+ */
+export function toViewerData(snapshot: FrozenSnapshot): SnapshotViewerData {
+  return {
+    sourceBase: snapshot.sourceBase,
+    capturedAt: snapshot.createdAt,
+    toolVersion: SNAPSHOT_TOOL_VERSION,
+    errors: snapshot.errors,
+    tables: snapshot.tables.map((table) => ({
+      tableId: table.sourceTableId,
+      name: table.tableName,
+      columns: table.fields.map((f) => ({ name: f.field_name, kind: getColumnType(f) })),
+      records: table.records.map((record) => ({
+        id: record.sourceRecordId,
+        values: table.fields.map((f) => formatCellText(f, record.fields[f.field_name], snapshot.timeZone)),
+      })),
+    })),
+  };
+}
+
+/**
+ * Escape text for an HTML element or attribute
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the viewer page with the data and assets inlined
+ * Closing tags inside the inlined content are escaped so they cannot end the element early
+ * @param lang - Language of the page content (the lang attribute of <html>)
+ */
+export function renderViewerHtml(data: SnapshotViewerData, assets: ViewerAssets, lang = 'en'): string {
+  const json = JSON.stringify(data).replace(/</g, '\\u003c');
+  const title = `${data.sourceBase.name} - Snapshot ${data.capturedAt.split('T')[0]}`;
+
+  return '<!DOCTYPE html>\n' +
+    `<html lang="${escapeHtml(lang)}">\n` +
+    '<head>\n' +
+    '<meta charset="UTF-8" />\n' +
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0" />\n' +
+    '<meta name="generator" content="LarkBaseSnapshot" />\n' +
+    `<title>${escapeHtml(title)}</title>\n` +
+    `<style>${assets.style.replace(/<\/style/gi, '<\\/style')}</style>\n` +
+    '</head>\n' +
+    '<body>\n' +
+    '<div id="root"></div>\n' +
+    `<script id="snapshot-data" type="application/json">${json}</script>\n` +
+    `<script>${assets.script.replace(/<\/script/gi, '<\\/script')}</script>\n` +
+    '</body>\n' +
+    '</html>\n';
+}
+
+/**
+ * Read the built viewer bundle
+ */
+export async function loadViewerAssets(dir: string = VIEWER_ASSET_DIR): Promise<ViewerAssets> {
+  try {
+    const [script, style] = await Promise.all([
+      readFile(join(dir, 'viewer.js'), 'utf-8'),
+      readFile(join(dir, 'viewer.css'), 'utf-8'),
+    ]);
+    return { script, style };
+  } catch (error) {
+    throw new Error(
+      `HTML viewer bundle not found in ${dir} (run \`npm run build:viewer\`): ${(error as Error).message}`
+    );
+  }
+}
@@ -3,5 +3,79 @@
  */
 
 export { LarkApiClient } from './larkApiClient.js';
-export { SnapshotService } from './snapshotService.js';
+export { SnapshotService, type SnapshotServiceOptions } from './snapshotService.js';
+export {
+  InMemorySnapshotStateStore,
+  FileSnapshotStateStore,
+  type SnapshotStateStore,
+} from './snapshotStateStore.js';
+export {
+  InMemoryCheckpointStore,
+  FileCheckpointStore,
+  type CheckpointStore,
+} from './checkpointStore.js';
+export {
+  SnapshotDiffService,
+  diffTables,
+  formatDiffSummary,
+  type DiffTableInput,
+} from './snapshotDiff.js';
+export {
+  FieldConverterRegistry,
+  BUILT_IN_FIELD_CONVERTERS,
+} from './fieldConverters.js';
+export {
+  FIELD_TYPE_MAPPINGS,
+  LARK_FIELD_TYPES,
+  getFieldTypeMapping,
+  type FieldConversion,
+  type FieldTypeMapping,
+} from './fieldTypeMapping.js';
+export {
+  validateFieldPolicies,
+  applyFieldPolicies,
+  FIELD_POLICY_ACTIONS,
+  FIELD_POLICY_VALUE_TYPES,
+} from './fieldPolicy.js';
+export {
+  parseRecordFilter,
+  compileRecordFilter,
+  type RecordFilterNode,
+  type RecordFilterOperator,
+} from './recordFilter.js';
+export { SnapshotRestoreService } from './snapshotRestore.js';
+export { hashRecordValues, verifyTable } from './snapshotVerification.js';
+export {
+  renderSnapshotExport,
+  bundleExportFiles,
+  writeExportFiles,
+  getExportName,
+  SNAPSHOT_EXPORT_FORMATS,
+} from './snapshotExport.js';
+export { toCsv, formatCellText } from './csvExporter.js';
+export { toXlsx } from './xlsxExporter.js';
+export { toSqlite, SNAPSHOT_META_TABLE } from './sqliteExporter.js';
+export {
+  toViewerData,
+  renderViewerHtml,
+  loadViewerAssets,
+  type ViewerAssets,
+} from './htmlViewer.js';
+export {
+  createArchive,
+  writeArchive,
+  readArchive,
+  saveArchive,
+  loadArchive,
+  ARCHIVE_FORMAT_VERSION,
+  ARCHIVE_FILE_EXTENSION,
+} from './snapshotArchive.js';
+export { SnapshotJobRunner } from './snapshotJobRunner.js';
+export { InMemoryJobStore, FileJobStore, type JobStore } from './jobStore.js';
+export { SnapshotScheduler, type SnapshotSchedulerOptions } from './snapshotScheduler.js';
+export {
+  InMemoryScheduleStore,
+  FileScheduleStore,
+  type ScheduleStore,
+} from './scheduleStore.js';
 export { AuthService } from './authService.js';
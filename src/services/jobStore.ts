@@ -0,0 +1,161 @@
+/**
+ * Snapshot Job Store
+ *
+ * @description Persists background snapshot jobs so their status can be
+ * read by later requests
+ */
+
+import type { SnapshotJob } from '../types/index.js';
+import { existsSync, readFileSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+// Check if running in serverless environment (Vercel)
+const IS_SERVERLESS = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+// Default job file location (next to .sessions.json)
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_JOBS_FILE = join(__dirname, '../../.snapshot-jobs.json');
+
+/** Finished jobs are kept for a day after they finished */
+const DEFAULT_FINISHED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** Progress of a running job is written to the file at most once per interval */
+const DEFAULT_SAVE_INTERVAL_MS = 2000;
+
+/** Storage for background snapshot jobs */
+export interface JobStore {
+  get(id: string): Promise<SnapshotJob | null>;
+  save(job: SnapshotJob): Promise<void>;
+}
+
+/** Options of the job stores */
+export interface JobStoreOptions {
+  /** How long finished jobs are kept (default: 24 hours) */
+  finishedJobTtlMs?: number;
+  /** Minimum interval between file writes for progress updates (default: 2 seconds) */
+  saveIntervalMs?: number;
+}
+
+/**
+ * Check whether a job has finished
+ */
+function isFinished(job: SnapshotJob): boolean {
+  return job.state === 'completed' || job.state === 'failed';
+}
+
+/**
+ * Remove jobs that finished longer than ttlMs ago
+ */
+function evictFinishedJobs(jobs: Map<string, SnapshotJob>, ttlMs: number): void {
+  const cutoff = Date.now() - ttlMs;
+  for (const [id, job] of jobs) {
+    if (isFinished(job) && Date.parse(job.updatedAt) < cutoff) {
+      jobs.delete(id);
+    }
+  }
+}
+
+/**
+ * In-memory job store (jobs are lost when the process exits)
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, SnapshotJob>();
+  private finishedJobTtlMs: number;
+
+  constructor(options: JobStoreOptions = {}) {
+    this.finishedJobTtlMs = options.finishedJobTtlMs ?? DEFAULT_FINISHED_JOB_TTL_MS;
+  }
+
+  async get(id: string): Promise<SnapshotJob | null> {
+    return this.jobs.get(id) ?? null;
+  }
+
+  async save(job: SnapshotJob): Promise<void> {
+    this.jobs.set(job.id, job);
+    evictFinishedJobs(this.jobs, this.finishedJobTtlMs);
+  }
+}
+
+/**
+ * File-backed job store (all jobs are kept in a single JSON file)
+ * Jobs are served from memory; the file is read once and rewritten
+ * asynchronously. Progress updates of running jobs are coalesced into one
+ * write per interval, while queued and finished states are written at once
+ */
+export class FileJobStore implements JobStore {
+  private jobs: Map<string, SnapshotJob> | null = null;
+  private finishedJobTtlMs: number;
+  private saveIntervalMs: number;
+  private pendingWrite: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string = DEFAULT_JOBS_FILE, options: JobStoreOptions = {}) {
+    this.finishedJobTtlMs = options.finishedJobTtlMs ?? DEFAULT_FINISHED_JOB_TTL_MS;
+    this.saveIntervalMs = options.saveIntervalMs ?? DEFAULT_SAVE_INTERVAL_MS;
+  }
+
+  private load(): Map<string, SnapshotJob> {
+    if (this.jobs) {
+      return this.jobs;
+    }
+    this.jobs = new Map();
+    try {
+      if (existsSync(this.filePath)) {
+        const saved: Record<string, SnapshotJob> = JSON.parse(readFileSync(this.filePath, 'utf-8'));
+        this.jobs = new Map(Object.entries(saved));
+      }
+    } catch (error) {
+      console.error('Failed to read snapshot jobs:', (error as Error).message);
+    }
+    return this.jobs;
+  }
+
+  async get(id: string): Promise<SnapshotJob | null> {
+    return this.load().get(id) ?? null;
+  }
+
+  async save(job: SnapshotJob): Promise<void> {
+    this.load().set(job.id, job);
+
+    if (job.state === 'running') {
+      // Coalesce the progress updates of running jobs
+      this.pendingWrite ??= setTimeout(() => {
+        this.pendingWrite = null;
+        void this.flush();
+      }, this.saveIntervalMs);
+      return;
+    }
+
+    if (this.pendingWrite) {
+      clearTimeout(this.pendingWrite);
+      this.pendingWrite = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Write all jobs to the file (writes are serialized so they never interleave)
+   */
+  flush(): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      const jobs = this.load();
+      evictFinishedJobs(jobs, this.finishedJobTtlMs);
+      try {
+        await writeFile(this.filePath, JSON.stringify(Object.fromEntries(jobs), null, 2));
+      } catch (error) {
+        console.error('Failed to write snapshot jobs:', (error as Error).message);
+      }
+    });
+    return this.writing;
+  }
+}
+
+/**
+ * Create the default job store for the current environment
+ * (file-backed in development, in-memory in serverless)
+ */
+export function createDefaultJobStore(): JobStore {
+  return IS_SERVERLESS ? new InMemoryJobStore() : new FileJobStore();
+}
@@ -13,6 +13,9 @@ import type {
   LarkField,
   LarkRecord,
   LarkListResponse,
+  LarkListRecordsOptions,
+  LarkView,
+  LarkViewProperty,
 } from '../types/index.js';
 
 const DEFAULT_BASE_URL = 'https://open.larksuite.com/open-apis';
@@ -179,6 +182,29 @@ export class LarkApiClient {
     return match ? match[1] : null;
   }
 
+  /**
+   * Extract view ID from URL if present
+   * @example ?table=tblXXXX&view=vewXXXX -> vewXXXX
+   */
+  parseViewIdFromUrl(url: string): string | null {
+    const match = url.match(/[?&]view=([a-zA-Z0-9]+)/);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Resolve the view a Base URL points at, for one of its tables
+   * Returns null when the URL has no view or the view belongs to another table
+   * (view IDs are only unique within the table given by ?table=)
+   */
+  async resolveUrlView(appToken: string, tableId: string, url: string): Promise<LarkView | null> {
+    const viewId = this.parseViewIdFromUrl(url);
+    if (!viewId || this.parseTableIdFromUrl(url) !== tableId) {
+      return null;
+    }
+
+    return this.getView(appToken, tableId, viewId);
+  }
+
   /**
    * Get Base (App) information
    */
@@ -191,6 +217,27 @@ export class LarkApiClient {
     return response.data!.app;
   }
 
+  /**
+   * Rename a Base
+   */
+  async updateBase(appToken: string, name: string): Promise<LarkBase> {
+    const response = await this.request<{ app: LarkBase }>(
+      'PUT',
+      `/bitable/v1/apps/${appToken}`,
+      { name }
+    );
+
+    return response.data!.app;
+  }
+
+  /**
+   * Delete a Base (moves it to the trash)
+   */
+  async deleteBase(appToken: string): Promise<void> {
+    console.log(`Deleting Base: ${appToken}`);
+    await this.request('DELETE', `/drive/v1/files/${appToken}?type=bitable`);
+  }
+
   /**
    * Create a new Base
    */
@@ -209,6 +256,18 @@ export class LarkApiClient {
     return response.data!.app;
   }
 
+  /**
+   * Check whether the current user can edit a Base
+   */
+  async hasEditPermission(appToken: string): Promise<boolean> {
+    const response = await this.request<{ auth_result: boolean }>(
+      'GET',
+      `/drive/v1/permissions/${appToken}/members/auth?type=bitable&action=edit`
+    );
+
+    return response.data?.auth_result ?? false;
+  }
+
   /**
    * List all tables in a Base
    * Handles pagination errors gracefully - returns tables fetched so far
@@ -447,10 +506,97 @@ export class LarkApiClient {
     return response.data!.field;
   }
 
+  /**
+   * List all views of a table
+   */
+  async listViews(appToken: string, tableId: string): Promise<LarkView[]> {
+    const views: LarkView[] = [];
+    let pageToken: string | undefined;
+    let pageCount = 0;
+    const MAX_PAGES = 10; // Safeguard against infinite loops
+
+    do {
+      const params = new URLSearchParams({ page_size: '100' });
+      if (pageToken) params.set('page_token', pageToken);
+
+      const response = await this.request<LarkListResponse<LarkView>>(
+        'GET',
+        `/bitable/v1/apps/${appToken}/tables/${tableId}/views?${params}`
+      );
+
+      if (response.data?.items) {
+        views.push(...response.data.items);
+      }
+
+      const nextPageToken = response.data?.has_more ? response.data.page_token : undefined;
+      // Stop if same page_token is returned (API bug or end of data)
+      pageToken = nextPageToken !== pageToken ? nextPageToken : undefined;
+      pageCount++;
+    } while (pageToken && pageCount < MAX_PAGES);
+
+    console.log(`listViews got ${views.length} views for ${tableId}`);
+    return views;
+  }
+
+  /**
+   * Get a single view, including its filter and hidden field settings
+   */
+  async getView(appToken: string, tableId: string, viewId: string): Promise<LarkView> {
+    const response = await this.request<{ view: LarkView }>(
+      'GET',
+      `/bitable/v1/apps/${appToken}/tables/${tableId}/views/${viewId}`
+    );
+
+    return response.data!.view;
+  }
+
+  /**
+   * Create a view in a table
+   */
+  async createView(
+    appToken: string,
+    tableId: string,
+    view: Pick<LarkView, 'view_name' | 'view_type'>
+  ): Promise<LarkView> {
+    const response = await this.request<{ view: LarkView }>(
+      'POST',
+      `/bitable/v1/apps/${appToken}/tables/${tableId}/views`,
+      {
+        view_name: view.view_name,
+        view_type: view.view_type,
+      }
+    );
+
+    return response.data!.view;
+  }
+
+  /**
+   * Update the name and settings of a view
+   */
+  async updateView(
+    appToken: string,
+    tableId: string,
+    viewId: string,
+    update: { view_name?: string; property?: LarkViewProperty }
+  ): Promise<LarkView> {
+    const response = await this.request<{ view: LarkView }>(
+      'PATCH',
+      `/bitable/v1/apps/${appToken}/tables/${tableId}/views/${viewId}`,
+      update
+    );
+
+    return response.data!.view;
+  }
+
   /**
    * List all records in a table
+   * With a viewId, only the records visible in the view are listed, in view order
    */
-  async listRecords(appToken: string, tableId: string): Promise<LarkRecord[]> {
+  async listRecords(
+    appToken: string,
+    tableId: string,
+    options: LarkListRecordsOptions = {}
+  ): Promise<LarkRecord[]> {
     const records: LarkRecord[] = [];
     let pageToken: string | undefined;
     let prevPageToken: string | undefined;
@@ -458,9 +604,18 @@ export class LarkApiClient {
     const MAX_PAGES = 100; // Allow more pages for records
 
     do {
-      const path = pageToken
-        ? `/bitable/v1/apps/${appToken}/tables/${tableId}/records?page_token=${pageToken}`
-        : `/bitable/v1/apps/${appToken}/tables/${tableId}/records`;
+      const params = new URLSearchParams();
+      if (options.automaticFields) {
+        params.set('automatic_fields', 'true');
+      }
+      if (options.viewId) {
+        params.set('view_id', options.viewId);
+      }
+      if (pageToken) {
+        params.set('page_token', pageToken);
+      }
+      const query = params.toString();
+      const path = `/bitable/v1/apps/${appToken}/tables/${tableId}/records${query ? `?${query}` : ''}`;
 
       console.log(`listRecords request: page ${pageCount + 1}`);
 
@@ -471,6 +626,7 @@ export class LarkApiClient {
 
       if (response.data?.items) {
         records.push(...response.data.items);
+        options.onPage?.(response.data.items);
         console.log(`listRecords got ${response.data.items.length} records (total: ${records.length})`);
       }
 
@@ -496,9 +652,13 @@ export class LarkApiClient {
   /**
    * List records with fallback for Advanced Permissions
    */
-  async listRecordsWithFallback(appToken: string, tableId: string): Promise<LarkRecord[]> {
+  async listRecordsWithFallback(
+    appToken: string,
+    tableId: string,
+    options: LarkListRecordsOptions = {}
+  ): Promise<LarkRecord[]> {
     try {
-      return await this.listRecords(appToken, tableId);
+      return await this.listRecords(appToken, tableId, options);
     } catch (error) {
       const errMsg = (error as Error).message;
       console.log(`listRecords failed for ${tableId}: ${errMsg}`);
@@ -519,7 +679,8 @@ export class LarkApiClient {
   async createRecords(
     appToken: string,
     tableId: string,
-    records: Array<{ fields: Record<string, unknown> }>
+    records: Array<{ fields: Record<string, unknown> }>,
+    onBatch?: (created: LarkRecord[]) => void
   ): Promise<LarkRecord[]> {
     // Lark API has a limit of 500 records per request
     const BATCH_SIZE = 500;
@@ -536,12 +697,44 @@ export class LarkApiClient {
 
       if (response.data?.records) {
         createdRecords.push(...response.data.records);
+        onBatch?.(response.data.records);
       }
     }
 
     return createdRecords;
   }
 
+  /**
+   * Update records in a table (batch)
+   */
+  async updateRecords(
+    appToken: string,
+    tableId: string,
+    records: Array<{ record_id: string; fields: Record<string, unknown> }>,
+    onBatch?: (updated: LarkRecord[]) => void
+  ): Promise<LarkRecord[]> {
+    // Lark API has a limit of 500 records per request
+    const BATCH_SIZE = 500;
+    const updatedRecords: LarkRecord[] = [];
+
+    for (let i = 0; i < records.length; i += BATCH_SIZE) {
+      const batch = records.slice(i, i + BATCH_SIZE);
+
+      const response = await this.request<{ records: LarkRecord[] }>(
+        'POST',
+        `/bitable/v1/apps/${appToken}/tables/${tableId}/records/batch_update`,
+        { records: batch }
+      );
+
+      if (response.data?.records) {
+        updatedRecords.push(...response.data.records);
+        onBatch?.(response.data.records);
+      }
+    }
+
+    return updatedRecords;
+  }
+
   /**
    * Add collaborator with permission
    * Note: This feature may not be available for all Base types
@@ -0,0 +1,378 @@
+/**
+ * Record Filter
+ *
+ * @description A small expression language for copying only some records of a
+ * table, evaluated locally against the listed records. Examples:
+ *
+ *   Status = "Closed" AND [Close Date] >= "2024-10-01"
+ *   (Amount > 1000 OR Priority = "High") AND NOT Owner IS EMPTY
+ *   Tags CONTAINS "urgent"
+ *
+ * - Fields are referenced by name; names with spaces or symbols go in [brackets]
+ * - Values are "strings" (or 'strings'), numbers, TRUE and FALSE
+ * - Operators: = != < <= > >= CONTAINS (case-insensitive), IS EMPTY, IS NOT EMPTY
+ * - Conditions are combined with AND, OR, NOT and parentheses (AND binds tighter)
+ * - Dates are written as "YYYY-MM-DD" or "YYYY-MM-DD HH:mm" in the Base's time zone
+ * - A multi-value cell (users, options, linked records) matches when any of
+ *   its values matches; != matches when none does
+ */
+
+import { unwrapComputedValue } from './fieldTypeInference.js';
+import { fromDateParts } from './fieldFormatting.js';
+import type { LarkCellValue, LarkField, LarkRecord } from '../types/index.js';
+
+/** Comparison operators */
+export type RecordFilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'contains';
+
+/** Parsed filter expression */
+export type RecordFilterNode =
+  | { kind: 'and' | 'or'; left: RecordFilterNode; right: RecordFilterNode }
+  | { kind: 'not'; operand: RecordFilterNode }
+  | { kind: 'compare'; field: string; operator: RecordFilterOperator; value: string | number | boolean }
+  | { kind: 'empty'; field: string; negated: boolean };
+
+type Token =
+  | { type: 'paren'; value: '(' | ')'; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'field'; value: string; position: number }
+  | { type: 'word'; value: string; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'number'; value: number; position: number };
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'CONTAINS', 'IS', 'EMPTY', 'TRUE', 'FALSE'];
+
+/** Field types whose text segments form a single value */
+const TEXT_TYPE_NUMBERS = [1];
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    const position = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position });
+      i++;
+    } else if (char === '[') {
+      const end = expression.indexOf(']', i + 1);
+      if (end === -1) {
+        throw new Error(`Missing "]" for the field name at position ${position}`);
+      }
+      tokens.push({ type: 'field', value: expression.slice(i + 1, end), position });
+      i = end + 1;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) {
+          i++;
+        }
+        value += expression[i];
+        i++;
+      }
+      if (i >= expression.length) {
+        throw new Error(`Missing closing quote for the string at position ${position}`);
+      }
+      tokens.push({ type: 'string', value, position });
+      i++;
+    } else if (/[=!<>]/.test(char)) {
+      const operator = expression.slice(i).match(/^(<=|>=|!=|<>|=|<|>)/)?.[0];
+      if (!operator) {
+        throw new Error(`Unexpected "${char}" at position ${position}`);
+      }
+      tokens.push({ type: 'operator', value: operator === '<>' ? '!=' : operator, position });
+      i += operator.length;
+    } else {
+      const number = expression.slice(i).match(/^-?\d+(\.\d+)?(?![\p{L}\p{N}_])/u)?.[0];
+      if (number) {
+        tokens.push({ type: 'number', value: parseFloat(number), position });
+        i += number.length;
+        continue;
+      }
+      const word = expression.slice(i).match(/^[\p{L}\p{N}_]+/u)?.[0];
+      if (!word) {
+        throw new Error(`Unexpected "${char}" at position ${position}`);
+      }
+      tokens.push({ type: 'word', value: word, position });
+      i += word.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the tokens of one expression
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): RecordFilterNode {
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest) {
+      throw new Error(`Unexpected "${rest.value}" at position ${rest.position}`);
+    }
+    return node;
+  }
+
+  private parseOr(): RecordFilterNode {
+    let node = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      node = { kind: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): RecordFilterNode {
+    let node = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      node = { kind: 'and', left: node, right: this.parseNot() };
+    }
+    return node;
+  }
+
+  private parseNot(): RecordFilterNode {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RecordFilterNode {
+    const token = this.next('a condition');
+    if (token.type === 'paren' && token.value === '(') {
+      const node = this.parseOr();
+      const close = this.next('")"');
+      if (close.type !== 'paren' || close.value !== ')') {
+        throw new Error(`Expected ")" at position ${close.position}`);
+      }
+      return node;
+    }
+
+    if (token.type !== 'field' && (token.type !== 'word' || this.isKeyword(token))) {
+      throw new Error(`Expected a field name at position ${token.position}`);
+    }
+    const field = token.value;
+
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      if (!this.acceptKeyword('EMPTY')) {
+        throw new Error(`Expected EMPTY after IS at position ${this.peek()?.position ?? 'end'}`);
+      }
+      return { kind: 'empty', field, negated };
+    }
+
+    const operatorToken = this.next('an operator');
+    let operator: RecordFilterOperator;
+    if (operatorToken.type === 'operator') {
+      operator = operatorToken.value as RecordFilterOperator;
+    } else if (this.isKeyword(operatorToken, 'CONTAINS')) {
+      operator = 'contains';
+    } else {
+      throw new Error(`Expected an operator at position ${operatorToken.position}`);
+    }
+
+    const valueToken = this.next('a value');
+    let value: string | number | boolean;
+    if (valueToken.type === 'string' || valueToken.type === 'number') {
+      value = valueToken.value;
+    } else if (this.isKeyword(valueToken, 'TRUE') || this.isKeyword(valueToken, 'FALSE')) {
+      if (operator !== '=' && operator !== '!=') {
+        throw new Error(`TRUE and FALSE can only be compared with = or != (position ${valueToken.position})`);
+      }
+      value = valueToken.value.toUpperCase() === 'TRUE';
+    } else {
+      throw new Error(`Expected a value at position ${valueToken.position}`);
+    }
+
+    return { kind: 'compare', field, operator, value };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new Error(`Expected ${expected} at the end of the expression`);
+    }
+    return token;
+  }
+
+  private isKeyword(token: Token, keyword?: string): boolean {
+    if (token.type !== 'word') return false;
+    const upper = token.value.toUpperCase();
+    return keyword ? upper === keyword : KEYWORDS.includes(upper);
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token && this.isKeyword(token, keyword)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+}
+
+/**
+ * Parse a filter expression
+ * Throws an Error describing the first syntax problem
+ */
+export function parseRecordFilter(expression: string): RecordFilterNode {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    throw new Error('The filter expression is empty');
+  }
+  return new Parser(tokens).parse();
+}
+
+/**
+ * Names of the fields referenced by a parsed expression
+ */
+function getReferencedFields(node: RecordFilterNode): string[] {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return [...getReferencedFields(node.left), ...getReferencedFields(node.right)];
+    case 'not':
+      return getReferencedFields(node.operand);
+    default:
+      return [node.field];
+  }
+}
+
+/**
+ * Parse a "YYYY-MM-DD[ HH:mm[:ss]]" date in a time zone
+ * (the local time zone of the server when none is given)
+ */
+function parseDateLiteral(text: string, timeZone?: string): number | null {
+  const match = text.match(DATE_PATTERN);
+  if (!match) return null;
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  return fromDateParts({ yyyy: +year, MM: +month, dd: +day, HH: +hour, mm: +minute, ss: +second }, timeZone);
+}
+
+/**
+ * Values of a cell to compare (one per user, option or linked record)
+ */
+function getOperands(value: LarkCellValue, field: LarkField): Array<string | number | boolean> {
+  const parts = unwrapComputedValue(value);
+  // Text segments (plain text, mentions, links) form one string
+  if (TEXT_TYPE_NUMBERS.includes(field.type) && parts.length > 1) {
+    return [parts.map(String).join('')];
+  }
+  return parts;
+}
+
+/**
+ * Compare one cell value; returns false when the two cannot be compared
+ */
+function compareOperand(
+  operand: string | number | boolean,
+  operator: RecordFilterOperator,
+  value: string | number | boolean,
+  timeZone?: string
+): boolean {
+  if (operator === 'contains') {
+    return String(operand).toLowerCase().includes(String(value).toLowerCase());
+  }
+
+  let left: string | number | boolean = operand;
+  let right: string | number | boolean = value;
+  if (typeof value === 'boolean') {
+    left = typeof operand === 'boolean' ? operand : String(operand).toLowerCase() === 'true';
+  } else if (typeof value === 'number') {
+    left = typeof operand === 'number' ? operand : parseFloat(String(operand));
+    if (typeof operand === 'boolean' || Number.isNaN(left)) return false;
+  } else if (typeof operand === 'number') {
+    // Dates are stored as timestamps, so date strings are compared as timestamps
+    const date = parseDateLiteral(value, timeZone);
+    const number = value.trim() === '' ? NaN : Number(value);
+    if (date !== null) {
+      right = date;
+    } else if (!Number.isNaN(number)) {
+      right = number;
+    } else {
+      left = String(operand);
+    }
+  } else {
+    left = String(operand);
+  }
+
+  switch (operator) {
+    case '=': return left === right;
+    case '!=': return left !== right;
+    case '<': return left < right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '>=': return left >= right;
+  }
+}
+
+/**
+ * Evaluate a parsed expression against the values of one record
+ */
+function evaluate(
+  node: RecordFilterNode,
+  record: LarkRecord,
+  fields: Map<string, LarkField>,
+  timeZone?: string
+): boolean {
+  switch (node.kind) {
+    case 'and':
+      return evaluate(node.left, record, fields, timeZone) && evaluate(node.right, record, fields, timeZone);
+    case 'or':
+      return evaluate(node.left, record, fields, timeZone) || evaluate(node.right, record, fields, timeZone);
+    case 'not':
+      return !evaluate(node.operand, record, fields, timeZone);
+    case 'empty': {
+      const operands = getOperands(record.fields[node.field], fields.get(node.field)!);
+      const empty = operands.every((o) => o === '');
+      return node.negated ? !empty : empty;
+    }
+    case 'compare': {
+      const operands = getOperands(record.fields[node.field], fields.get(node.field)!);
+      if (node.operator === '!=') {
+        return !operands.some((o) => compareOperand(o, '=', node.value, timeZone));
+      }
+      return operands.some((o) => compareOperand(o, node.operator, node.value, timeZone));
+    }
+  }
+}
+
+/**
+ * Parse an expression and check it against the fields of a table
+ * Returns a predicate for the records of the table; throws an Error describing
+ * a syntax problem or a field that is not in the table.
+ * Dates in the expression are read in timeZone (the Base's), or the server's local time zone
+ */
+export function compileRecordFilter(
+  expression: string,
+  fields: LarkField[],
+  timeZone?: string
+): (record: LarkRecord) => boolean {
+  const node = parseRecordFilter(expression);
+  const fieldsByName = new Map(fields.map((f) => [f.field_name, f]));
+
+  for (const name of getReferencedFields(node)) {
+    if (!fieldsByName.has(name)) {
+      throw new Error(`Field "${name}" is not in the source table`);
+    }
+  }
+
+  return (record) => evaluate(node, record, fieldsByName, timeZone);
+}
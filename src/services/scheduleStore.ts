@@ -0,0 +1,97 @@
+/**
+ * Snapshot Schedule Store
+ *
+ * @description Persists recurring snapshot definitions and their run history
+ */
+
+import type { SnapshotSchedule } from '../types/index.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+// Check if running in serverless environment (Vercel)
+const IS_SERVERLESS = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+// Default schedule file location (next to .sessions.json)
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_SCHEDULES_FILE = join(__dirname, '../../.snapshot-schedules.json');
+
+/** Storage for snapshot schedules */
+export interface ScheduleStore {
+  get(id: string): Promise<SnapshotSchedule | null>;
+  list(): Promise<SnapshotSchedule[]>;
+  save(schedule: SnapshotSchedule): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * In-memory schedule store (schedules are lost when the process exits)
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  private schedules = new Map<string, SnapshotSchedule>();
+
+  async get(id: string): Promise<SnapshotSchedule | null> {
+    return this.schedules.get(id) ?? null;
+  }
+
+  async list(): Promise<SnapshotSchedule[]> {
+    return Array.from(this.schedules.values());
+  }
+
+  async save(schedule: SnapshotSchedule): Promise<void> {
+    this.schedules.set(schedule.id, schedule);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.schedules.delete(id);
+  }
+}
+
+/**
+ * File-backed schedule store (all schedules are kept in a single JSON file)
+ * The file is re-read on every call, so the server and the CLI daemon can share it
+ * @note Like .sessions.json, the file holds the owners' OAuth refresh tokens in plaintext:
+ * keep it out of version control and readable only by the server user
+ */
+export class FileScheduleStore implements ScheduleStore {
+  constructor(private filePath: string = DEFAULT_SCHEDULES_FILE) {}
+
+  private load(): Record<string, SnapshotSchedule> {
+    try {
+      if (existsSync(this.filePath)) {
+        return JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.error('Failed to read snapshot schedules:', (error as Error).message);
+    }
+    return {};
+  }
+
+  async get(id: string): Promise<SnapshotSchedule | null> {
+    return this.load()[id] ?? null;
+  }
+
+  async list(): Promise<SnapshotSchedule[]> {
+    return Object.values(this.load());
+  }
+
+  async save(schedule: SnapshotSchedule): Promise<void> {
+    const schedules = this.load();
+    schedules[schedule.id] = schedule;
+    writeFileSync(this.filePath, JSON.stringify(schedules, null, 2));
+  }
+
+  async delete(id: string): Promise<void> {
+    const schedules = this.load();
+    delete schedules[id];
+    writeFileSync(this.filePath, JSON.stringify(schedules, null, 2));
+  }
+}
+
+/**
+ * Create the default schedule store for the current environment
+ * (file-backed in development, in-memory in serverless)
+ */
+export function createDefaultScheduleStore(): ScheduleStore {
+  return IS_SERVERLESS ? new InMemoryScheduleStore() : new FileScheduleStore();
+}
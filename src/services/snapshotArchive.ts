@@ -0,0 +1,157 @@
+/**
+ * Snapshot Archive
+ *
+ * @description Reader and writer for the lossless snapshot archive format:
+ * a gzip-compressed JSON Lines bundle with a manifest, full field definitions
+ * and raw records (see docs/ARCHIVE_FORMAT.md)
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+import { readFile, writeFile } from 'fs/promises';
+import type {
+  LarkBase,
+  LarkField,
+  LarkRecord,
+  LarkTable,
+  SnapshotArchive,
+  SnapshotArchiveManifest,
+  SnapshotArchiveTable,
+} from '../types/index.js';
+
+/** Format name stored in the manifest */
+export const ARCHIVE_FORMAT = 'lark-base-snapshot';
+
+/** Current archive format version; readers reject newer versions */
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+/** File extension of snapshot archives */
+export const ARCHIVE_FILE_EXTENSION = '.jsonl.gz';
+
+/** Version written to the manifest (keep in sync with package.json) */
+export const SNAPSHOT_TOOL_VERSION = '0.1.0';
+
+/** A single line of the archive */
+type ArchiveLine =
+  | ({ type: 'manifest' } & SnapshotArchiveManifest)
+  | { type: 'table'; table: LarkTable; fields: LarkField[] }
+  | { type: 'record'; tableId: string; record: LarkRecord };
+
+/**
+ * Build an archive, deriving the manifest table list from the tables
+ */
+export function createArchive(
+  base: LarkBase,
+  sourceAppToken: string,
+  capturedAt: string,
+  tables: SnapshotArchiveTable[]
+): SnapshotArchive {
+  return {
+    manifest: {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_FORMAT_VERSION,
+      baseName: base.name,
+      sourceAppToken,
+      capturedAt,
+      toolVersion: SNAPSHOT_TOOL_VERSION,
+      tables: tables.map((t) => ({
+        tableId: t.table.table_id,
+        name: t.table.name,
+        fieldCount: t.fields.length,
+        recordCount: t.records.length,
+      })),
+    },
+    tables,
+  };
+}
+
+/**
+ * Serialize an archive to gzip-compressed JSON Lines
+ */
+export function writeArchive(archive: SnapshotArchive): Buffer {
+  const lines: string[] = [JSON.stringify({ type: 'manifest', ...archive.manifest })];
+
+  for (const { table, fields, records } of archive.tables) {
+    lines.push(JSON.stringify({ type: 'table', table, fields }));
+    for (const record of records) {
+      lines.push(JSON.stringify({ type: 'record', tableId: table.table_id, record }));
+    }
+  }
+
+  return gzipSync(Buffer.from(lines.join('\n') + '\n', 'utf-8'));
+}
+
+/**
+ * Parse a gzip-compressed JSON Lines archive
+ * Unknown line types are skipped so newer writers of the same version stay readable
+ */
+export function readArchive(data: Buffer): SnapshotArchive {
+  let text: string;
+  try {
+    text = gunzipSync(data).toString('utf-8');
+  } catch (error) {
+    throw new Error(`Invalid snapshot archive: not gzip data (${(error as Error).message})`);
+  }
+
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    throw new Error('Invalid snapshot archive: empty file');
+  }
+
+  const parsed = lines.map((line, idx) => {
+    try {
+      return JSON.parse(line) as ArchiveLine;
+    } catch {
+      throw new Error(`Invalid snapshot archive: line ${idx + 1} is not valid JSON`);
+    }
+  });
+
+  const first = parsed[0];
+  if (first.type !== 'manifest' || first.format !== ARCHIVE_FORMAT) {
+    throw new Error('Invalid snapshot archive: missing manifest');
+  }
+  if (first.version > ARCHIVE_FORMAT_VERSION) {
+    throw new Error(
+      `Snapshot archive version ${first.version} is newer than supported version ${ARCHIVE_FORMAT_VERSION}`
+    );
+  }
+  const { type: _type, ...manifest } = first;
+
+  const tables = new Map<string, SnapshotArchiveTable>();
+  for (const [idx, line] of parsed.entries()) {
+    if (line.type === 'table') {
+      tables.set(line.table.table_id, { table: line.table, fields: line.fields, records: [] });
+    } else if (line.type === 'record') {
+      const table = tables.get(line.tableId);
+      if (!table) {
+        throw new Error(`Invalid snapshot archive: line ${idx + 1} has a record of unknown table ${line.tableId}`);
+      }
+      table.records.push(line.record);
+    }
+  }
+
+  // A truncated archive has fewer records than its manifest lists
+  for (const entry of manifest.tables) {
+    const table = tables.get(entry.tableId);
+    if (!table || table.records.length !== entry.recordCount) {
+      throw new Error(
+        `Invalid snapshot archive: table ${entry.name} has ${table?.records.length ?? 0} of ${entry.recordCount} records`
+      );
+    }
+  }
+
+  return { manifest, tables: Array.from(tables.values()) };
+}
+
+/**
+ * Write an archive to a file
+ */
+export async function saveArchive(archive: SnapshotArchive, path: string): Promise<void> {
+  await writeFile(path, writeArchive(archive));
+}
+
+/**
+ * Read an archive from a file
+ */
+export async function loadArchive(path: string): Promise<SnapshotArchive> {
+  return readArchive(await readFile(path));
+}
@@ -0,0 +1,318 @@
+/**
+ * Snapshot Diff
+ *
+ * @description Compares two snapshot Bases / tables, or a snapshot and the live source,
+ * matching records by their source record_id
+ */
+
+import { LarkApiClient } from './larkApiClient.js';
+import { toComparableText } from './cellText.js';
+import { formatValueAsText, getFieldFormat, isValidTimeZone, type FieldFormat } from './fieldFormatting.js';
+import type {
+  LarkConfig,
+  LarkRecord,
+  LarkTable,
+  SnapshotDiff,
+  SnapshotDiffRecord,
+  SnapshotFieldChange,
+  SnapshotRecordChange,
+  SnapshotTableDiff,
+} from '../types/index.js';
+import { SOURCE_RECORD_ID_FIELD } from '../types/index.js';
+
+/** Date suffix appended to snapshot table names */
+const SNAPSHOT_SUFFIX_PATTERN = /_snap_\d{8}$/;
+
+/** Default tables Lark creates in a new Base */
+const DEFAULT_TABLE_NAMES = ['Table', 'テーブル', '数据表'];
+
+/** Records of one table, keyed for comparison */
+export interface DiffTableInput {
+  name: string;
+  fieldNames: string[];
+  records: Array<{ sourceRecordId: string; fields: Record<string, unknown> }>;
+  /** Set when the records of the table could not be read */
+  error?: string;
+  /** Display formatting of the number and date fields, by field name */
+  fieldFormats?: Record<string, FieldFormat>;
+  /** Time zone of the Base the records were read from */
+  timeZone?: string;
+}
+
+/** One side of a diff as read from Lark */
+interface DiffSide {
+  url: string;
+  name: string;
+  /** Set when the URL points at a single table */
+  tableId: string | null;
+  tables: DiffTableInput[];
+}
+
+/**
+ * Strip the snapshot date suffix so tables from different runs can be matched
+ */
+export function getBaseTableName(name: string): string {
+  return name.replace(SNAPSHOT_SUFFIX_PATTERN, '');
+}
+
+/**
+ * Check whether a raw number or date and a value frozen to formatted text are the same,
+ * e.g. 1200 in a Currency field of the live source and "¥1,200" frozen by a snapshot
+ */
+function isSameFormattedValue(
+  beforeValue: unknown,
+  afterValue: unknown,
+  before: DiffTableInput,
+  after: DiffTableInput,
+  field: string
+): boolean {
+  const sides: Array<[unknown, DiffTableInput, unknown]> = [
+    [beforeValue, before, afterValue],
+    [afterValue, after, beforeValue],
+  ];
+  for (const [raw, rawSide, text] of sides) {
+    const format = rawSide.fieldFormats?.[field];
+    // The text was formatted in the time zone of the Base holding the raw value
+    if (format && typeof raw !== 'string' && typeof text === 'string') {
+      return formatValueAsText(raw, format, rawSide.timeZone) === text;
+    }
+  }
+  return false;
+}
+
+/**
+ * Compare two versions of a table
+ * Fields that exist on only one side are reported but not compared per record
+ */
+export function diffTables(
+  before: DiffTableInput | null,
+  after: DiffTableInput | null
+): SnapshotTableDiff {
+  const tableName = getBaseTableName((after ?? before)!.name);
+
+  // A side that could not be read would show every record as added or removed
+  const error = before?.error ?? after?.error;
+  if (error) {
+    return {
+      tableName,
+      status: 'error',
+      error,
+      added: [],
+      removed: [],
+      modified: [],
+      fieldsAdded: [],
+      fieldsRemoved: [],
+    };
+  }
+  const beforeFields = (before?.fieldNames ?? []).filter((f) => f !== SOURCE_RECORD_ID_FIELD);
+  const afterFields = (after?.fieldNames ?? []).filter((f) => f !== SOURCE_RECORD_ID_FIELD);
+  const sharedFields = afterFields.filter((f) => beforeFields.includes(f));
+
+  const toDiffRecord = (
+    record: DiffTableInput['records'][number],
+    fieldNames: string[]
+  ): SnapshotDiffRecord => ({
+    sourceRecordId: record.sourceRecordId,
+    fields: Object.fromEntries(fieldNames.map((f) => [f, toComparableText(record.fields[f])])),
+  });
+
+  const beforeById = new Map((before?.records ?? []).map((r) => [r.sourceRecordId, r]));
+  const afterIds = new Set((after?.records ?? []).map((r) => r.sourceRecordId));
+
+  const added: SnapshotDiffRecord[] = [];
+  const modified: SnapshotRecordChange[] = [];
+
+  for (const record of after?.records ?? []) {
+    const previous = beforeById.get(record.sourceRecordId);
+    if (!previous) {
+      added.push(toDiffRecord(record, afterFields));
+      continue;
+    }
+
+    const changes: SnapshotFieldChange[] = [];
+    for (const field of sharedFields) {
+      const beforeValue = toComparableText(previous.fields[field]);
+      const afterValue = toComparableText(record.fields[field]);
+      if (
+        beforeValue !== afterValue &&
+        !isSameFormattedValue(previous.fields[field], record.fields[field], before!, after!, field)
+      ) {
+        changes.push({ field, before: beforeValue, after: afterValue });
+      }
+    }
+    if (changes.length > 0) {
+      modified.push({ sourceRecordId: record.sourceRecordId, changes });
+    }
+  }
+
+  const removed = (before?.records ?? [])
+    .filter((r) => !afterIds.has(r.sourceRecordId))
+    .map((r) => toDiffRecord(r, beforeFields));
+
+  return {
+    tableName,
+    status: !before ? 'added' : !after ? 'removed' : 'compared',
+    added,
+    removed,
+    modified,
+    fieldsAdded: before && after ? afterFields.filter((f) => !beforeFields.includes(f)) : [],
+    fieldsRemoved: before && after ? beforeFields.filter((f) => !afterFields.includes(f)) : [],
+  };
+}
+
+/**
+ * Render a diff as a human-readable summary
+ */
+export function formatDiffSummary(diff: SnapshotDiff): string {
+  const lines: string[] = [
+    `Diff: ${diff.before.name} -> ${diff.after.name}`,
+    `Tables compared: ${diff.summary.tablesCompared}`,
+    `Records: ${diff.summary.recordsAdded} added, ${diff.summary.recordsRemoved} removed, ` +
+      `${diff.summary.recordsModified} modified`,
+  ];
+
+  for (const table of diff.tables) {
+    lines.push('');
+    if (table.status === 'error') {
+      lines.push(`[${table.tableName}] could not be compared: ${table.error}`);
+      continue;
+    }
+    if (table.status !== 'compared') {
+      lines.push(`[${table.tableName}] table ${table.status}`);
+      continue;
+    }
+
+    lines.push(
+      `[${table.tableName}] +${table.added.length} -${table.removed.length} ~${table.modified.length}`
+    );
+    if (table.fieldsAdded.length > 0) {
+      lines.push(`  fields added: ${table.fieldsAdded.join(', ')}`);
+    }
+    if (table.fieldsRemoved.length > 0) {
+      lines.push(`  fields removed: ${table.fieldsRemoved.join(', ')}`);
+    }
+    for (const record of table.added) {
+      lines.push(`  + ${record.sourceRecordId}`);
+    }
+    for (const record of table.removed) {
+      lines.push(`  - ${record.sourceRecordId}`);
+    }
+    for (const record of table.modified) {
+      lines.push(`  ~ ${record.sourceRecordId}`);
+      for (const change of record.changes) {
+        lines.push(`      ${change.field}: ${change.before ?? '(empty)'} -> ${change.after ?? '(empty)'}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export class SnapshotDiffService {
+  private client: LarkApiClient;
+
+  constructor(config: LarkConfig, userAccessToken?: string) {
+    this.client = new LarkApiClient(config, userAccessToken);
+  }
+
+  /**
+   * Compare two Bases or tables given by URL
+   * When both URLs point at a table the two tables are compared directly,
+   * otherwise tables are matched by name without the snapshot date suffix
+   */
+  async diff(beforeUrl: string, afterUrl: string): Promise<SnapshotDiff> {
+    const before = await this.readSide(beforeUrl);
+    const after = await this.readSide(afterUrl);
+
+    const pairs: Array<[DiffTableInput | null, DiffTableInput | null]> = [];
+    if (before.tableId && after.tableId) {
+      pairs.push([before.tables[0] ?? null, after.tables[0] ?? null]);
+    } else {
+      const beforeByName = new Map(before.tables.map((t) => [getBaseTableName(t.name), t]));
+      for (const table of after.tables) {
+        const name = getBaseTableName(table.name);
+        pairs.push([beforeByName.get(name) ?? null, table]);
+        beforeByName.delete(name);
+      }
+      for (const table of beforeByName.values()) {
+        pairs.push([table, null]);
+      }
+    }
+
+    const tables = pairs
+      .filter(([b, a]) => b || a)
+      .map(([b, a]) => diffTables(b, a));
+
+    return {
+      before: { url: beforeUrl, name: before.name },
+      after: { url: afterUrl, name: after.name },
+      tables,
+      summary: {
+        tablesCompared: tables.filter((t) => t.status === 'compared').length,
+        recordsAdded: tables.reduce((sum, t) => sum + t.added.length, 0),
+        recordsRemoved: tables.reduce((sum, t) => sum + t.removed.length, 0),
+        recordsModified: tables.reduce((sum, t) => sum + t.modified.length, 0),
+      },
+    };
+  }
+
+  /**
+   * Read every table (or the table in the URL) of one side
+   */
+  private async readSide(url: string): Promise<DiffSide> {
+    const appToken = await this.client.resolveBaseAppToken(url);
+    const tableId = this.client.parseTableIdFromUrl(url);
+    const base = await this.client.getBase(appToken);
+    const timeZone = base.time_zone && isValidTimeZone(base.time_zone) ? base.time_zone : undefined;
+
+    let tables: LarkTable[] = await this.client.listTablesWithFallback(appToken, tableId);
+    tables = tableId
+      ? tables.filter((t) => t.table_id === tableId)
+      : tables.filter((t) => !DEFAULT_TABLE_NAMES.includes(t.name));
+
+    const inputs: DiffTableInput[] = [];
+    for (const table of tables) {
+      console.log(`Reading ${base.name} / ${table.name} for diff`);
+      const fields = await this.client.listFieldsWithFallback(appToken, table.table_id);
+
+      // An unreadable table is reported instead of being diffed as empty
+      let records: LarkRecord[];
+      try {
+        records = await this.client.listRecords(appToken, table.table_id);
+      } catch (error) {
+        const message = (error as Error).message;
+        console.error(`Failed to read records of ${base.name} / ${table.name}:`, message);
+        inputs.push({
+          name: table.name,
+          fieldNames: fields.map((f) => f.field_name),
+          records: [],
+          error: `Failed to read records of ${base.name} / ${table.name}: ${message}`,
+        });
+        continue;
+      }
+      const hasSourceId = fields.some((f) => f.field_name === SOURCE_RECORD_ID_FIELD);
+      const fieldFormats: Record<string, FieldFormat> = {};
+      for (const field of fields) {
+        const format = getFieldFormat(field);
+        if (format) fieldFormats[field.field_name] = format;
+      }
+
+      inputs.push({
+        name: table.name,
+        fieldNames: fields.map((f) => f.field_name),
+        fieldFormats,
+        timeZone,
+        records: records.map((record) => ({
+          // Snapshot tables carry the source record_id; the live source uses its own
+          sourceRecordId: (hasSourceId && toComparableText(record.fields[SOURCE_RECORD_ID_FIELD])) ||
+            record.record_id,
+          fields: record.fields,
+        })),
+      });
+    }
+
+    return { url, name: base.name, tableId, tables: inputs };
+  }
+}
+
+export default SnapshotDiffService;
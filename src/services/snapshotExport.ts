@@ -0,0 +1,93 @@
+/**
+ * Snapshot Export
+ *
+ * @description Renders a frozen snapshot to local files in the requested format
+ * and writes them to disk or bundles them for download
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { renderCsvFiles, toFileName } from './csvExporter.js';
+import { toXlsx } from './xlsxExporter.js';
+import { toSqlite } from './sqliteExporter.js';
+import { loadViewerAssets, renderViewerHtml, toViewerData } from './htmlViewer.js';
+import { createZip } from './zipWriter.js';
+import type { FrozenSnapshot, SnapshotExportFile, SnapshotExportFormat } from '../types/index.js';
+
+/** Formats accepted by the CLI and the export route */
+export const SNAPSHOT_EXPORT_FORMATS: SnapshotExportFormat[] = ['csv', 'xlsx', 'sqlite', 'html'];
+
+/**
+ * Render the files of an export
+ */
+export async function renderSnapshotExport(
+  snapshot: FrozenSnapshot,
+  format: SnapshotExportFormat
+): Promise<SnapshotExportFile[]> {
+  switch (format) {
+    case 'csv':
+      return renderCsvFiles(snapshot);
+    case 'xlsx':
+      return [{
+        name: `${getExportName(snapshot.sourceBase.name, snapshot.createdAt)}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        data: toXlsx(snapshot),
+      }];
+    case 'sqlite':
+      return [{
+        name: `${getExportName(snapshot.sourceBase.name, snapshot.createdAt)}.sqlite`,
+        contentType: 'application/vnd.sqlite3',
+        data: await toSqlite(snapshot),
+      }];
+    case 'html':
+      return [{
+        name: `${getExportName(snapshot.sourceBase.name, snapshot.createdAt)}.html`,
+        contentType: 'text/html; charset=utf-8',
+        data: Buffer.from(renderViewerHtml(toViewerData(snapshot), await loadViewerAssets()), 'utf-8'),
+      }];
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * Name used for export folders and bundles: `<Base name>_snap_<YYYYMMDD>`
+ */
+export function getExportName(baseName: string, capturedAt: string): string {
+  const date = new Date(capturedAt);
+  const suffix = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  return `${toFileName(baseName)}_snap_${suffix}`;
+}
+
+/**
+ * Return a single file for download, zipping the files when there are several
+ */
+export function bundleExportFiles(files: SnapshotExportFile[], name: string): SnapshotExportFile {
+  if (files.length === 1) {
+    return files[0];
+  }
+  return {
+    name: `${name}.zip`,
+    contentType: 'application/zip',
+    data: createZip(files),
+  };
+}
+
+/**
+ * Write export files into a directory (created if missing)
+ * @returns Paths of the written files
+ */
+export async function writeExportFiles(
+  files: SnapshotExportFile[],
+  outputDir: string
+): Promise<string[]> {
+  await mkdir(outputDir, { recursive: true });
+
+  const paths: string[] = [];
+  for (const file of files) {
+    const path = join(outputDir, file.name);
+    await writeFile(path, file.data);
+    paths.push(path);
+  }
+  return paths;
+}
@@ -0,0 +1,146 @@
+/**
+ * Snapshot Job Runner
+ *
+ * @description Runs SnapshotService in the background and keeps the job
+ * status in a JobStore while it runs
+ * @note Serverless functions are frozen once the response is sent, so the
+ * snapshot routes wait for the job there (see sendJob in routes/snapshot.ts)
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { createDefaultJobStore, type JobStore } from './jobStore.js';
+import type { SnapshotService } from './snapshotService.js';
+import type {
+  SnapshotResult,
+  SnapshotJob,
+  SnapshotJobEvent,
+  SnapshotProgressEvent,
+} from '../types/index.js';
+
+export class SnapshotJobRunner {
+  /** Jobs started by this process that have not finished yet */
+  private running = new Map<string, Promise<void>>();
+  /** Emits SnapshotJobEvents under the job id */
+  private events = new EventEmitter();
+
+  constructor(private store: JobStore = createDefaultJobStore()) {}
+
+  /**
+   * Queue a snapshot job and start it without waiting for it to finish
+   * @param operation - Runs the snapshot on the service, e.g. createSnapshot or resumeSnapshot
+   */
+  async start(
+    service: SnapshotService,
+    operation: (service: SnapshotService) => Promise<SnapshotResult>,
+    ownerId?: string
+  ): Promise<SnapshotJob> {
+    const now = new Date().toISOString();
+    const job: SnapshotJob = {
+      id: randomUUID(),
+      state: 'queued',
+      ownerId,
+      recordsWritten: 0,
+      errors: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(job);
+    const queued = { ...job };
+
+    const run = this.run(job, service, operation).finally(() => this.running.delete(job.id));
+    this.running.set(job.id, run);
+
+    return queued;
+  }
+
+  /**
+   * Get the current status of a job
+   */
+  async getJob(id: string): Promise<SnapshotJob | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Follow the events of a job running in this process
+   * Returns an unsubscribe function, or null if the job is not running here
+   */
+  subscribe(id: string, listener: (event: SnapshotJobEvent) => void): (() => void) | null {
+    if (!this.running.has(id)) {
+      return null;
+    }
+    this.events.on(id, listener);
+    return () => this.events.off(id, listener);
+  }
+
+  /**
+   * Wait for a job started by this runner to finish
+   */
+  async waitForJob(id: string): Promise<SnapshotJob | null> {
+    await this.running.get(id);
+    return this.store.get(id);
+  }
+
+  private async run(
+    job: SnapshotJob,
+    service: SnapshotService,
+    operation: (service: SnapshotService) => Promise<SnapshotResult>
+  ): Promise<void> {
+    service.setProgressListener((event) => {
+      this.applyEvent(job, event);
+      void this.persist(job);
+      this.events.emit(job.id, event);
+    });
+
+    job.state = 'running';
+    await this.persist(job);
+
+    try {
+      const result = await operation(service);
+      job.result = result;
+      // Errors reported by progress events are already in the job
+      job.errors.push(...result.errors.filter((error) => !job.errors.includes(error)));
+      job.state = result.success ? 'completed' : 'failed';
+    } catch (error) {
+      job.errors.push({ message: (error as Error).message });
+      job.state = 'failed';
+    } finally {
+      service.setProgressListener(null);
+      job.currentTable = undefined;
+    }
+
+    await this.persist(job);
+    this.events.emit(job.id, { type: 'job_finished', job: structuredClone(job) });
+    console.log(`Snapshot job ${job.id} ${job.state}`);
+  }
+
+  /**
+   * Update the job status from a progress event
+   */
+  private applyEvent(job: SnapshotJob, event: SnapshotProgressEvent): void {
+    switch (event.type) {
+      case 'table_started':
+        job.currentTable = event.tableName;
+        break;
+      case 'batch_written':
+        job.recordsWritten += event.recordsWritten;
+        break;
+      case 'table_finished':
+        job.currentTable = undefined;
+        break;
+      case 'error':
+        job.errors.push(event.error);
+        break;
+    }
+  }
+
+  private async persist(job: SnapshotJob): Promise<void> {
+    job.updatedAt = new Date().toISOString();
+    try {
+      // Save a copy so later changes to the job are not shared with the store
+      await this.store.save(structuredClone(job));
+    } catch (error) {
+      console.error(`Failed to save snapshot job ${job.id}:`, (error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Snapshot Restore
+ *
+ * @description Writes field values from a snapshot back to the source table,
+ * matching snapshot rows to source records by source record_id or primary field
+ */
+
+import { LarkApiClient } from './larkApiClient.js';
+import { isComputedField } from './fieldTypeInference.js';
+import { getFieldFormat, parseFormattedValue } from './fieldFormatting.js';
+import { resolveUiType } from './fieldTypeMapping.js';
+import { getBaseTableName } from './snapshotDiff.js';
+import { toComparableText } from './cellText.js';
+import type {
+  LarkConfig,
+  LarkField,
+  LarkFieldType,
+  LarkRecord,
+  LarkTable,
+  SnapshotError,
+  SnapshotFieldChange,
+  SnapshotRecordChange,
+  SnapshotRestoreOptions,
+  SnapshotRestoreResult,
+  SnapshotRestoreTableResult,
+} from '../types/index.js';
+import { SOURCE_RECORD_ID_FIELD } from '../types/index.js';
+
+/** Fields Lark fills in itself */
+const SYSTEM_FIELD_TYPES: LarkFieldType[] = [
+  'AutoNumber',
+  'CreatedTime',
+  'ModifiedTime',
+  'CreatedUser',
+  'ModifiedUser',
+  'Button',
+];
+
+/** Fields the snapshot only keeps as text, which cannot be written back as-is */
+const FROZEN_FIELD_TYPES: LarkFieldType[] = [
+  'SingleLink',
+  'DuplexLink',
+  'User',
+  'Attachment',
+  'Location',
+];
+
+/** Fields written as plain text */
+const TEXT_FIELD_TYPES: LarkFieldType[] = ['Text', 'Phone', 'Email', 'Barcode', 'SingleSelect'];
+
+/** Default tables Lark creates in a new Base */
+const DEFAULT_TABLE_NAMES = ['Table', 'テーブル', '数据表'];
+
+/**
+ * Get the reason a source field cannot be restored, or null if it is writable
+ */
+export function getRestoreSkipReason(field: LarkField): string | null {
+  if (isComputedField(field)) {
+    return 'computed field';
+  }
+  if (SYSTEM_FIELD_TYPES.includes(resolveUiType(field) ?? field.ui_type)) {
+    return 'system field';
+  }
+  if (FROZEN_FIELD_TYPES.includes(field.ui_type)) {
+    return 'stored as text in the snapshot';
+  }
+  return null;
+}
+
+/** Fields whose values are numbers (dates are Unix timestamps in ms) */
+const NUMERIC_FIELD_TYPES: LarkFieldType[] = ['Number', 'DateTime', 'Progress', 'Currency', 'Rating'];
+
+/**
+ * Convert a snapshot cell value to the value written to the source field
+ * Returns undefined when the value cannot be converted (e.g. text that is not
+ * a number in the source field's format); the field is then left untouched
+ */
+export function toRestoreValue(field: LarkField, value: unknown, timeZone?: string): unknown {
+  if (toComparableText(value) === null) {
+    return field.ui_type === 'Checkbox' ? false : null;
+  }
+
+  if (TEXT_FIELD_TYPES.includes(field.ui_type)) {
+    return toComparableText(value);
+  }
+
+  if (field.ui_type === 'MultiSelect') {
+    return Array.isArray(value) ? value.map((v) => toComparableText(v)) : [toComparableText(value)];
+  }
+
+  if (field.ui_type === 'Checkbox') {
+    return value === true || value === 'true';
+  }
+
+  // Numbers and dates frozen to text keep the source field's display format ("¥1,000", "50%", "2024/01/05")
+  if (typeof value === 'string' && NUMERIC_FIELD_TYPES.includes(field.ui_type)) {
+    const format = getFieldFormat(field);
+    return (format && parseFormattedValue(value, format, timeZone)) ?? undefined;
+  }
+
+  return value;
+}
+
+export class SnapshotRestoreService {
+  private client: LarkApiClient;
+  private errors: SnapshotError[] = [];
+
+  constructor(config: LarkConfig, userAccessToken?: string) {
+    this.client = new LarkApiClient(config, userAccessToken);
+  }
+
+  /**
+   * Restore source table values from a snapshot
+   * Tables are matched like the diff: directly when both URLs point at a table,
+   * otherwise by name without the snapshot date suffix
+   */
+  async restore(options: SnapshotRestoreOptions): Promise<SnapshotRestoreResult> {
+    this.errors = [];
+
+    const snapshotAppToken = await this.client.resolveBaseAppToken(options.snapshotUrl);
+    const sourceAppToken = await this.client.resolveBaseAppToken(options.sourceUrl);
+    const snapshotTableId = this.client.parseTableIdFromUrl(options.snapshotUrl);
+    const sourceTableId = this.client.parseTableIdFromUrl(options.sourceUrl);
+    // Dates frozen to text were formatted in the time zone of the source Base
+    const { time_zone: timeZone } = await this.client.getBase(sourceAppToken);
+
+    const snapshotTables = await this.listTables(snapshotAppToken, snapshotTableId);
+    const sourceTables = await this.listTables(sourceAppToken, sourceTableId);
+
+    const pairs: Array<[LarkTable, LarkTable]> = [];
+    if (snapshotTableId && sourceTableId) {
+      if (snapshotTables[0] && sourceTables[0]) {
+        pairs.push([snapshotTables[0], sourceTables[0]]);
+      }
+    } else {
+      for (const snapshotTable of snapshotTables) {
+        const name = getBaseTableName(snapshotTable.name);
+        const sourceTable = sourceTables.find((t) => t.name === name);
+        if (sourceTable) {
+          pairs.push([snapshotTable, sourceTable]);
+        } else {
+          this.errors.push({ table: name, message: 'No source table with this name' });
+        }
+      }
+    }
+
+    const tables: SnapshotRestoreTableResult[] = [];
+    let recordsUpdated = 0;
+
+    for (const [snapshotTable, sourceTable] of pairs) {
+      try {
+        const result = await this.restoreTable(
+          snapshotAppToken,
+          snapshotTable,
+          sourceAppToken,
+          sourceTable,
+          options,
+          timeZone
+        );
+        tables.push(result);
+        if (!options.dryRun) {
+          recordsUpdated += result.changes.length;
+        }
+      } catch (error) {
+        this.errors.push({
+          table: sourceTable.name,
+          message: (error as Error).message,
+        });
+      }
+    }
+
+    return { dryRun: options.dryRun, tables, recordsUpdated, errors: this.errors };
+  }
+
+  private async listTables(appToken: string, tableId: string | null): Promise<LarkTable[]> {
+    const tables = await this.client.listTablesWithFallback(appToken, tableId);
+    return tableId
+      ? tables.filter((t) => t.table_id === tableId)
+      : tables.filter((t) => !DEFAULT_TABLE_NAMES.includes(t.name));
+  }
+
+  /**
+   * Compare a snapshot table with its source table and write back changed values
+   */
+  private async restoreTable(
+    snapshotAppToken: string,
+    snapshotTable: LarkTable,
+    sourceAppToken: string,
+    sourceTable: LarkTable,
+    options: SnapshotRestoreOptions,
+    timeZone?: string
+  ): Promise<SnapshotRestoreTableResult> {
+    console.log(`Restoring ${sourceTable.name} from ${snapshotTable.name}${options.dryRun ? ' (dry run)' : ''}`);
+
+    const snapshotFields = await this.client.listFieldsWithFallback(snapshotAppToken, snapshotTable.table_id);
+    const sourceFields = await this.client.listFieldsWithFallback(sourceAppToken, sourceTable.table_id);
+    // A table whose records cannot be read is not restored (an empty read would match nothing)
+    const snapshotRecords = await this.client.listRecords(snapshotAppToken, snapshotTable.table_id);
+    const sourceRecords = await this.client.listRecords(sourceAppToken, sourceTable.table_id);
+
+    // Decide which fields are written back
+    const snapshotFieldNames = new Set(snapshotFields.map((f) => f.field_name));
+    const skippedFields: SnapshotRestoreTableResult['skippedFields'] = [];
+    const restoreFields: LarkField[] = [];
+    for (const field of sourceFields) {
+      if (options.fields && !options.fields.includes(field.field_name)) continue;
+
+      const reason = !snapshotFieldNames.has(field.field_name)
+        ? 'not in snapshot'
+        : getRestoreSkipReason(field);
+      if (reason) {
+        skippedFields.push({ field: field.field_name, reason });
+      } else {
+        restoreFields.push(field);
+      }
+    }
+    for (const name of options.fields ?? []) {
+      if (!sourceFields.some((f) => f.field_name === name)) {
+        skippedFields.push({ field: name, reason: 'not in source table' });
+      }
+    }
+
+    // Match snapshot rows to source records
+    const hasSourceId = snapshotFieldNames.has(SOURCE_RECORD_ID_FIELD);
+    const primaryField = sourceFields.find((f) => f.is_primary);
+    if (!hasSourceId && !primaryField) {
+      throw new Error(`Cannot match records: no ${SOURCE_RECORD_ID_FIELD} column or primary field`);
+    }
+    const findSourceRecord = hasSourceId
+      ? this.matchBySourceRecordId(sourceRecords)
+      : this.matchByPrimaryField(sourceRecords, primaryField!.field_name, sourceTable.name);
+
+    const changes: SnapshotRecordChange[] = [];
+    const updates: Array<{ record_id: string; fields: Record<string, unknown> }> = [];
+    const unmatchedRecords: string[] = [];
+
+    for (const snapshotRecord of snapshotRecords) {
+      const sourceRecord = findSourceRecord(snapshotRecord);
+      if (!sourceRecord) {
+        unmatchedRecords.push(snapshotRecord.record_id);
+        continue;
+      }
+
+      const fieldChanges: SnapshotFieldChange[] = [];
+      const fields: Record<string, unknown> = {};
+      for (const field of restoreFields) {
+        const before = toComparableText(sourceRecord.fields[field.field_name]);
+        const after = toComparableText(snapshotRecord.fields[field.field_name]);
+        if (before === after) continue;
+
+        const value = toRestoreValue(field, snapshotRecord.fields[field.field_name], timeZone);
+        if (value === undefined) {
+          this.errors.push({
+            table: sourceTable.name,
+            record: sourceRecord.record_id,
+            field: field.field_name,
+            message: `Snapshot value "${after}" cannot be converted to ${field.ui_type}, the field is not restored`,
+          });
+          continue;
+        }
+        fieldChanges.push({ field: field.field_name, before, after });
+        fields[field.field_name] = value;
+      }
+
+      if (fieldChanges.length > 0) {
+        changes.push({ sourceRecordId: sourceRecord.record_id, changes: fieldChanges });
+        updates.push({ record_id: sourceRecord.record_id, fields });
+      }
+    }
+
+    if (!options.dryRun && updates.length > 0) {
+      await this.client.updateRecords(sourceAppToken, sourceTable.table_id, updates);
+      console.log(`Restored ${updates.length} records in ${sourceTable.name}`);
+    }
+
+    return {
+      tableName: sourceTable.name,
+      matchedBy: hasSourceId ? 'source_record_id' : 'primary_field',
+      changes,
+      skippedFields,
+      unmatchedRecords,
+    };
+  }
+
+  private matchBySourceRecordId(sourceRecords: LarkRecord[]) {
+    const byId = new Map(sourceRecords.map((r) => [r.record_id, r]));
+    return (snapshotRecord: LarkRecord): LarkRecord | undefined => {
+      const id = toComparableText(snapshotRecord.fields[SOURCE_RECORD_ID_FIELD]);
+      return id ? byId.get(id) : undefined;
+    };
+  }
+
+  /**
+   * Match by primary field text; values shared by several source records are not matched
+   */
+  private matchByPrimaryField(sourceRecords: LarkRecord[], primaryFieldName: string, tableName: string) {
+    const byKey = new Map<string, LarkRecord | null>();
+    for (const record of sourceRecords) {
+      const key = toComparableText(record.fields[primaryFieldName]);
+      if (key === null) continue;
+      byKey.set(key, byKey.has(key) ? null : record);
+    }
+
+    for (const [key, record] of byKey) {
+      if (record === null) {
+        this.errors.push({
+          table: tableName,
+          field: primaryFieldName,
+          message: `Primary field value "${key}" is not unique, records with it are not restored`,
+        });
+      }
+    }
+
+    return (snapshotRecord: LarkRecord): LarkRecord | undefined => {
+      const key = toComparableText(snapshotRecord.fields[primaryFieldName]);
+      return key === null ? undefined : byKey.get(key) ?? undefined;
+    };
+  }
+}
+
+export default SnapshotRestoreService;
@@ -0,0 +1,271 @@
+/**
+ * Snapshot Scheduler
+ *
+ * @description Runs stored snapshot schedules when their cron expression is due
+ * and applies their retention rule. Runs inside the Express server process
+ * (SCHEDULER_ENABLED=true) or as a standalone CLI daemon.
+ */
+
+import { LarkApiClient } from './larkApiClient.js';
+import { SnapshotService } from './snapshotService.js';
+import { getNextRunTime, isValidCron } from './cron.js';
+import { createDefaultScheduleStore, type ScheduleStore } from './scheduleStore.js';
+import type { AuthService } from './authService.js';
+import type { CheckpointStore } from './checkpointStore.js';
+import type {
+  LarkConfig,
+  SnapshotSchedule,
+  ScheduledSnapshotRun,
+} from '../types/index.js';
+
+/** Check for due schedules once a minute (cron has minute precision) */
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/** Name prefix of Bases flagged by a retention rule */
+const EXPIRED_PREFIX = '[expired] ';
+
+/** Number of runs kept in a schedule's history (runs with a live Base are always kept) */
+const MAX_RUN_HISTORY = 50;
+
+/** Optional collaborators of SnapshotScheduler */
+export interface SnapshotSchedulerOptions {
+  store?: ScheduleStore;
+  /** Refreshes the owner's OAuth token; without it schedules run with app credentials */
+  authService?: AuthService;
+  checkpointStore?: CheckpointStore;
+  /** How often due schedules are checked */
+  intervalMs?: number;
+}
+
+/**
+ * Fill the placeholders of a target Base name template
+ */
+export function renderNameTemplate(template: string, date: Date, scheduleName: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const values: Record<string, string> = {
+    name: scheduleName,
+    yyyy: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+  };
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Validate the user-editable fields of a schedule
+ * Returns a list of problems (empty when valid)
+ */
+export function validateSchedule(schedule: Partial<SnapshotSchedule>): string[] {
+  const problems: string[] = [];
+  // Request bodies are untyped, so every value is checked before it is persisted
+  const isString = (value: unknown) => typeof value === 'string';
+
+  for (const key of ['name', 'sourceBaseUrl', 'nameTemplate'] as const) {
+    if (!schedule[key]) problems.push(`${key} is required`);
+    else if (!isString(schedule[key])) problems.push(`${key} must be a string`);
+  }
+  if (!isString(schedule.cron) || !isValidCron(schedule.cron!)) problems.push('cron must be a valid cron expression');
+
+  if (schedule.selectedTableIds !== undefined &&
+      (!Array.isArray(schedule.selectedTableIds) || !schedule.selectedTableIds.every(isString))) {
+    problems.push('selectedTableIds must be an array of table IDs');
+  }
+  for (const key of ['enabled', 'grantAdminPermission', 'preserveAttachments'] as const) {
+    if (schedule[key] !== undefined && typeof schedule[key] !== 'boolean') {
+      problems.push(`${key} must be true or false`);
+    }
+  }
+
+  if (schedule.retention !== undefined) {
+    if (typeof schedule.retention !== 'object' || schedule.retention === null || Array.isArray(schedule.retention)) {
+      problems.push('retention must be an object with keep and action');
+    } else {
+      const { keep, action } = schedule.retention;
+      if (!Number.isInteger(keep) || keep < 1) problems.push('retention.keep must be a positive integer');
+      if (action !== 'delete' && action !== 'flag') problems.push('retention.action must be "delete" or "flag"');
+    }
+  }
+
+  return problems;
+}
+
+export class SnapshotScheduler {
+  private store: ScheduleStore;
+  private authService?: AuthService;
+  private checkpointStore?: CheckpointStore;
+  private intervalMs: number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(private larkConfig: LarkConfig, options: SnapshotSchedulerOptions = {}) {
+    this.store = options.store ?? createDefaultScheduleStore();
+    this.authService = options.authService;
+    this.checkpointStore = options.checkpointStore;
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+  }
+
+  /**
+   * Start checking for due schedules
+   */
+  start(): void {
+    if (this.timer) return;
+
+    console.log(`Snapshot scheduler started (checking every ${this.intervalMs / 1000}s)`);
+    void this.tick();
+    this.timer = setInterval(() => void this.tick(), this.intervalMs);
+  }
+
+  /**
+   * Stop checking for due schedules (a running snapshot is not interrupted)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('Snapshot scheduler stopped');
+    }
+  }
+
+  /**
+   * Run every enabled schedule whose next run time has passed
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    // Skip if the previous tick is still running a snapshot
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const schedule of await this.store.list()) {
+        if (!schedule.enabled) continue;
+
+        if (!schedule.nextRunAt) {
+          schedule.nextRunAt = getNextRunTime(schedule.cron, now).toISOString();
+          await this.store.save(schedule);
+          continue;
+        }
+
+        if (Date.parse(schedule.nextRunAt) <= now.getTime()) {
+          await this.runSchedule(schedule, now);
+        }
+      }
+    } catch (error) {
+      console.error('Snapshot scheduler tick failed:', (error as Error).message);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Run a schedule once, apply its retention rule and compute its next run time
+   */
+  async runSchedule(schedule: SnapshotSchedule, now: Date = new Date()): Promise<ScheduledSnapshotRun> {
+    console.log(`Running snapshot schedule: ${schedule.name} (${schedule.id})`);
+
+    const run: ScheduledSnapshotRun = { startedAt: now.toISOString(), success: false, errors: [] };
+    let refreshToken = schedule.refreshToken;
+    let client: LarkApiClient | null = null;
+
+    try {
+      let accessToken: string | undefined;
+      if (refreshToken && this.authService) {
+        // Refresh tokens are single-use, keep the new one for the next run
+        const tokens = await this.authService.refreshAccessToken(refreshToken);
+        accessToken = tokens.accessToken;
+        refreshToken = tokens.refreshToken;
+      }
+
+      client = new LarkApiClient(this.larkConfig, accessToken);
+      const service = new SnapshotService(this.larkConfig, accessToken, {
+        checkpointStore: this.checkpointStore,
+        ownerId: schedule.ownerId,
+      });
+
+      const result = await service.createSnapshot({
+        sourceBaseUrl: schedule.sourceBaseUrl,
+        targetBaseName: renderNameTemplate(schedule.nameTemplate, now, schedule.name),
+        selectedTableIds: schedule.selectedTableIds,
+        grantAdminPermission: schedule.grantAdminPermission ?? true,
+        preserveAttachments: schedule.preserveAttachments ?? false,
+      });
+
+      run.success = result.success;
+      run.errors = result.errors;
+      run.checkpointId = result.checkpointId;
+      if (result.targetBase.app_token) {
+        run.targetBase = result.targetBase;
+      }
+    } catch (error) {
+      run.errors.push({ message: (error as Error).message });
+    }
+
+    // Re-read the schedule so edits made while the snapshot ran are kept
+    const latest = await this.store.get(schedule.id);
+    if (!latest) {
+      console.log(`Schedule ${schedule.id} was deleted while running`);
+      return run;
+    }
+
+    latest.runs = [...latest.runs, run];
+    latest.refreshToken = refreshToken;
+    latest.lastRunAt = run.startedAt;
+    latest.nextRunAt = getNextRunTime(latest.cron, now).toISOString();
+    latest.updatedAt = new Date().toISOString();
+
+    if (latest.retention && client) {
+      await this.applyRetention(latest, client);
+    }
+    latest.runs = this.trimRunHistory(latest.runs);
+
+    await this.store.save(latest);
+    Object.assign(schedule, latest);
+
+    console.log(`Schedule ${schedule.name} finished (${run.success ? 'success' : 'failed'}), next run at ${latest.nextRunAt}`);
+    return run;
+  }
+
+  /**
+   * Delete or flag the snapshot Bases older than the most recent `keep`
+   * successful runs. Bases of failed runs do not count toward `keep`; they are
+   * removed along with the successful Bases they are older than.
+   * Failures are logged and retried after the next run
+   */
+  private async applyRetention(schedule: SnapshotSchedule, client: LarkApiClient): Promise<void> {
+    const { keep, action } = schedule.retention!;
+    const liveRuns = schedule.runs.filter((r) => r.targetBase && !r.expired);
+    const successfulRuns = liveRuns.filter((r) => r.success);
+    if (successfulRuns.length <= keep) return;
+
+    const oldestKept = liveRuns.indexOf(successfulRuns[successfulRuns.length - keep]);
+    for (const run of liveRuns.slice(0, oldestKept)) {
+      const base = run.targetBase!;
+      try {
+        if (action === 'delete') {
+          await client.deleteBase(base.app_token);
+          run.expired = 'deleted';
+        } else {
+          await client.updateBase(base.app_token, `${EXPIRED_PREFIX}${base.name}`);
+          run.expired = 'flagged';
+        }
+        console.log(`Retention: ${run.expired} ${base.name} (${base.app_token})`);
+      } catch (error) {
+        console.error(`Retention failed for ${base.name}:`, (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Drop the oldest runs beyond MAX_RUN_HISTORY, keeping the runs whose Base
+   * the retention rule still has to remove
+   */
+  private trimRunHistory(runs: ScheduledSnapshotRun[]): ScheduledSnapshotRun[] {
+    let excess = runs.length - MAX_RUN_HISTORY;
+    return runs.filter((run) => {
+      if (excess <= 0 || (run.targetBase && !run.expired)) return true;
+      excess--;
+      return false;
+    });
+  }
+}
@@ -5,103 +5,207 @@
  * Converts dynamic fields (lookup, relations) to static text/number values
  */
 
+import { randomUUID } from 'crypto';
 import { LarkApiClient } from './larkApiClient.js';
+import { createDefaultCheckpointStore, type CheckpointStore } from './checkpointStore.js';
+import { createArchive } from './snapshotArchive.js';
+import { hashRecordValues, verifyTable, type ExpectedTableContent } from './snapshotVerification.js';
+import { remapViewProperty } from './viewMapping.js';
+import {
+  LARK_FIELD_TYPES,
+  getFieldTypeMapping,
+  toEmailAddress,
+  isValidEmail,
+} from './fieldTypeMapping.js';
+import {
+  FieldConverterRegistry,
+  BUILT_IN_FIELD_CONVERTERS,
+  convertLinkValue,
+} from './fieldConverters.js';
+import { applyFieldPolicies, validateFieldPolicies } from './fieldPolicy.js';
+import { compileRecordFilter } from './recordFilter.js';
+import { isValidTimeZone } from './fieldFormatting.js';
+import {
+  createDefaultStateStore,
+  getSnapshotStateKey,
+  type SnapshotStateStore,
+} from './snapshotStateStore.js';
+import {
+  isComputedField,
+  inferStaticFieldType,
+  type StaticValueType,
+} from './fieldTypeInference.js';
 import type {
   LarkConfig,
   LarkField,
+  LarkRecord,
   LarkCellValue,
-  LarkUserValue,
   LarkLinkValue,
   LarkAttachmentValue,
   LarkFieldType,
+  LarkBase,
+  LarkTable,
+  LarkView,
   SnapshotConfig,
   SnapshotResult,
   SnapshotError,
+  SnapshotProgressEvent,
+  SnapshotCheckpoint,
+  FrozenField,
+  FrozenSnapshot,
+  FrozenTable,
+  SnapshotArchive,
+  SnapshotArchiveTable,
+  SnapshotRehydrateOptions,
+  SnapshotVerification,
+  SnapshotState,
+  SnapshotTableState,
+  IncrementalSnapshotSummary,
+  FieldConverter,
+  FieldConverterContext,
+  FieldConverterOverride,
+  FieldPolicy,
 } from '../types/index.js';
+import { SOURCE_RECORD_ID_FIELD } from '../types/index.js';
 
-/** Field types that need conversion to static values */
-const DYNAMIC_FIELD_TYPES: LarkFieldType[] = [
-  'SingleLink',
-  'DuplexLink',
-  'Lookup',
-  'Formula',
-  'User',
-  'CreatedUser',
-  'ModifiedUser',
-  'Attachment',  // Attachments can't be copied, convert to file names
-];
-
-/** Field types that are not supported for table creation and need conversion */
-const UNSUPPORTED_FIELD_TYPES: string[] = [
-  'Rating',      // type 24 - not supported in createTable
-  'Stage',       // type 24 - workflow stage field
-  'Currency',    // type 1050 - not supported
-  'Email',       // type 1051 - not supported
-  'Location',    // type 22 - conflicts with Progress
-  'Barcode',     // type 23 - may not be supported
-  'Button',      // type 3001 - button field
-  'AutoNumber',  // type 1005 - auto-generated, convert to Text
-];
-
-/** Field type numbers that are not supported for table creation */
-const UNSUPPORTED_TYPE_NUMBERS: number[] = [
-  // Dynamic field types (must be converted)
-  11,    // User
-  18,    // SingleLink
-  19,    // Lookup
-  20,    // Formula
-  21,    // DuplexLink
-  // System field types
-  1001,  // CreatedTime
-  1002,  // ModifiedTime
-  1003,  // CreatedUser
-  1004,  // ModifiedUser
-  1005,  // AutoNumber
-  // Other unsupported types
-  24,    // Rating/Stage
-  1050,  // Currency
-  1051,  // Email
-  22,    // Location (conflicts with Progress)
-  23,    // Barcode
-  3001,  // Button
-];
-
-/** Field type mapping for number type IDs */
-const FIELD_TYPE_MAP: Record<LarkFieldType, number> = {
-  Text: 1,
-  Number: 2,
-  SingleSelect: 3,
-  MultiSelect: 4,
-  DateTime: 5,
-  Checkbox: 7,
-  User: 11,
-  Phone: 13,
-  Url: 15,
-  Attachment: 17,
-  SingleLink: 18,
-  DuplexLink: 21,
-  Lookup: 19,
-  Formula: 20,
-  AutoNumber: 1005,
-  CreatedTime: 1001,
-  ModifiedTime: 1002,
-  CreatedUser: 1003,
-  ModifiedUser: 1004,
-  Barcode: 23,
-  Progress: 22,
-  Currency: 1050,
-  Rating: 24,
-  Email: 1051,
-  Location: 22,
-};
+/** Default upper limit for the total size of copied attachments (200 MB) */
+const DEFAULT_MAX_ATTACHMENT_BYTES = 200 * 1024 * 1024;
+
+/** Batch progress is written to the checkpoint store at most once per interval */
+const CHECKPOINT_SAVE_INTERVAL_MS = 5000;
+
+/** Per-table options shared by field definition and record value conversion */
+interface ConversionOptions {
+  preserveAttachments: boolean;
+  /** Static type chosen for each Formula / Lookup field, keyed by field name */
+  computedFieldTypes: Map<string, StaticValueType>;
+  /**
+   * Type numbers of the fields of an existing target table (resumed / incremental runs)
+   * Created / modified times go to Text fields of tables created before they became DateTime
+   */
+  existingFieldTypes?: Map<string, number>;
+  /** Field policies of the table, keyed by snapshot field name */
+  fieldPolicies?: Map<string, FieldPolicy>;
+}
+
+/** A table whose structure and records have been written to the target Base */
+interface ProcessedTable {
+  sourceTableId: string;
+  targetTableId: string;
+  tableName: string;
+  sourceRecords: LarkRecord[];
+  /** Source record_id -> target record_id */
+  recordIdMap: Map<string, string>;
+  /** Link fields to rebuild once every snapshot table exists */
+  deferredLinkFields: LarkField[];
+  /** Link fields already exist in the target table (incremental runs) */
+  linkFieldsExist: boolean;
+  /** Link fields finished by an earlier attempt (shared with the table's checkpoint) */
+  linkFieldStates: Record<string, 'linked' | 'text'>;
+  /** Types of the fields already in the target table, by name (resumed tables) */
+  targetFieldTypes?: Map<string, number>;
+  /** Source record_ids that no longer exist in the source table */
+  deletedRecordIds: string[];
+  /** Hashes of the converted values to verify the copy against (when verify is set) */
+  verification?: Pick<ExpectedTableContent, 'fieldNames' | 'hashes'>;
+  /** Source fields, set while the table's saved views still have to be recreated */
+  viewSourceFields?: LarkField[];
+}
+
+/** Optional collaborators of SnapshotService */
+export interface SnapshotServiceOptions {
+  /** Where incremental snapshot state is kept (default: file-backed store) */
+  stateStore?: SnapshotStateStore;
+  /** Where checkpoints of unfinished runs are kept (default: file-backed store) */
+  checkpointStore?: CheckpointStore;
+  /** Converters replacing the built-in conversion of field types in every run */
+  fieldConverters?: FieldConverterOverride[];
+  /** Lark user_id of the user running snapshots, recorded as the owner of their checkpoints */
+  ownerId?: string;
+}
 
 export class SnapshotService {
   private client: LarkApiClient;
+  private stateStore: SnapshotStateStore;
+  private checkpointStore: CheckpointStore;
+  private fieldConverters: FieldConverterOverride[];
+  private ownerId: string | undefined;
+  /** When batch progress was last written to the checkpoint store */
+  private checkpointSavedAt = 0;
+  /** Converters of the current run (service-wide overrides, then those of the run) */
+  private converters: FieldConverterRegistry;
   private errors: SnapshotError[] = [];
+  private warnings: SnapshotError[] = [];
   private fieldsConverted = 0;
-
-  constructor(config: LarkConfig, userAccessToken?: string) {
+  private attachmentBytesCopied = 0;
+  /** Time zone dates frozen to text are shown in for the current run */
+  private timeZone: string | undefined;
+  private progressListener: ((event: SnapshotProgressEvent) => void) | null = null;
+  /** Source table being copied, used to attribute batch progress */
+  private currentTable: { tableId: string; tableName: string; recordsWritten: number } | null = null;
+
+  constructor(config: LarkConfig, userAccessToken?: string, options: SnapshotServiceOptions = {}) {
     this.client = new LarkApiClient(config, userAccessToken);
+    this.stateStore = options.stateStore ?? createDefaultStateStore();
+    this.checkpointStore = options.checkpointStore ?? createDefaultCheckpointStore();
+    this.fieldConverters = options.fieldConverters ?? [];
+    this.ownerId = options.ownerId;
+    this.converters = new FieldConverterRegistry(this.fieldConverters);
+  }
+
+  /**
+   * Use the service-wide converters plus the overrides of one run
+   */
+  private useFieldConverters(overrides: FieldConverterOverride[] = []): void {
+    this.converters = new FieldConverterRegistry([...this.fieldConverters, ...overrides]);
+  }
+
+  /**
+   * Receive progress events while createSnapshot runs
+   */
+  setProgressListener(listener: ((event: SnapshotProgressEvent) => void) | null): void {
+    this.progressListener = listener;
+  }
+
+  private emitProgress(event: SnapshotProgressEvent): void {
+    try {
+      this.progressListener?.(event);
+    } catch (error) {
+      // A failing listener must not abort the snapshot
+      console.log('Progress listener failed:', (error as Error).message);
+    }
+  }
+
+  private addError(error: SnapshotError): void {
+    this.errors.push(error);
+    this.emitProgress({ type: 'error', error });
+  }
+
+  /**
+   * Report a batch of records written to the current table
+   */
+  private reportBatch(records: LarkRecord[]): void {
+    if (!this.currentTable) return;
+    this.currentTable.recordsWritten += records.length;
+    this.emitProgress({
+      type: 'batch_written',
+      tableId: this.currentTable.tableId,
+      tableName: this.currentTable.tableName,
+      recordsWritten: records.length,
+    });
+  }
+
+  /**
+   * Report a page of records read from the current source table
+   */
+  private reportPage(records: LarkRecord[]): void {
+    if (!this.currentTable) return;
+    this.emitProgress({
+      type: 'records_page_read',
+      tableId: this.currentTable.tableId,
+      tableName: this.currentTable.tableName,
+      recordsRead: records.length,
+    });
   }
 
   /**
@@ -140,19 +244,433 @@ export class SnapshotService {
    * Create a static snapshot of a Lark Base
    */
   async createSnapshot(config: SnapshotConfig): Promise<SnapshotResult> {
+    return this.runSnapshot(config, null);
+  }
+
+  /**
+   * Continue a snapshot run that did not finish, writing into the same target Base
+   * Tables and records recorded in the checkpoint are not written again
+   */
+  async resumeSnapshot(checkpointId: string): Promise<SnapshotResult> {
+    const checkpoint = await this.checkpointStore.get(checkpointId);
+    if (!checkpoint) {
+      throw new Error(`Checkpoint not found: ${checkpointId}`);
+    }
+
+    console.log(`Resuming snapshot into ${checkpoint.targetBase.name} from checkpoint ${checkpointId}`);
+    return this.runSnapshot(checkpoint.config, checkpoint);
+  }
+
+  /**
+   * Read the source Base and convert it to static values without writing to Lark
+   * Used for local file targets; every link field is frozen as text.
+   * A view in the source URL, field policies and record filters apply as in createSnapshot
+   */
+  async captureSnapshot(
+    config: Pick<
+      SnapshotConfig,
+      | 'sourceBaseUrl'
+      | 'selectedTableIds'
+      | 'fieldConverters'
+      | 'timeZone'
+      | 'viewFieldsOnly'
+      | 'fieldPolicies'
+      | 'recordFilters'
+    >
+  ): Promise<FrozenSnapshot> {
+    const createdAt = new Date().toISOString();
+    this.useFieldConverters(config.fieldConverters);
+    const { sourceBase, tables } = await this.readSourceTables(
+      config,
+      (appToken, table) => this.captureTable(appToken, table.table_id, table.name, config),
+      (table) => table.records.length
+    );
+
+    return { sourceBase, tables, errors: this.errors, createdAt, timeZone: this.timeZone };
+  }
+
+  /**
+   * Read the source Base without any conversion, for a lossless archive
+   * Records keep their record_id, raw cell values and created / modified times.
+   * Archives hold whole tables, so a source URL pointing at a view is rejected
+   */
+  async captureArchive(
+    config: Pick<SnapshotConfig, 'sourceBaseUrl' | 'selectedTableIds'>
+  ): Promise<{ archive: SnapshotArchive; errors: SnapshotError[] }> {
+    const viewId = this.client.parseViewIdFromUrl(config.sourceBaseUrl);
+    if (viewId) {
+      throw new Error(
+        `An archive holds whole tables and cannot be limited to a view: remove view=${viewId} from the source URL`
+      );
+    }
+    const capturedAt = new Date().toISOString();
+    const { sourceAppToken, sourceBase, tables } = await this.readSourceTables(
+      config,
+      async (appToken, table): Promise<SnapshotArchiveTable | null> => {
+        const fields = await this.client.listFieldsWithFallback(appToken, table.table_id);
+        if (fields.length === 0) {
+          this.addError({
+            table: table.name,
+            message: 'Could not retrieve field definitions (Advanced Permissions may be blocking access)',
+          });
+          return null;
+        }
+        const records = await this.client.listRecordsWithFallback(appToken, table.table_id, {
+          automaticFields: true,
+          onPage: (page) => this.reportPage(page),
+        });
+        return { table, fields, records };
+      },
+      (table) => table.records.length
+    );
+
+    return {
+      archive: createArchive(sourceBase, sourceAppToken, capturedAt, tables),
+      errors: this.errors,
+    };
+  }
+
+  /**
+   * Create a new Base from a snapshot archive
+   * Fields get the same static type downgrades as a live snapshot; links between
+   * tables of the archive are recreated unless rebuildLinks is false
+   */
+  async rehydrateArchive(
+    archive: SnapshotArchive,
+    options: SnapshotRehydrateOptions
+  ): Promise<SnapshotResult> {
+    this.errors = [];
+    this.fieldsConverted = 0;
+    this.timeZone = undefined;
+    this.useFieldConverters();
+
+    const startTime = new Date();
+    const sourceBase: LarkBase = {
+      app_token: archive.manifest.sourceAppToken,
+      name: archive.manifest.baseName,
+    };
+
+    try {
+      const targetBase = await this.client.createBase(options.targetBaseName);
+      console.log(`Rehydrating archive of ${sourceBase.name} (${archive.manifest.capturedAt}) into ${targetBase.name}`);
+
+      const archiveTableIds = new Set(
+        options.rebuildLinks === false ? [] : archive.tables.map((t) => t.table.table_id)
+      );
+      const processedTables: ProcessedTable[] = [];
+      let firstTableCreated = false;
+
+      for (const archiveTable of archive.tables) {
+        const { table_id: tableId, name: tableName } = archiveTable.table;
+        this.currentTable = { tableId, tableName, recordsWritten: 0 };
+        this.emitProgress({ type: 'table_started', tableId, tableName });
+
+        try {
+          processedTables.push(
+            await this.rehydrateTable(targetBase.app_token, archiveTable, archiveTableIds)
+          );
+
+          if (!firstTableCreated) {
+            firstTableCreated = true;
+            await this.deleteDefaultTable(targetBase.app_token);
+          }
+        } catch (error) {
+          this.addError({
+            table: tableName,
+            message: `Failed to process table: ${(error as Error).message}`,
+          });
+        }
+
+        this.emitProgress({
+          type: 'table_finished',
+          tableId,
+          tableName,
+          recordsWritten: this.currentTable.recordsWritten,
+        });
+        this.currentTable = null;
+      }
+
+      await this.rebuildLinks(targetBase.app_token, processedTables);
+
+      if (options.grantAdminPermission) {
+        try {
+          const currentUser = await this.client.getCurrentUser();
+          await this.client.addCollaborator(targetBase.app_token, currentUser.user_id, 'full_access');
+        } catch (error) {
+          this.addError({
+            message: `Failed to grant admin permission: ${(error as Error).message}`,
+          });
+        }
+      }
+
+      return {
+        success: this.errors.length === 0,
+        sourceBase,
+        targetBase,
+        tablesProcessed: archive.tables.length,
+        recordsProcessed: processedTables.reduce((sum, t) => sum + t.sourceRecords.length, 0),
+        fieldsConverted: this.fieldsConverted,
+        errors: this.errors,
+        createdAt: startTime.toISOString(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        sourceBase,
+        targetBase: { app_token: '', name: options.targetBaseName },
+        tablesProcessed: 0,
+        recordsProcessed: 0,
+        fieldsConverted: 0,
+        errors: [{ message: (error as Error).message }],
+        createdAt: startTime.toISOString(),
+      };
+    }
+  }
+
+  /**
+   * Create one table of an archive in the target Base and write its records
+   */
+  private async rehydrateTable(
+    targetAppToken: string,
+    archiveTable: SnapshotArchiveTable,
+    archiveTableIds: Set<string>
+  ): Promise<ProcessedTable> {
+    const { table, fields: sourceFields, records: sourceRecords } = archiveTable;
+
+    // Links into other tables of the archive are created later by rebuildLinks
+    const deferredLinkFields = sourceFields.filter(
+      (f) => this.isLinkField(f) && archiveTableIds.has(this.getLinkedTableId(f) ?? '')
+    );
+    const options: ConversionOptions = {
+      preserveAttachments: false,
+      computedFieldTypes: this.inferComputedFieldTypes(sourceFields, sourceRecords),
+    };
+
+    const targetFields = this.convertFieldDefinitions(
+      sourceFields.filter((f) => !deferredLinkFields.includes(f)),
+      options
+    );
+    // Keep the original record_id so the restored Base can be diffed against the archive
+    // An archive of a snapshot Base already carries that column with the original IDs
+    const hasSourceRecordIds = sourceFields.some((f) => f.field_name === SOURCE_RECORD_ID_FIELD);
+    if (!hasSourceRecordIds) {
+      targetFields.push({ field_name: SOURCE_RECORD_ID_FIELD, type: LARK_FIELD_TYPES.Text, ui_type: 'Text' });
+    }
+    this.emitProgress({
+      type: 'fields_converted',
+      tableId: table.table_id,
+      tableName: table.name,
+      fieldCount: targetFields.length,
+    });
+
+    const targetTable = await this.client.createTable(targetAppToken, table.name, targetFields);
+    const targetFieldNames = new Set(targetFields.map((f) => f.field_name!));
+
+    const processed: ProcessedTable = {
+      sourceTableId: table.table_id,
+      targetTableId: targetTable.table_id,
+      tableName: table.name,
+      sourceRecords,
+      recordIdMap: new Map(),
+      deferredLinkFields,
+      linkFieldsExist: false,
+      linkFieldStates: {},
+      deletedRecordIds: [],
+    };
+
+    const targetRecords = sourceRecords.map((record) => {
+      const fields = this.convertRecordValues(record.fields, sourceFields, targetFieldNames, options);
+      return { fields: hasSourceRecordIds ? fields : this.withSourceRecordId(fields, record, targetFieldNames) };
+    });
+
+    // batch_create returns records in request order
+    let written = 0;
+    await this.client.createRecords(targetAppToken, targetTable.table_id, targetRecords, (batch) => {
+      batch.forEach((created, idx) => {
+        processed.recordIdMap.set(sourceRecords[written + idx].record_id, created.record_id);
+      });
+      written += batch.length;
+      this.reportBatch(batch);
+    });
+    console.log(`Rehydrated ${written} records into ${table.name}`);
+
+    return processed;
+  }
+
+  /**
+   * Read every selected source table with `read`, reporting table progress
+   * Tables that fail are recorded as errors and left out
+   */
+  private async readSourceTables<T>(
+    config: Pick<SnapshotConfig, 'sourceBaseUrl' | 'selectedTableIds' | 'timeZone'>,
+    read: (sourceAppToken: string, table: LarkTable) => Promise<T | null>,
+    countRecords: (table: T) => number
+  ): Promise<{ sourceAppToken: string; sourceBase: LarkBase; tables: T[] }> {
+    this.errors = [];
+    this.fieldsConverted = 0;
+
+    const sourceAppToken = await this.client.resolveBaseAppToken(config.sourceBaseUrl);
+    const tableIdFromUrl = this.client.parseTableIdFromUrl(config.sourceBaseUrl);
+    const sourceBase = await this.client.getBase(sourceAppToken);
+    this.timeZone = this.getTimeZone(config, sourceBase);
+
+    let sourceTables = await this.client.listTablesWithFallback(sourceAppToken, tableIdFromUrl);
+    if (config.selectedTableIds && config.selectedTableIds.length > 0) {
+      sourceTables = sourceTables.filter((t) => config.selectedTableIds!.includes(t.table_id));
+    }
+
+    const tables: T[] = [];
+    for (const sourceTable of sourceTables) {
+      this.currentTable = { tableId: sourceTable.table_id, tableName: sourceTable.name, recordsWritten: 0 };
+      this.emitProgress({ type: 'table_started', tableId: sourceTable.table_id, tableName: sourceTable.name });
+
+      try {
+        const table = await read(sourceAppToken, sourceTable);
+        if (table) {
+          tables.push(table);
+          this.currentTable.recordsWritten = countRecords(table);
+        }
+      } catch (error) {
+        this.addError({
+          table: sourceTable.name,
+          message: `Failed to process table: ${(error as Error).message}`,
+        });
+      }
+
+      this.emitProgress({
+        type: 'table_finished',
+        tableId: sourceTable.table_id,
+        tableName: sourceTable.name,
+        recordsWritten: this.currentTable.recordsWritten,
+      });
+      this.currentTable = null;
+    }
+
+    return { sourceAppToken, sourceBase, tables };
+  }
+
+  /**
+   * Convert a single source table to static field definitions and values
+   */
+  private async captureTable(
+    sourceAppToken: string,
+    sourceTableId: string,
+    tableName: string,
+    config: Pick<SnapshotConfig, 'sourceBaseUrl' | 'viewFieldsOnly' | 'fieldPolicies' | 'recordFilters'>
+  ): Promise<FrozenTable | null> {
+    const tableFields = await this.client.listFieldsWithFallback(sourceAppToken, sourceTableId);
+    if (tableFields.length === 0) {
+      this.addError({
+        table: tableName,
+        message: 'Could not retrieve field definitions (Advanced Permissions may be blocking access)',
+      });
+      return null;
+    }
+
+    // The view, field policies and record filter limit the table as in a Base snapshot
+    const sourceView = await this.getSourceView(tableName, sourceAppToken, sourceTableId, config.sourceBaseUrl);
+    if (sourceView === false) {
+      return null;
+    }
+    const listedFields = this.getViewFields(tableFields, sourceView, config.viewFieldsOnly);
+
+    const policies = config.fieldPolicies?.[sourceTableId] ?? {};
+    if (!this.checkFieldPolicies(tableName, policies, listedFields)) {
+      return null;
+    }
+    const recordFilter = this.getRecordFilter(tableName, config.recordFilters?.[sourceTableId], listedFields);
+    if (!recordFilter) {
+      return null;
+    }
+
+    const listedRecords = (await this.client.listRecordsWithFallback(
+      sourceAppToken,
+      sourceTableId,
+      { onPage: (page) => this.reportPage(page), viewId: sourceView?.view_id }
+    )).filter(recordFilter);
+    const {
+      fields: sourceFields,
+      records: sourceRecords,
+      policies: fieldPolicies,
+    } = applyFieldPolicies(listedFields, listedRecords, policies);
+
+    const options: ConversionOptions = {
+      preserveAttachments: false,
+      computedFieldTypes: this.inferComputedFieldTypes(sourceFields, sourceRecords),
+      fieldPolicies,
+    };
+    const sourceFieldsByName = new Map(sourceFields.map((f) => [f.field_name, f]));
+    const fields = this.convertFieldDefinitions(sourceFields, options).map((f) => ({
+      ...f,
+      source_ui_type: sourceFieldsByName.get(f.field_name!)?.ui_type,
+    })) as FrozenField[];
+    this.emitProgress({
+      type: 'fields_converted',
+      tableId: sourceTableId,
+      tableName,
+      fieldCount: fields.length,
+    });
+
+    const targetFieldNames = new Set(fields.map((f) => f.field_name));
+    return {
+      sourceTableId,
+      tableName,
+      fields,
+      records: sourceRecords.map((record) => ({
+        sourceRecordId: record.record_id,
+        fields: this.convertRecordValues(record.fields, sourceFields, targetFieldNames, options),
+      })),
+    };
+  }
+
+  /**
+   * Run a snapshot, either from scratch or continuing a checkpoint
+   */
+  private async runSnapshot(
+    config: SnapshotConfig,
+    resumeFrom: SnapshotCheckpoint | null
+  ): Promise<SnapshotResult> {
     this.errors = [];
+    this.warnings = [];
     this.fieldsConverted = 0;
+    this.attachmentBytesCopied = 0;
+    this.useFieldConverters(config.fieldConverters);
 
     const startTime = new Date();
+    let checkpoint = resumeFrom;
 
     try {
       // 1. Resolve source URL to get app_token (handles Wiki URLs)
       const sourceAppToken = await this.client.resolveBaseAppToken(config.sourceBaseUrl);
       const tableIdFromUrl = this.client.parseTableIdFromUrl(config.sourceBaseUrl);
       const sourceBase = await this.client.getBase(sourceAppToken);
+      this.timeZone = this.getTimeZone(config, sourceBase);
+
+      const existingTargetAppToken = config.targetBaseUrl
+        ? await this.resolveTargetAppToken(config.targetBaseUrl)
+        : null;
 
-      // 2. Create new target base
-      const targetBase = await this.client.createBase(config.targetBaseName);
+      // Incremental runs continue the snapshot series of the previous run
+      const stateKey = getSnapshotStateKey(
+        sourceAppToken,
+        existingTargetAppToken ?? config.targetBaseName
+      );
+      const previousState = config.incremental ? await this.stateStore.get(stateKey) : null;
+      const incrementalSummary: IncrementalSnapshotSummary = { created: 0, updated: 0, deleted: 0 };
+
+      // 2. Resolve target base: the checkpointed target, the previous incremental
+      // target, an existing Base, or a new one
+      let targetBase: LarkBase;
+      if (resumeFrom) {
+        targetBase = resumeFrom.targetBase;
+      } else if (previousState) {
+        targetBase = previousState.targetBase;
+      } else if (existingTargetAppToken) {
+        targetBase = await this.openExistingTargetBase(existingTargetAppToken);
+      } else {
+        targetBase = await this.client.createBase(config.targetBaseName);
+      }
+      const isNewTargetBase = !resumeFrom && !previousState && !existingTargetAppToken;
 
       // 3. Get all tables from source (with fallback for Advanced Permissions)
       let sourceTables = await this.client.listTablesWithFallback(sourceAppToken, tableIdFromUrl);
@@ -164,39 +682,150 @@ export class SnapshotService {
         console.log(`Snapshot: Filtered to ${sourceTables.length} selected tables`);
       }
 
+      for (const tableId of Object.keys(config.fieldPolicies ?? {})) {
+        if (!sourceTables.some((t) => t.table_id === tableId)) {
+          this.addError({
+            table: tableId,
+            message: 'Invalid field policy: table is not in the snapshot',
+            code: 'INVALID_FIELD_POLICY',
+          });
+        }
+      }
+      for (const tableId of Object.keys(config.recordFilters ?? {})) {
+        if (!sourceTables.some((t) => t.table_id === tableId)) {
+          this.addError({
+            table: tableId,
+            message: 'Invalid record filter: table is not in the snapshot',
+            code: 'INVALID_RECORD_FILTER',
+          });
+        }
+      }
+
       // Generate date suffix for table names (YYYYMMDD)
-      const dateSuffix = this.getDateSuffix();
+      // Resumed runs keep the table names of the original run
+      const dateSuffix = resumeFrom?.dateSuffix ?? this.getDateSuffix();
+
+      if (!checkpoint) {
+        // Converters are code and cannot be saved with the checkpoint
+        const { fieldConverters: _fieldConverters, ...checkpointConfig } = config;
+        checkpoint = {
+          id: randomUUID(),
+          config: checkpointConfig,
+          ownerId: this.ownerId,
+          targetBase,
+          dateSuffix,
+          defaultTablePending: isNewTargetBase,
+          tables: {},
+          createdAt: startTime.toISOString(),
+          updatedAt: startTime.toISOString(),
+        };
+        await this.saveCheckpoint(checkpoint);
+      }
+      const currentCheckpoint = checkpoint;
+
+      // Refuse to write into an existing Base that already has tables with the same names
+      if (!isNewTargetBase) {
+        await this.assertNoTableNameClash(
+          targetBase.app_token,
+          sourceTables
+            .filter((t) => !previousState?.tables[t.table_id] && !currentCheckpoint.tables[t.table_id])
+            .map((t) => `${t.name}_snap_${dateSuffix}`)
+        );
+      }
 
       let totalRecordsProcessed = 0;
-      let firstTableCreated = false;
+      // An existing target Base has no default table to delete
+      let firstTableCreated = !checkpoint.defaultTablePending;
+
+      // Links between tables that are both in the snapshot are rebuilt as real links
+      const snapshotTableIds = new Set(sourceTables.map((t) => t.table_id));
+      const processedTables: ProcessedTable[] = [];
 
       // 4. Process each table
       for (const sourceTable of sourceTables) {
+        this.currentTable = { tableId: sourceTable.table_id, tableName: sourceTable.name, recordsWritten: 0 };
+        this.emitProgress({ type: 'table_started', tableId: sourceTable.table_id, tableName: sourceTable.name });
+
         try {
+          const tableState = previousState?.tables[sourceTable.table_id];
           const snapshotTableName = `${sourceTable.name}_snap_${dateSuffix}`;
-          const recordsProcessed = await this.processTable(
-            sourceAppToken,
-            targetBase.app_token,
-            sourceTable.table_id,
-            snapshotTableName
-          );
-          totalRecordsProcessed += recordsProcessed;
+          const processed = tableState
+            ? await this.syncTable(
+                sourceAppToken,
+                targetBase.app_token,
+                tableState,
+                incrementalSummary,
+                currentCheckpoint
+              )
+            : await this.processTable(
+                sourceAppToken,
+                targetBase.app_token,
+                sourceTable.table_id,
+                snapshotTableName,
+                config,
+                snapshotTableIds,
+                currentCheckpoint
+              );
+          if (processed) {
+            processedTables.push(processed);
+            totalRecordsProcessed += processed.sourceRecords.length;
+            if (!tableState) {
+              incrementalSummary.created += processed.recordIdMap.size;
+            }
+          }
 
           // 5. Delete default "Table" after first table is created
           // (Lark requires at least one table in a Base)
           if (!firstTableCreated) {
             firstTableCreated = true;
             await this.deleteDefaultTable(targetBase.app_token);
+            currentCheckpoint.defaultTablePending = false;
+            await this.saveCheckpoint(currentCheckpoint);
           }
         } catch (error) {
-          this.errors.push({
+          this.addError({
             table: sourceTable.name,
             message: `Failed to process table: ${(error as Error).message}`,
           });
+          // Record the batches written before the failure
+          await this.saveCheckpoint(currentCheckpoint);
         }
+
+        this.emitProgress({
+          type: 'table_finished',
+          tableId: sourceTable.table_id,
+          tableName: sourceTable.name,
+          recordsWritten: this.currentTable.recordsWritten,
+        });
+        this.currentTable = null;
+      }
+
+      // 5. Rebuild link fields now that all records have target IDs
+      // (finished link fields are recorded in the table checkpoints)
+      await this.rebuildLinks(targetBase.app_token, processedTables);
+      await this.saveCheckpoint(currentCheckpoint);
+
+      // 6. Recreate saved views now that every target field (including links) exists
+      await this.copyViews(sourceAppToken, targetBase.app_token, processedTables, currentCheckpoint);
+
+      // 7. Re-read the copied tables and compare them with what was written
+      const verification = config.verify
+        ? await this.verifyTables(targetBase.app_token, processedTables)
+        : undefined;
+
+      // Persist watermarks and record maps for the next incremental run
+      if (config.incremental) {
+        await this.saveSnapshotState(
+          stateKey,
+          sourceAppToken,
+          targetBase,
+          startTime.getTime(),
+          previousState,
+          processedTables
+        );
       }
 
-      // 5. Grant admin permission if requested
+      // 8. Grant admin permission if requested
       if (config.grantAdminPermission) {
         try {
           const currentUser = await this.client.getCurrentUser();
@@ -206,14 +835,20 @@ export class SnapshotService {
             'full_access'
           );
         } catch (error) {
-          this.errors.push({
+          this.addError({
             message: `Failed to grant admin permission: ${(error as Error).message}`,
           });
         }
       }
 
+      // A clean run needs no checkpoint; otherwise keep it for resumeSnapshot
+      const success = this.errors.length === 0;
+      if (success) {
+        await this.checkpointStore.delete(currentCheckpoint.id);
+      }
+
       return {
-        success: this.errors.length === 0,
+        success,
         sourceBase,
         targetBase,
         tablesProcessed: sourceTables.length,
@@ -221,91 +856,290 @@ export class SnapshotService {
         fieldsConverted: this.fieldsConverted,
         errors: this.errors,
         createdAt: startTime.toISOString(),
+        incremental: previousState ? incrementalSummary : undefined,
+        checkpointId: success ? undefined : currentCheckpoint.id,
+        verification,
+        warnings: this.warnings,
       };
     } catch (error) {
+      // Keep the progress of the run for resumeSnapshot
+      if (checkpoint) {
+        await this.saveCheckpoint(checkpoint);
+      }
       return {
         success: false,
         sourceBase: { app_token: '', name: '', url: config.sourceBaseUrl },
-        targetBase: { app_token: '', name: config.targetBaseName },
+        targetBase: checkpoint?.targetBase ?? { app_token: '', name: config.targetBaseName },
         tablesProcessed: 0,
         recordsProcessed: 0,
         fieldsConverted: 0,
-        errors: [{ message: (error as Error).message }],
+        // Keep the table errors collected before the run was aborted
+        errors: [...this.errors, { message: (error as Error).message }],
         createdAt: startTime.toISOString(),
+        checkpointId: checkpoint?.id,
       };
     }
   }
 
+  /**
+   * Save checkpoint progress (failures are logged, they must not abort the run)
+   */
+  private async saveCheckpoint(checkpoint: SnapshotCheckpoint): Promise<void> {
+    this.checkpointSavedAt = Date.now();
+    checkpoint.updatedAt = new Date().toISOString();
+    try {
+      await this.checkpointStore.save(checkpoint);
+    } catch (error) {
+      console.log('Failed to save checkpoint:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Save the progress of a record batch, at most once per CHECKPOINT_SAVE_INTERVAL_MS
+   * (the checkpoint is saved in full when the table finishes or fails)
+   */
+  private async saveCheckpointProgress(checkpoint: SnapshotCheckpoint): Promise<void> {
+    if (Date.now() - this.checkpointSavedAt >= CHECKPOINT_SAVE_INTERVAL_MS) {
+      await this.saveCheckpoint(checkpoint);
+    }
+  }
+
+  /**
+   * Read a checkpoint, e.g. to check who may resume it
+   */
+  async getCheckpoint(checkpointId: string): Promise<SnapshotCheckpoint | null> {
+    return this.checkpointStore.get(checkpointId);
+  }
+
+  /**
+   * Resolve a target Base URL or app_token to an app_token
+   */
+  private async resolveTargetAppToken(targetBaseUrl: string): Promise<string> {
+    const value = targetBaseUrl.trim();
+    if (/^[a-zA-Z0-9]+$/.test(value)) {
+      return value;
+    }
+    return this.client.resolveBaseAppToken(value);
+  }
+
+  /**
+   * Open an existing Base as snapshot target after checking write access
+   */
+  private async openExistingTargetBase(appToken: string): Promise<LarkBase> {
+    const base = await this.client.getBase(appToken);
+
+    let canEdit: boolean;
+    try {
+      canEdit = await this.client.hasEditPermission(appToken);
+    } catch (error) {
+      throw new Error(`Could not verify write access to target Base "${base.name}": ${(error as Error).message}`);
+    }
+    if (!canEdit) {
+      throw new Error(`No write access to target Base "${base.name}"`);
+    }
+
+    console.log(`Using existing target Base: ${base.name} (${appToken})`);
+    return base;
+  }
+
+  /**
+   * Throw if any of the snapshot table names already exists in the target Base
+   */
+  private async assertNoTableNameClash(appToken: string, tableNames: string[]): Promise<void> {
+    const existingNames = new Set((await this.client.listTables(appToken)).map((t) => t.name));
+    const clashes = tableNames.filter((name) => existingNames.has(name));
+
+    if (clashes.length > 0) {
+      throw new Error(`Target Base already has tables named: ${clashes.join(', ')}`);
+    }
+  }
+
   /**
    * Process a single table: copy structure and data
+   * A table already in the checkpoint is continued: only records without a
+   * target record are written
+   * Returns null if the table was skipped
    */
   private async processTable(
     sourceAppToken: string,
     targetAppToken: string,
     sourceTableId: string,
-    tableName: string
-  ): Promise<number> {
-    console.log(`Processing table: ${tableName} (${sourceTableId})`);
+    tableName: string,
+    config: SnapshotConfig,
+    snapshotTableIds: Set<string>,
+    checkpoint: SnapshotCheckpoint
+  ): Promise<ProcessedTable | null> {
+    const resumed = checkpoint.tables[sourceTableId];
+    console.log(`${resumed ? 'Resuming' : 'Processing'} table: ${tableName} (${sourceTableId})`);
 
     // 1. Get source fields (with fallback for Advanced Permissions)
-    const sourceFields = await this.client.listFieldsWithFallback(
+    const tableFields = await this.client.listFieldsWithFallback(
       sourceAppToken,
       sourceTableId
     );
 
-    if (sourceFields.length === 0) {
+    if (tableFields.length === 0) {
       console.log(`No fields retrieved for ${tableName}, skipping table`);
-      this.errors.push({
+      this.addError({
         table: tableName,
         message: 'Could not retrieve field definitions (Advanced Permissions may be blocking access)',
       });
-      return 0;
+      return null;
     }
 
-    console.log(`Got ${sourceFields.length} fields for ${tableName}`);
+    console.log(`Got ${tableFields.length} fields for ${tableName}`);
 
-    // 2. Convert field definitions (dynamic -> static)
-    const targetFields = this.convertFieldDefinitions(sourceFields);
+    // A source URL pointing at a view of this table limits it to the view
+    const sourceView = await this.getSourceView(tableName, sourceAppToken, sourceTableId, config.sourceBaseUrl);
+    if (sourceView === false) {
+      return null;
+    }
+    const listedFields = this.getViewFields(tableFields, sourceView, config.viewFieldsOnly);
 
-    // 3. Create table in target base
-    const targetTable = await this.client.createTable(
-      targetAppToken,
-      tableName,
-      targetFields
-    );
-    console.log(`Created target table: ${targetTable.table_id}`);
+    const policies = config.fieldPolicies?.[sourceTableId] ?? {};
+    if (!this.checkFieldPolicies(tableName, policies, listedFields)) {
+      return null;
+    }
+    const recordFilter = this.getRecordFilter(tableName, config.recordFilters?.[sourceTableId], listedFields);
+    if (!recordFilter) {
+      return null;
+    }
 
-    // 4. Get target field names (for batch_create API which uses field names as keys)
-    const targetFieldList = await this.client.listFields(
-      targetAppToken,
-      targetTable.table_id
+    // 2. Get source records (with fallback for Advanced Permissions)
+    // Records are read before creating the table so computed field types can be inferred
+    // Only the records matching the table's filter are copied
+    const listedRecords = (await this.client.listRecordsWithFallback(
+      sourceAppToken,
+      sourceTableId,
+      { onPage: (page) => this.reportPage(page), viewId: sourceView?.view_id }
+    )).filter(recordFilter);
+
+    // Dropped and renamed fields are applied to the fields and records before conversion
+    const {
+      fields: sourceFields,
+      records: sourceRecords,
+      policies: fieldPolicies,
+    } = applyFieldPolicies(listedFields, listedRecords, policies);
+
+    // 3. Convert field definitions (dynamic -> static)
+    // Links into other snapshot tables are created later by rebuildLinks
+    // (unless the field policy freezes them)
+    const deferredLinkFields = sourceFields.filter(
+      (f) => this.isLinkField(f) && !this.isFrozenByPolicy(f, fieldPolicies) &&
+        snapshotTableIds.has(this.getLinkedTableId(f) ?? '')
     );
-    const targetFieldNames = new Set(targetFieldList.map((f) => f.field_name));
+    // Resumed tables follow the field types created by the original run
+    const existingFields = resumed
+      ? await this.client.listFields(targetAppToken, resumed.targetTableId)
+      : [];
+    const options: ConversionOptions = {
+      preserveAttachments: config.preserveAttachments ?? false,
+      computedFieldTypes: resumed
+        ? this.getComputedFieldTypesFromTarget(
+            sourceFields,
+            new Map(existingFields.map((f) => [f.field_name, f]))
+          )
+        : this.inferComputedFieldTypes(sourceFields, sourceRecords),
+      existingFieldTypes: resumed
+        ? new Map(existingFields.map((f) => [f.field_name, f.type]))
+        : undefined,
+      fieldPolicies,
+    };
+
+    let tableCheckpoint = resumed;
+    if (!tableCheckpoint) {
+      this.checkEmailValues(tableName, sourceFields, sourceRecords);
+
+      const targetFields = this.convertFieldDefinitions(
+        sourceFields.filter((f) => !deferredLinkFields.includes(f)),
+        options
+      );
+      // Keep the source record_id so snapshots can be diffed and restored
+      targetFields.push({ field_name: SOURCE_RECORD_ID_FIELD, type: LARK_FIELD_TYPES.Text, ui_type: 'Text' });
+      if (this.currentTable) {
+        this.emitProgress({
+          type: 'fields_converted',
+          tableId: this.currentTable.tableId,
+          tableName: this.currentTable.tableName,
+          fieldCount: targetFields.length,
+        });
+      }
 
-    // 5. Get source records (with fallback for Advanced Permissions)
-    const sourceRecords = await this.client.listRecordsWithFallback(
-      sourceAppToken,
-      sourceTableId
+      // 4. Create table in target base
+      const targetTable = await this.client.createTable(
+        targetAppToken,
+        tableName,
+        targetFields
+      );
+      console.log(`Created target table: ${targetTable.table_id}`);
+
+      tableCheckpoint = {
+        targetTableId: targetTable.table_id,
+        tableName,
+        status: 'created',
+        recordIdMap: {},
+        linkFields: {},
+      };
+      checkpoint.tables[sourceTableId] = tableCheckpoint;
+      await this.saveCheckpoint(checkpoint);
+    }
+    const targetTableId = tableCheckpoint.targetTableId;
+
+    // 5. Get target field names (for batch_create API which uses field names as keys)
+    // Link fields of a resumed table are rewritten by rebuildLinks
+    const targetFieldList = await this.client.listFields(
+      targetAppToken,
+      targetTableId
+    );
+    const targetFieldNames = new Set(
+      targetFieldList
+        .filter((f) => !deferredLinkFields.some((l) => l.field_name === f.field_name))
+        .map((f) => f.field_name)
     );
 
-    if (sourceRecords.length === 0) {
+    const processed: ProcessedTable = {
+      sourceTableId,
+      targetTableId,
+      tableName,
+      sourceRecords,
+      recordIdMap: new Map(Object.entries(tableCheckpoint.recordIdMap)),
+      deferredLinkFields,
+      linkFieldsExist: false,
+      linkFieldStates: (tableCheckpoint.linkFields ??= {}),
+      targetFieldTypes: resumed ? new Map(targetFieldList.map((f) => [f.field_name, f.type])) : undefined,
+      deletedRecordIds: [],
+      viewSourceFields: config.copyViews !== false && !tableCheckpoint.viewsCopied ? sourceFields : undefined,
+    };
+
+    if (config.verify) {
+      processed.verification = this.getExpectedContent(
+        sourceRecords,
+        sourceFields,
+        targetFieldNames,
+        options
+      );
+    }
+
+    // Records written before the checkpoint are not written again
+    const pendingRecords = sourceRecords.filter((r) => !processed.recordIdMap.has(r.record_id));
+
+    if (pendingRecords.length === 0) {
       console.log(`No records to copy for ${tableName}`);
-      return 0;
+      await this.completeCheckpointTable(targetAppToken, processed, sourceFields, options, config, checkpoint);
+      return processed;
     }
 
     console.log(`Got ${sourceRecords.length} records for ${tableName}`);
 
     // Debug: log first record structure
-    if (sourceRecords.length > 0) {
-      console.log('First source record fields keys:', Object.keys(sourceRecords[0].fields || {}));
-      console.log('Target field names sample:', Array.from(targetFieldNames).slice(0, 5));
-    }
+    console.log('First source record fields keys:', Object.keys(pendingRecords[0].fields || {}));
+    console.log('Target field names sample:', Array.from(targetFieldNames).slice(0, 5));
 
     // 6. Convert record values (use field names as keys for batch_create API)
-    const targetRecords = sourceRecords.map((record, idx) => {
-      const converted = this.convertRecordValues(
-        record.fields,
-        sourceFields,
+    const targetRecords = pendingRecords.map((record, idx) => {
+      const converted = this.withSourceRecordId(
+        this.convertRecordValues(record.fields, sourceFields, targetFieldNames, options),
+        record,
         targetFieldNames
       );
       // Debug first record
@@ -316,349 +1150,1012 @@ export class SnapshotService {
       return { fields: converted };
     });
 
-    // 7. Create records in target table
+    // 7. Create records in target table, checkpointing after each batch
+    // (batch_create returns records in request order)
+    let written = 0;
     const createdRecords = await this.client.createRecords(
       targetAppToken,
-      targetTable.table_id,
-      targetRecords
+      targetTableId,
+      targetRecords,
+      (batch) => {
+        batch.forEach((created, idx) => {
+          const sourceRecordId = pendingRecords[written + idx].record_id;
+          processed.recordIdMap.set(sourceRecordId, created.record_id);
+          tableCheckpoint.recordIdMap[sourceRecordId] = created.record_id;
+        });
+        written += batch.length;
+        this.reportBatch(batch);
+        void this.saveCheckpointProgress(checkpoint);
+      }
     );
 
-    console.log(`Copied ${sourceRecords.length} records to ${tableName}, created: ${createdRecords.length}`);
-    return sourceRecords.length;
-  }
-
-  /**
-   * Convert field definitions from dynamic to static types
-   */
-  private convertFieldDefinitions(
-    sourceFields: LarkField[]
-  ): Partial<LarkField>[] {
-    return sourceFields.map((field) => {
-      // Check by ui_type string AND by type number (for fields with undefined ui_type)
-      const isDynamic = DYNAMIC_FIELD_TYPES.includes(field.ui_type) ||
-                        [11, 18, 19, 20, 21, 1003, 1004].includes(field.type);
-      const isUnsupported = UNSUPPORTED_FIELD_TYPES.includes(field.ui_type as string);
+    console.log(`Copied ${pendingRecords.length} records to ${tableName}, created: ${createdRecords.length}`);
 
-      // Debug: log all field types to identify unsupported ones
-      console.log(`Field: ${field.field_name}, ui_type: ${field.ui_type}, type: ${field.type}, isDynamic: ${isDynamic}, isUnsupported: ${isUnsupported}`);
+    await this.runAfterWriteHooks(targetAppToken, processed, pendingRecords, sourceFields, targetFieldNames);
 
-      if (isDynamic) {
-        this.fieldsConverted++;
+    // 8. Copy attachment files into the created records
+    await this.completeCheckpointTable(targetAppToken, processed, sourceFields, options, config, checkpoint);
 
-        // Convert to text field for most dynamic types
-        return {
-          field_name: field.field_name,
-          type: FIELD_TYPE_MAP.Text,
-          ui_type: 'Text' as LarkFieldType,
-        };
-      }
+    return processed;
+  }
 
-      // Check both ui_type string AND type number for unsupported fields
-      const unsupportedByNumber = UNSUPPORTED_TYPE_NUMBERS.includes(field.type);
-      if (isUnsupported || unsupportedByNumber) {
-        this.fieldsConverted++;
-        console.log(`Converting unsupported field: ${field.field_name} (type: ${field.type}, ui_type: ${field.ui_type})`);
-
-        // Convert unsupported types to appropriate basic types
-        if (field.type === 24 || field.type === 1050 || field.ui_type === 'Rating' || field.ui_type === 'Currency') {
-          // Convert to Number field
-          return {
-            field_name: field.field_name,
-            type: FIELD_TYPE_MAP.Number,
-            ui_type: 'Number' as LarkFieldType,
-          };
+  /**
+   * Recreate the saved views of newly copied tables with remapped field references
+   * createTable adds a default grid view, which takes over the first source grid view
+   * Views that cannot be recreated are reported as warnings
+   */
+  private async copyViews(
+    sourceAppToken: string,
+    targetAppToken: string,
+    processedTables: ProcessedTable[],
+    checkpoint: SnapshotCheckpoint
+  ): Promise<void> {
+    for (const table of processedTables) {
+      const sourceFields = table.viewSourceFields;
+      if (!sourceFields) continue;
+
+      try {
+        const sourceViews = await this.client.listViews(sourceAppToken, table.sourceTableId);
+        const targetFields = await this.client.listFields(targetAppToken, table.targetTableId);
+        let defaultView = (await this.client.listViews(targetAppToken, table.targetTableId))
+          .find((v) => v.view_type === 'grid');
+
+        for (const view of sourceViews) {
+          try {
+            const property = view.property ??
+              (await this.client.getView(sourceAppToken, table.sourceTableId, view.view_id)).property;
+            const mapping = property
+              ? remapViewProperty(property, sourceFields, targetFields)
+              : { property: undefined, warnings: [] };
+            for (const message of mapping.warnings) {
+              this.warnings.push({ table: table.tableName, view: view.view_name, message });
+            }
+
+            let targetViewId: string;
+            if (defaultView && view.view_type === 'grid') {
+              targetViewId = defaultView.view_id;
+              defaultView = undefined;
+            } else {
+              targetViewId = (await this.client.createView(targetAppToken, table.targetTableId, {
+                view_name: view.view_name,
+                view_type: view.view_type,
+              })).view_id;
+            }
+
+            await this.client.updateView(targetAppToken, table.targetTableId, targetViewId, {
+              view_name: view.view_name,
+              property: mapping.property,
+            });
+          } catch (error) {
+            this.warnings.push({
+              table: table.tableName,
+              view: view.view_name,
+              message: `Could not recreate view: ${(error as Error).message}`,
+            });
+          }
         }
-        // Default: convert to Text field
-        return {
-          field_name: field.field_name,
-          type: FIELD_TYPE_MAP.Text,
-          ui_type: 'Text' as LarkFieldType,
-        };
+        console.log(`Copied ${sourceViews.length} views to ${table.tableName}`);
+      } catch (error) {
+        this.warnings.push({
+          table: table.tableName,
+          message: `Could not copy views: ${(error as Error).message}`,
+        });
       }
 
-      // Keep original field type for static fields
-      return {
-        field_name: field.field_name,
-        type: field.type,
-        ui_type: field.ui_type,
-        property: this.sanitizeProperty(field.property, field.ui_type),
-      };
-    });
+      const tableCheckpoint = checkpoint.tables[table.sourceTableId];
+      if (tableCheckpoint) tableCheckpoint.viewsCopied = true;
+    }
+    await this.saveCheckpoint(checkpoint);
   }
 
   /**
-   * Sanitize field property (remove link-related properties)
+   * Hash the converted values of every source record as they are written to the target
+   * Attachments copied as files are left out, since their values are new file tokens
    */
-  private sanitizeProperty(
-    property: LarkField['property'],
-    uiType: LarkFieldType
-  ): LarkField['property'] {
-    if (!property) return undefined;
+  private getExpectedContent(
+    sourceRecords: LarkRecord[],
+    sourceFields: LarkField[],
+    targetFieldNames: Set<string>,
+    options: ConversionOptions
+  ): NonNullable<ProcessedTable['verification']> {
+    const fieldNames = Array.from(targetFieldNames).filter(
+      (name) => !sourceFields.some((f) => f.field_name === name && this.isPreservedAttachment(f, options))
+    );
 
-    // Remove link-related properties
-    const sanitized = { ...property };
-    delete sanitized.table_id;
-    delete sanitized.link_table_id;
-    delete sanitized.back_field_id;
-    delete sanitized.formula_expression;
+    const hashes = new Map<string, string>();
+    for (const record of sourceRecords) {
+      const converted = this.withSourceRecordId(
+        this.convertRecordValues(record.fields, sourceFields, targetFieldNames, options),
+        record,
+        targetFieldNames
+      );
+      hashes.set(record.record_id, hashRecordValues(converted, fieldNames));
+    }
+    return { fieldNames, hashes };
+  }
 
-    // Keep select options for select fields, but strip IDs (new Base will generate new IDs)
-    if (uiType === 'SingleSelect' || uiType === 'MultiSelect') {
-      if (sanitized.options && Array.isArray(sanitized.options)) {
-        // Remove 'id' from each option - Lark API will generate new IDs
-        const cleanOptions = sanitized.options
-          .filter((opt: { name?: string }) => opt.name) // Only keep options with names
-          .map((opt: { name: string; color?: number; id?: string }) => ({
-            name: opt.name,
-            color: opt.color,
-          }));
-        return { options: cleanOptions };
+  /**
+   * Re-list every verified target table and compare it with the expected content
+   * Tables synced by an incremental run are not verified
+   */
+  private async verifyTables(
+    targetAppToken: string,
+    processedTables: ProcessedTable[]
+  ): Promise<SnapshotVerification> {
+    const tables: SnapshotVerification['tables'] = [];
+
+    for (const table of processedTables) {
+      if (!table.verification) continue;
+
+      try {
+        const targetRecords = await this.client.listRecords(targetAppToken, table.targetTableId);
+        const result = verifyTable(
+          {
+            sourceTableId: table.sourceTableId,
+            targetTableId: table.targetTableId,
+            tableName: table.tableName,
+            recordIdMap: table.recordIdMap,
+            ...table.verification,
+          },
+          targetRecords
+        );
+        console.log(
+          `Verified ${table.tableName}: ${result.targetRecords}/${result.expectedRecords} records, ` +
+          `${result.missingRecordIds.length} missing, ${result.mismatchedRecordIds.length} mismatched, ` +
+          `${result.unexpectedRecordIds.length} unexpected`
+        );
+        tables.push(result);
+      } catch (error) {
+        this.addError({
+          table: table.tableName,
+          message: `Failed to verify table: ${(error as Error).message}`,
+        });
       }
-      return { options: [] };
     }
 
-    return Object.keys(sanitized).length > 0 ? sanitized : undefined;
+    return {
+      passed: tables.every((t) => t.passed),
+      tables,
+      verifiedAt: new Date().toISOString(),
+    };
   }
 
   /**
-   * Convert record values from dynamic to static
-   * Note: Lark API batch_create uses field NAMES as keys, not field IDs
+   * Copy attachments (if requested) and mark the table completed in the checkpoint
+   * Attachments of a resumed table are copied again for every record, since
+   * the interrupted run may have stopped before copying them
    */
-  private convertRecordValues(
-    fields: Record<string, LarkCellValue>,
+  private async completeCheckpointTable(
+    targetAppToken: string,
+    processed: ProcessedTable,
     sourceFields: LarkField[],
-    targetFieldNames: Set<string>
-  ): Record<string, unknown> {
-    const converted: Record<string, unknown> = {};
+    options: ConversionOptions,
+    config: SnapshotConfig,
+    checkpoint: SnapshotCheckpoint
+  ): Promise<void> {
+    const tableCheckpoint = checkpoint.tables[processed.sourceTableId];
+    if (tableCheckpoint.status === 'completed') return;
+
+    if (config.preserveAttachments) {
+      await this.copyAttachments(
+        targetAppToken,
+        processed,
+        sourceFields.filter((f) => this.isPreservedAttachment(f, options)),
+        config.maxAttachmentBytes ?? DEFAULT_MAX_ATTACHMENT_BYTES
+      );
+    }
 
-    for (const sourceField of sourceFields) {
-      // Lark API returns record fields keyed by field NAME
-      const value = fields[sourceField.field_name];
-      const fieldName = sourceField.field_name;
+    tableCheckpoint.status = 'completed';
+    await this.saveCheckpoint(checkpoint);
+  }
 
-      // Skip if field doesn't exist in target or value is null/undefined
-      if (!targetFieldNames.has(fieldName) || value === null || value === undefined) {
-        continue;
-      }
+  /**
+   * Incremental run: copy records modified since the previous run into an
+   * existing snapshot table and record records deleted from the source
+   */
+  private async syncTable(
+    sourceAppToken: string,
+    targetAppToken: string,
+    tableState: SnapshotTableState,
+    summary: IncrementalSnapshotSummary,
+    checkpoint: SnapshotCheckpoint
+  ): Promise<ProcessedTable | null> {
+    const { sourceTableId, targetTableId, tableName } = tableState;
+    console.log(`Syncing table: ${tableName} (${sourceTableId}) since ${new Date(tableState.watermark).toISOString()}`);
+
+    const tableFields = await this.client.listFieldsWithFallback(sourceAppToken, sourceTableId);
+    if (tableFields.length === 0) {
+      this.addError({
+        table: tableName,
+        message: 'Could not retrieve field definitions (Advanced Permissions may be blocking access)',
+      });
+      return null;
+    }
+    const sourceView = await this.getSourceView(
+      tableName,
+      sourceAppToken,
+      sourceTableId,
+      checkpoint.config.sourceBaseUrl
+    );
+    if (sourceView === false) {
+      return null;
+    }
+    const listedFields = this.getViewFields(tableFields, sourceView, checkpoint.config.viewFieldsOnly);
 
-      // Check if dynamic by ui_type OR by type number (for fields with undefined ui_type)
-      const isDynamic = DYNAMIC_FIELD_TYPES.includes(sourceField.ui_type) ||
-                        [11, 18, 19, 20, 21, 1003, 1004].includes(sourceField.type);
+    const policies = checkpoint.config.fieldPolicies?.[sourceTableId] ?? {};
+    if (!this.checkFieldPolicies(tableName, policies, listedFields)) {
+      return null;
+    }
+    const recordFilter = this.getRecordFilter(
+      tableName,
+      checkpoint.config.recordFilters?.[sourceTableId],
+      listedFields
+    );
+    if (!recordFilter) {
+      return null;
+    }
 
-      if (isDynamic) {
-        // Use field NAME as key (not field ID) for batch_create API
-        // Dynamic fields are converted to Text, so ensure value is string
-        const convertedValue = this.convertDynamicValue(
-          value,
-          sourceField.ui_type
-        );
-        // Force to string since dynamic fields become Text fields
-        converted[fieldName] = typeof convertedValue === 'number'
-          ? String(convertedValue)
-          : convertedValue;
-      } else {
-        // Check if this field type was converted to a different type
-        const isUnsupportedType = UNSUPPORTED_TYPE_NUMBERS.includes(sourceField.type);
-
-        // Handle Number fields specially to avoid conversion errors
-        if (sourceField.ui_type === 'Number' || sourceField.ui_type === 'Currency' ||
-            sourceField.ui_type === 'Progress' || sourceField.ui_type === 'Rating') {
-          const numValue = this.sanitizeNumberValue(value);
-          if (numValue !== null) {
-            converted[fieldName] = numValue;
-          }
-        } else if (isUnsupportedType) {
-          // Unsupported fields are converted to Text, so ensure value is string
-          converted[fieldName] = this.extractTextFromValue(value);
-        } else {
-          converted[fieldName] = value;
+    // Use listRecords without fallback: an empty result caused by a permission
+    // error would otherwise mark every record as deleted
+    // Records that no longer match the filter (or left the view) are recorded as deleted
+    const listedRecords = (await this.client.listRecords(sourceAppToken, sourceTableId, {
+      automaticFields: true,
+      onPage: (page) => this.reportPage(page),
+      viewId: sourceView?.view_id,
+    })).filter(recordFilter);
+    const {
+      fields: sourceFields,
+      records: sourceRecords,
+      policies: fieldPolicies,
+    } = applyFieldPolicies(listedFields, listedRecords, policies);
+
+    // Conversions follow the field types created by the first run
+    const targetFieldList = await this.client.listFields(targetAppToken, targetTableId);
+    const targetFieldsByName = new Map(targetFieldList.map((f) => [f.field_name, f]));
+    const linkFields = sourceFields.filter((f) => {
+      const targetField = targetFieldsByName.get(f.field_name);
+      return this.isLinkField(f) && targetField !== undefined && this.isLinkField(targetField);
+    });
+    const targetFieldNames = new Set(
+      targetFieldList
+        .filter((f) => !this.isLinkField(f))
+        .map((f) => f.field_name)
+    );
+    const options: ConversionOptions = {
+      preserveAttachments: targetFieldList.some((f) => this.isAttachmentField(f)),
+      computedFieldTypes: this.getComputedFieldTypesFromTarget(sourceFields, targetFieldsByName),
+      existingFieldTypes: new Map(targetFieldList.map((f) => [f.field_name, f.type])),
+      fieldPolicies,
+    };
+
+    // Records created by an interrupted run are updated instead of created again
+    const tableCheckpoint = checkpoint.tables[sourceTableId] ?? {
+      targetTableId,
+      tableName,
+      status: 'created',
+      recordIdMap: {},
+    };
+    checkpoint.tables[sourceTableId] = tableCheckpoint;
+    const recordIdMap = new Map(Object.entries({
+      ...tableState.recordIdMap,
+      ...tableCheckpoint.recordIdMap,
+    }));
+    // Records without a modified time are always copied
+    const changedRecords = sourceRecords.filter(
+      (r) => (r.last_modified_time ?? Infinity) > tableState.watermark
+    );
+    const newRecords = changedRecords.filter((r) => !recordIdMap.has(r.record_id));
+    const modifiedRecords = changedRecords.filter((r) => recordIdMap.has(r.record_id));
+
+    if (newRecords.length > 0) {
+      let written = 0;
+      const createdRecords = await this.client.createRecords(
+        targetAppToken,
+        targetTableId,
+        newRecords.map((r) => ({
+          fields: this.withSourceRecordId(
+            this.convertRecordValues(r.fields, sourceFields, targetFieldNames, options),
+            r,
+            targetFieldNames
+          ),
+        })),
+        (batch) => {
+          batch.forEach((created, idx) => {
+            const sourceRecordId = newRecords[written + idx].record_id;
+            recordIdMap.set(sourceRecordId, created.record_id);
+            tableCheckpoint.recordIdMap[sourceRecordId] = created.record_id;
+          });
+          written += batch.length;
+          this.reportBatch(batch);
+          void this.saveCheckpointProgress(checkpoint);
         }
+      );
+      summary.created += createdRecords.length;
+    }
+
+    if (modifiedRecords.length > 0) {
+      await this.client.updateRecords(
+        targetAppToken,
+        targetTableId,
+        modifiedRecords.map((r) => {
+          const fields = this.convertRecordValues(r.fields, sourceFields, targetFieldNames, options);
+          // Clear values that were emptied in the source
+          for (const field of sourceFields) {
+            if (targetFieldNames.has(field.field_name) && !(field.field_name in fields)) {
+              fields[field.field_name] = null;
+            }
+          }
+          return { record_id: recordIdMap.get(r.record_id)!, fields };
+        }),
+        (batch) => this.reportBatch(batch)
+      );
+      summary.updated += modifiedRecords.length;
+    }
+
+    const sourceRecordIds = new Set(sourceRecords.map((r) => r.record_id));
+    const deletedRecordIds = [...tableState.deletedRecordIds];
+    for (const recordId of recordIdMap.keys()) {
+      if (!sourceRecordIds.has(recordId) && !deletedRecordIds.includes(recordId)) {
+        deletedRecordIds.push(recordId);
+        summary.deleted++;
       }
     }
 
-    return converted;
+    console.log(`Synced ${tableName}: ${newRecords.length} new, ${modifiedRecords.length} modified, ${deletedRecordIds.length - tableState.deletedRecordIds.length} deleted`);
+
+    const processed: ProcessedTable = {
+      sourceTableId,
+      targetTableId,
+      tableName,
+      sourceRecords: changedRecords,
+      recordIdMap,
+      deferredLinkFields: linkFields,
+      linkFieldsExist: true,
+      linkFieldStates: {},
+      deletedRecordIds,
+    };
+
+    await this.runAfterWriteHooks(targetAppToken, processed, changedRecords, sourceFields, targetFieldNames);
+
+    if (options.preserveAttachments) {
+      await this.copyAttachments(
+        targetAppToken,
+        processed,
+        sourceFields.filter((f) => this.isPreservedAttachment(f, options)),
+        checkpoint.config.maxAttachmentBytes ?? DEFAULT_MAX_ATTACHMENT_BYTES
+      );
+    }
+
+    tableCheckpoint.status = 'completed';
+    await this.saveCheckpoint(checkpoint);
+
+    return processed;
   }
 
   /**
-   * Sanitize number field values to ensure they are valid numbers
+   * Call the afterWrite hooks of the field converters with the records just written
+   * A failing hook is reported as an error; the records stay written
    */
-  private sanitizeNumberValue(value: LarkCellValue): number | null {
-    if (value === null || value === undefined || value === '') {
-      return null;
+  private async runAfterWriteHooks(
+    targetAppToken: string,
+    table: ProcessedTable,
+    writtenRecords: LarkRecord[],
+    sourceFields: LarkField[],
+    targetFieldNames: Set<string>
+  ): Promise<void> {
+    const records = writtenRecords
+      .filter((r) => table.recordIdMap.has(r.record_id))
+      .map((r) => ({ source: r, targetRecordId: table.recordIdMap.get(r.record_id)! }));
+    if (records.length === 0) return;
+
+    for (const field of sourceFields.filter((f) => targetFieldNames.has(f.field_name))) {
+      const converter = this.converters.get(field);
+      if (!converter.afterWrite) continue;
+
+      try {
+        await converter.afterWrite({
+          appToken: targetAppToken,
+          tableId: table.targetTableId,
+          field,
+          records,
+          updateRecords: async (updates) => {
+            await this.client.updateRecords(targetAppToken, table.targetTableId, updates);
+          },
+        });
+      } catch (error) {
+        this.addError({
+          table: table.tableName,
+          field: field.field_name,
+          message: `Field converter hook failed: ${(error as Error).message}`,
+          code: 'FIELD_CONVERTER_HOOK_FAILED',
+        });
+      }
     }
-    if (typeof value === 'number') {
-      return isNaN(value) ? null : value;
+  }
+
+  /**
+   * Warn about Email values that are not valid addresses (they are still copied as text)
+   */
+  private checkEmailValues(tableName: string, sourceFields: LarkField[], sourceRecords: LarkRecord[]): void {
+    for (const field of sourceFields.filter((f) => getFieldTypeMapping(f).conversion === 'email')) {
+      const invalidCount = sourceRecords.filter((r) => {
+        const value = r.fields[field.field_name];
+        if (value === null || value === undefined) return false;
+        const address = toEmailAddress(value);
+        return address !== '' && !isValidEmail(address);
+      }).length;
+
+      if (invalidCount > 0) {
+        this.warnings.push({
+          table: tableName,
+          field: field.field_name,
+          message: `${invalidCount} value(s) are not valid e-mail addresses and were copied as text`,
+        });
+      }
     }
-    if (typeof value === 'string') {
-      const num = parseFloat(value);
-      return isNaN(num) ? null : num;
+  }
+
+  /**
+   * Read the static types chosen for Formula / Lookup fields by a previous
+   * run from the existing target fields
+   */
+  private getComputedFieldTypesFromTarget(
+    sourceFields: LarkField[],
+    targetFieldsByName: Map<string, LarkField>
+  ): Map<string, StaticValueType> {
+    const staticTypes: Record<number, StaticValueType> = {
+      [LARK_FIELD_TYPES.Number]: 'Number',
+      [LARK_FIELD_TYPES.DateTime]: 'DateTime',
+      [LARK_FIELD_TYPES.Checkbox]: 'Checkbox',
+    };
+    const types = new Map<string, StaticValueType>();
+
+    for (const field of sourceFields.filter((f) => isComputedField(f))) {
+      const targetField = targetFieldsByName.get(field.field_name);
+      types.set(field.field_name, (targetField && staticTypes[targetField.type]) || 'Text');
     }
-    return null;
+
+    return types;
   }
 
   /**
-   * Convert a dynamic field value to static text
+   * Save the state of this run so the next incremental run can continue it
+   * Tables that were not processed keep their previous state
    */
-  private convertDynamicValue(
-    value: LarkCellValue,
-    uiType: LarkFieldType
-  ): string | number {
-    if (value === null || value === undefined) {
-      return '';
+  private async saveSnapshotState(
+    key: string,
+    sourceAppToken: string,
+    targetBase: LarkBase,
+    watermark: number,
+    previousState: SnapshotState | null,
+    processedTables: ProcessedTable[]
+  ): Promise<void> {
+    const tables: Record<string, SnapshotTableState> = { ...previousState?.tables };
+    for (const table of processedTables) {
+      tables[table.sourceTableId] = {
+        sourceTableId: table.sourceTableId,
+        targetTableId: table.targetTableId,
+        tableName: table.tableName,
+        watermark,
+        recordIdMap: Object.fromEntries(table.recordIdMap),
+        deletedRecordIds: table.deletedRecordIds,
+      };
     }
 
-    switch (uiType) {
-      case 'User':
-      case 'CreatedUser':
-      case 'ModifiedUser':
-        return this.convertUserValue(value);
+    try {
+      await this.stateStore.save({
+        key,
+        sourceAppToken,
+        targetBase,
+        tables,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.addError({
+        message: `Failed to save snapshot state: ${(error as Error).message}`,
+      });
+    }
+  }
 
-      case 'SingleLink':
-      case 'DuplexLink':
-        return this.convertLinkValue(value);
+  /**
+   * Choose a static field type for every Formula / Lookup field
+   * by sampling its record values
+   */
+  private inferComputedFieldTypes(
+    sourceFields: LarkField[],
+    sourceRecords: LarkRecord[]
+  ): Map<string, StaticValueType> {
+    const types = new Map<string, StaticValueType>();
+
+    for (const field of sourceFields.filter((f) => isComputedField(f))) {
+      const values = sourceRecords.map((r) => r.fields?.[field.field_name] ?? null);
+      const type = inferStaticFieldType(field, values);
+      types.set(field.field_name, type);
+      console.log(`Inferred static type for ${field.field_name}: ${type}`);
+    }
 
-      case 'Lookup':
-        return this.convertLookupValue(value);
+    return types;
+  }
+
+  /**
+   * Second pass: recreate link fields between snapshot tables and point
+   * them at the copied records. Links whose target table could not be
+   * copied fall back to frozen text.
+   */
+  private async rebuildLinks(
+    targetAppToken: string,
+    processedTables: ProcessedTable[]
+  ): Promise<void> {
+    const bySourceTableId = new Map(processedTables.map((t) => [t.sourceTableId, t]));
 
-      case 'Formula':
-        return this.convertFormulaValue(value);
+    for (const table of processedTables) {
+      for (const field of table.deferredLinkFields) {
+        const linkedTable = bySourceTableId.get(this.getLinkedTableId(field) ?? '');
 
-      case 'Attachment':
-        return this.convertAttachmentValue(value);
+        const state = table.linkFieldStates[field.field_name];
+        // A field frozen to text by an earlier attempt keeps its text
+        if (state === 'text') continue;
 
-      default:
-        return String(value);
+        try {
+          // A resumed table may already have the field from a failed attempt
+          const existingType = table.targetFieldTypes?.get(field.field_name);
+          const existingIsText = existingType !== undefined &&
+            existingType !== LARK_FIELD_TYPES.SingleLink && existingType !== LARK_FIELD_TYPES.DuplexLink;
+
+          if (table.linkFieldsExist || state === 'linked') {
+            // Incremental runs can only map links into tables synced in this run
+            if (!linkedTable) continue;
+          } else if (!linkedTable || existingIsText) {
+            await this.writeLinkFieldAsText(targetAppToken, table, field, existingType === undefined);
+            table.linkFieldStates[field.field_name] = 'text';
+            continue;
+          } else if (existingType === undefined) {
+            // DuplexLink is recreated as SingleLink on both sides, otherwise
+            // Lark would add a second back-reference field to the linked table
+            await this.client.createField(targetAppToken, table.targetTableId, {
+              field_name: field.field_name,
+              type: LARK_FIELD_TYPES.SingleLink,
+              ui_type: 'SingleLink',
+              property: { table_id: linkedTable.targetTableId, multiple: true },
+            });
+          }
+
+          const updates: Array<{ record_id: string; fields: Record<string, unknown> }> = [];
+          for (const record of table.sourceRecords) {
+            const targetRecordId = table.recordIdMap.get(record.record_id);
+            const value = record.fields?.[field.field_name];
+            if (!targetRecordId || !Array.isArray(value)) continue;
+
+            const linkedIds = this.getLinkedRecordIds(value as LarkLinkValue[])
+              .map((id) => linkedTable.recordIdMap.get(id))
+              .filter((id): id is string => Boolean(id));
+            if (linkedIds.length > 0) {
+              updates.push({ record_id: targetRecordId, fields: { [field.field_name]: linkedIds } });
+            }
+          }
+
+          await this.client.updateRecords(targetAppToken, table.targetTableId, updates);
+          table.linkFieldStates[field.field_name] = 'linked';
+          console.log(`Rebuilt link field ${field.field_name} in ${table.tableName} (${updates.length} records)`);
+        } catch (error) {
+          this.addError({
+            table: table.tableName,
+            field: field.field_name,
+            message: `Failed to rebuild link field: ${(error as Error).message}`,
+          });
+        }
+      }
     }
   }
 
   /**
-   * Convert user field value to text
+   * Create a deferred link field as Text and fill it with frozen display text
    */
-  private convertUserValue(value: LarkCellValue): string {
-    if (Array.isArray(value)) {
-      return (value as LarkUserValue[])
-        .map((u) => u.name || u.en_name || u.id)
-        .join(', ');
+  private async writeLinkFieldAsText(
+    targetAppToken: string,
+    table: ProcessedTable,
+    field: LarkField,
+    createField = true
+  ): Promise<void> {
+    if (createField) {
+      this.fieldsConverted++;
+      await this.client.createField(targetAppToken, table.targetTableId, {
+        field_name: field.field_name,
+        type: LARK_FIELD_TYPES.Text,
+        ui_type: 'Text',
+      });
     }
 
-    const user = value as LarkUserValue;
-    return user.name || user.en_name || user.id || '';
+    const updates = table.sourceRecords
+      .map((record) => ({
+        record_id: table.recordIdMap.get(record.record_id) ?? '',
+        text: convertLinkValue(record.fields?.[field.field_name] ?? null),
+      }))
+      .filter((u) => u.record_id && u.text)
+      .map((u) => ({ record_id: u.record_id, fields: { [field.field_name]: u.text } }));
+
+    await this.client.updateRecords(targetAppToken, table.targetTableId, updates);
   }
 
   /**
-   * Convert link (relation) field value to text
+   * Check whether a field is a SingleLink or DuplexLink field
    */
-  private convertLinkValue(value: LarkCellValue): string {
-    if (!Array.isArray(value)) {
-      return '';
-    }
+  private isLinkField(field: LarkField): boolean {
+    return field.ui_type === 'SingleLink' || field.ui_type === 'DuplexLink' ||
+           field.type === LARK_FIELD_TYPES.SingleLink || field.type === LARK_FIELD_TYPES.DuplexLink;
+  }
 
-    return (value as LarkLinkValue[])
-      .map((link) => link.text || link.record_id)
-      .join(', ');
+  /**
+   * Get the source table ID a link field points at
+   */
+  private getLinkedTableId(field: LarkField): string | undefined {
+    return field.property?.table_id || field.property?.link_table_id;
+  }
+
+  /**
+   * Collect linked record IDs from a link value
+   * (Lark returns either record_id or record_ids depending on the API version)
+   */
+  private getLinkedRecordIds(value: LarkLinkValue[]): string[] {
+    return value.flatMap((link) => link.record_ids ?? (link.record_id ? [link.record_id] : []));
   }
 
   /**
-   * Convert attachment field value to file names
+   * Download attachment files from source records and re-upload them to the
+   * matching target records
    */
-  private convertAttachmentValue(value: LarkCellValue): string {
-    if (!Array.isArray(value)) {
-      return '';
+  private async copyAttachments(
+    targetAppToken: string,
+    table: ProcessedTable,
+    sourceFields: LarkField[],
+    maxBytes: number
+  ): Promise<void> {
+    const { targetTableId, tableName } = table;
+    const attachmentFields = sourceFields.filter((f) => this.isAttachmentField(f));
+    if (attachmentFields.length === 0) return;
+
+    for (const sourceRecord of table.sourceRecords) {
+      const targetRecordId = table.recordIdMap.get(sourceRecord.record_id);
+
+      for (const field of attachmentFields) {
+        const value = sourceRecord.fields?.[field.field_name];
+        if (!Array.isArray(value) || value.length === 0) continue;
+
+        if (!targetRecordId) {
+          this.addError({
+            table: tableName,
+            record: sourceRecord.record_id,
+            field: field.field_name,
+            message: 'Target record was not created, attachments skipped',
+            code: 'ATTACHMENT_COPY_FAILED',
+          });
+          continue;
+        }
+
+        const fileTokens: string[] = [];
+        for (const attachment of value as LarkAttachmentValue[]) {
+          const fileToken = await this.copyAttachment(
+            targetAppToken,
+            targetTableId,
+            targetRecordId,
+            field.field_name,
+            attachment,
+            maxBytes,
+            { table: tableName, record: sourceRecord.record_id, field: field.field_name }
+          );
+          if (fileToken) {
+            fileTokens.push(fileToken);
+          }
+        }
+
+        if (fileTokens.length === 0) continue;
+
+        try {
+          await this.client.updateRecordField(targetAppToken, targetTableId, targetRecordId, {
+            [field.field_name]: fileTokens.map((token) => ({ file_token: token })),
+          });
+        } catch (error) {
+          this.addError({
+            table: tableName,
+            record: sourceRecord.record_id,
+            field: field.field_name,
+            message: `Failed to attach copied files: ${(error as Error).message}`,
+            code: 'ATTACHMENT_COPY_FAILED',
+          });
+        }
+      }
     }
 
-    return (value as LarkAttachmentValue[])
-      .map((att) => att.name || att.file_token || '')
-      .filter((name) => name !== '')
-      .join(', ');
+    console.log(`Copied attachments for ${tableName} (total: ${this.attachmentBytesCopied} bytes)`);
   }
 
   /**
-   * Convert lookup field value to text
+   * Copy a single attachment file, respecting the total size limit
+   * Returns the new file_token, or null if the file was skipped or failed
    */
-  private convertLookupValue(value: LarkCellValue): string {
-    // Lookup values can be arrays of various types
-    if (Array.isArray(value)) {
-      return value
-        .map((v) => this.extractTextFromValue(v))
-        .filter((s) => s !== '')
-        .join(', ');
+  private async copyAttachment(
+    targetAppToken: string,
+    targetTableId: string,
+    targetRecordId: string,
+    fieldName: string,
+    attachment: LarkAttachmentValue,
+    maxBytes: number,
+    location: Pick<SnapshotError, 'table' | 'record' | 'field'>
+  ): Promise<string | null> {
+    const fileName = attachment.name || attachment.file_token;
+
+    // Check the declared size first to avoid downloading files we cannot keep
+    if (this.attachmentBytesCopied + (attachment.size || 0) > maxBytes) {
+      this.addError({
+        ...location,
+        message: `Attachment "${fileName}" skipped: total size limit of ${maxBytes} bytes exceeded`,
+        code: 'ATTACHMENT_LIMIT_EXCEEDED',
+      });
+      return null;
     }
 
-    if (typeof value === 'object' && value !== null) {
-      return this.extractTextFromValue(value);
+    try {
+      const { buffer, contentType } = await this.client.downloadAttachment(attachment.file_token);
+
+      if (this.attachmentBytesCopied + buffer.length > maxBytes) {
+        this.addError({
+          ...location,
+          message: `Attachment "${fileName}" skipped: total size limit of ${maxBytes} bytes exceeded`,
+          code: 'ATTACHMENT_LIMIT_EXCEEDED',
+        });
+        return null;
+      }
+      this.attachmentBytesCopied += buffer.length;
+
+      return await this.client.uploadAttachment(
+        targetAppToken,
+        targetTableId,
+        targetRecordId,
+        fieldName,
+        fileName,
+        buffer,
+        attachment.type || contentType
+      );
+    } catch (error) {
+      this.addError({
+        ...location,
+        message: `Failed to copy attachment "${fileName}": ${(error as Error).message}`,
+        code: 'ATTACHMENT_COPY_FAILED',
+      });
+      return null;
     }
+  }
 
-    return String(value);
+  /**
+   * Check whether a field is an Attachment field
+   */
+  private isAttachmentField(field: LarkField): boolean {
+    return field.ui_type === 'Attachment' || field.type === LARK_FIELD_TYPES.Attachment;
   }
 
   /**
-   * Convert formula field value
+   * Get the conversion context of a source field for the current table
    */
-  private convertFormulaValue(value: LarkCellValue): string | number {
-    // Formula can return string, number, or complex types
-    if (typeof value === 'number') {
-      return value;
-    }
+  private getConverterContext(field: LarkField, options: ConversionOptions): FieldConverterContext {
+    const policy = options.fieldPolicies?.get(field.field_name);
+    return {
+      computedType: policy?.action === 'typed'
+        ? policy.valueType
+        : options.computedFieldTypes.get(field.field_name),
+      existingFieldType: options.existingFieldTypes?.get(field.field_name),
+      timeZone: this.timeZone,
+    };
+  }
 
-    if (typeof value === 'string') {
-      return value;
+  /**
+   * Get the time zone dates frozen to text are shown in: the requested one,
+   * then the source Base's (undefined means the server's local time zone)
+   */
+  private getTimeZone(config: Pick<SnapshotConfig, 'timeZone'>, sourceBase: LarkBase): string | undefined {
+    if (config.timeZone && !isValidTimeZone(config.timeZone)) {
+      throw new Error(`Unknown time zone: ${config.timeZone}`);
     }
+    const timeZone = config.timeZone || sourceBase.time_zone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+  }
 
-    if (Array.isArray(value)) {
-      return value.map((v) => this.extractTextFromValue(v)).join(', ');
+  /**
+   * Get the converter of a source field, following its field policy
+   */
+  private getConverter(field: LarkField, options: ConversionOptions): FieldConverter {
+    switch (options.fieldPolicies?.get(field.field_name)?.action) {
+      case 'text':
+        return BUILT_IN_FIELD_CONVERTERS.text;
+      case 'typed':
+        return BUILT_IN_FIELD_CONVERTERS.computed;
+      default:
+        return this.converters.get(field);
     }
+  }
 
-    // Handle object values (Lark returns formula results as objects)
-    if (typeof value === 'object' && value !== null) {
-      return this.extractTextFromValue(value);
-    }
+  /**
+   * Check whether a field policy freezes the field to text or a typed value
+   */
+  private isFrozenByPolicy(field: LarkField, policies?: Map<string, FieldPolicy>): boolean {
+    const action = policies?.get(field.field_name)?.action;
+    return action === 'text' || action === 'typed';
+  }
 
-    return String(value);
+  /**
+   * Check whether the files of an Attachment field are copied
+   */
+  private isPreservedAttachment(field: LarkField, options: ConversionOptions): boolean {
+    return options.preserveAttachments && this.isAttachmentField(field) &&
+      !this.isFrozenByPolicy(field, options.fieldPolicies);
   }
 
   /**
-   * Extract text from complex Lark value objects
+   * Report field policies that do not match the source table
+   * Returns false (the table is skipped) when there are any
    */
-  private extractTextFromValue(val: unknown): string {
-    if (val === null || val === undefined) {
-      return '';
+  private checkFieldPolicies(
+    tableName: string,
+    policies: Record<string, FieldPolicy>,
+    sourceFields: LarkField[]
+  ): boolean {
+    const problems = validateFieldPolicies(policies, sourceFields);
+    for (const message of problems) {
+      this.addError({ table: tableName, message: `Invalid field policy: ${message}`, code: 'INVALID_FIELD_POLICY' });
     }
+    return problems.length === 0;
+  }
 
-    if (typeof val === 'string') {
-      return val;
+  /**
+   * Read the view the source URL points at, when it belongs to this table
+   * Returns false (the table is skipped) when the view cannot be read
+   */
+  private async getSourceView(
+    tableName: string,
+    sourceAppToken: string,
+    sourceTableId: string,
+    sourceBaseUrl: string
+  ): Promise<LarkView | null | false> {
+    try {
+      const view = await this.client.resolveUrlView(sourceAppToken, sourceTableId, sourceBaseUrl);
+      if (view) {
+        console.log(`Limiting ${tableName} to view: ${view.view_name} (${view.view_id})`);
+      }
+      return view;
+    } catch (error) {
+      this.addError({
+        table: tableName,
+        view: this.client.parseViewIdFromUrl(sourceBaseUrl) ?? undefined,
+        message: `Could not read the view of the source URL: ${(error as Error).message}`,
+        code: 'SOURCE_VIEW_UNAVAILABLE',
+      });
+      return false;
     }
+  }
 
-    if (typeof val === 'number' || typeof val === 'boolean') {
-      return String(val);
+  /**
+   * Fields copied from a table: the fields visible in the source view when
+   * requested (the primary field is always kept), otherwise every field
+   */
+  private getViewFields(
+    fields: LarkField[],
+    view: LarkView | null,
+    viewFieldsOnly?: boolean
+  ): LarkField[] {
+    if (!view || !viewFieldsOnly) {
+      return fields;
     }
+    const hidden = new Set(view.property?.hidden_fields ?? []);
+    return fields.filter((f) => f.is_primary || !hidden.has(f.field_id));
+  }
 
-    if (typeof val === 'object') {
-      const obj = val as Record<string, unknown>;
+  /**
+   * Compile the record filter of a table (every record matches without one)
+   * Returns null (the table is skipped) when the expression is invalid
+   */
+  private getRecordFilter(
+    tableName: string,
+    expression: string | undefined,
+    sourceFields: LarkField[]
+  ): ((record: LarkRecord) => boolean) | null {
+    if (!expression?.trim()) {
+      return () => true;
+    }
+    try {
+      return compileRecordFilter(expression, sourceFields, this.timeZone);
+    } catch (error) {
+      this.addError({
+        table: tableName,
+        message: `Invalid record filter: ${(error as Error).message}`,
+        code: 'INVALID_RECORD_FILTER',
+      });
+      return null;
+    }
+  }
 
-      // Try common property names for text values
-      if ('text' in obj && typeof obj.text === 'string') {
-        return obj.text;
-      }
-      if ('value' in obj) {
-        return this.extractTextFromValue(obj.value);
+  /**
+   * Convert field definitions from dynamic to static types
+   * (a converter may add fields, e.g. latitude / longitude after a Location field)
+   */
+  private convertFieldDefinitions(
+    sourceFields: LarkField[],
+    options: ConversionOptions
+  ): Partial<LarkField>[] {
+    return sourceFields.flatMap((field): Partial<LarkField>[] => {
+      // Attachment files are copied after the records are created
+      if (this.isPreservedAttachment(field, options)) {
+        return [{
+          field_name: field.field_name,
+          type: LARK_FIELD_TYPES.Attachment,
+          ui_type: 'Attachment' as LarkFieldType,
+        }];
       }
-      if ('name' in obj && typeof obj.name === 'string') {
-        return obj.name;
+
+      // Debug: log all field types to identify unsupported ones
+      console.log(`Field: ${field.field_name}, ui_type: ${field.ui_type}, type: ${field.type}, conversion: ${getFieldTypeMapping(field).conversion}`);
+
+      const definitions = this.getConverter(field, options)
+        .toFieldDefinitions(field, this.getConverterContext(field, options));
+      if (definitions.length > 1 || definitions[0]?.ui_type !== field.ui_type) {
+        this.fieldsConverted++;
       }
-      if ('en_name' in obj && typeof obj.en_name === 'string') {
-        return obj.en_name;
+      return definitions;
+    });
+  }
+
+
+  /**
+   * Add the source record_id to converted values
+   * (snapshot tables created before the column existed are left as they are)
+   */
+  private withSourceRecordId(
+    fields: Record<string, unknown>,
+    record: LarkRecord,
+    targetFieldNames: Set<string>
+  ): Record<string, unknown> {
+    if (targetFieldNames.has(SOURCE_RECORD_ID_FIELD)) {
+      fields[SOURCE_RECORD_ID_FIELD] = record.record_id;
+    }
+    return fields;
+  }
+
+  /**
+   * Convert record values from dynamic to static
+   * Note: Lark API batch_create uses field NAMES as keys, not field IDs
+   */
+  private convertRecordValues(
+    fields: Record<string, LarkCellValue>,
+    sourceFields: LarkField[],
+    targetFieldNames: Set<string>,
+    options: ConversionOptions
+  ): Record<string, unknown> {
+    const converted: Record<string, unknown> = {};
+
+    for (const sourceField of sourceFields) {
+      // Lark API returns record fields keyed by field NAME
+      const value = fields[sourceField.field_name];
+      const fieldName = sourceField.field_name;
+
+      // Skip if field doesn't exist in target or value is null/undefined
+      if (!targetFieldNames.has(fieldName) || value === null || value === undefined) {
+        continue;
       }
 
-      // If it's an array, recursively extract
-      if (Array.isArray(obj)) {
-        return obj.map((item) => this.extractTextFromValue(item)).join(', ');
+      // Attachment values are filled in by copyAttachments after creation
+      if (this.isPreservedAttachment(sourceField, options)) {
+        continue;
       }
 
-      // Last resort: JSON stringify
-      return JSON.stringify(val);
+      const values = this.getConverter(sourceField, options)
+        .convertValue(value, sourceField, this.getConverterContext(sourceField, options));
+      // Values the converter could not produce, or for fields missing in the target, stay empty
+      for (const [name, fieldValue] of Object.entries(values)) {
+        if (fieldValue !== null && fieldValue !== undefined && targetFieldNames.has(name)) {
+          converted[name] = fieldValue;
+        }
+      }
     }
 
-    return String(val);
+    return converted;
   }
 }
 
@@ -0,0 +1,93 @@
+/**
+ * Snapshot State Store
+ *
+ * @description Persists the state of a snapshot series (watermark and
+ * source -> target record map) so incremental runs can continue from it
+ */
+
+import type { SnapshotState } from '../types/index.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+// Check if running in serverless environment (Vercel)
+const IS_SERVERLESS = process.env.VERCEL === '1' || process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+// Default state file location (next to .sessions.json)
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_STATE_FILE = join(__dirname, '../../.snapshot-state.json');
+
+/** Storage for snapshot series state */
+export interface SnapshotStateStore {
+  get(key: string): Promise<SnapshotState | null>;
+  save(state: SnapshotState): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Build the state key of a snapshot series
+ */
+export function getSnapshotStateKey(sourceAppToken: string, targetBaseName: string): string {
+  return `${sourceAppToken}:${targetBaseName}`;
+}
+
+/**
+ * In-memory state store (state is lost when the process exits)
+ */
+export class InMemorySnapshotStateStore implements SnapshotStateStore {
+  private states = new Map<string, SnapshotState>();
+
+  async get(key: string): Promise<SnapshotState | null> {
+    return this.states.get(key) ?? null;
+  }
+
+  async save(state: SnapshotState): Promise<void> {
+    this.states.set(state.key, state);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.states.delete(key);
+  }
+}
+
+/**
+ * File-backed state store (all series are kept in a single JSON file)
+ */
+export class FileSnapshotStateStore implements SnapshotStateStore {
+  constructor(private filePath: string = DEFAULT_STATE_FILE) {}
+
+  private load(): Record<string, SnapshotState> {
+    try {
+      if (existsSync(this.filePath)) {
+        return JSON.parse(readFileSync(this.filePath, 'utf-8'));
+      }
+    } catch (error) {
+      console.error('Failed to read snapshot state:', (error as Error).message);
+    }
+    return {};
+  }
+
+  async get(key: string): Promise<SnapshotState | null> {
+    return this.load()[key] ?? null;
+  }
+
+  async save(state: SnapshotState): Promise<void> {
+    const states = this.load();
+    states[state.key] = state;
+    writeFileSync(this.filePath, JSON.stringify(states, null, 2));
+  }
+
+  async delete(key: string): Promise<void> {
+    const states = this.load();
+    delete states[key];
+    writeFileSync(this.filePath, JSON.stringify(states, null, 2));
+  }
+}
+
+/**
+ * Create the default state store for the current environment
+ * (file-backed in development, in-memory in serverless)
+ */
+export function createDefaultStateStore(): SnapshotStateStore {
+  return IS_SERVERLESS ? new InMemorySnapshotStateStore() : new FileSnapshotStateStore();
+}
@@ -0,0 +1,78 @@
+/**
+ * Snapshot Verification
+ *
+ * @description Checks a copied snapshot table against what was meant to be written:
+ * record counts and a per-record hash of the converted values
+ */
+
+import { createHash } from 'crypto';
+import { toComparableText } from './cellText.js';
+import type { LarkRecord, SnapshotVerificationTable } from '../types/index.js';
+
+/** What a verified table was meant to contain */
+export interface ExpectedTableContent {
+  sourceTableId: string;
+  targetTableId: string;
+  tableName: string;
+  /** Target fields covered by the hashes */
+  fieldNames: string[];
+  /** Source record_id -> hash of the converted values */
+  hashes: Map<string, string>;
+  /** Source record_id -> target record_id */
+  recordIdMap: Map<string, string>;
+}
+
+/**
+ * Hash the values of the given fields
+ * Values are compared as display text, so a string written to a Text field
+ * matches the rich text segments Lark returns for it
+ */
+export function hashRecordValues(fields: Record<string, unknown>, fieldNames: string[]): string {
+  const hash = createHash('sha256');
+  for (const name of [...fieldNames].sort()) {
+    hash.update(JSON.stringify([name, toComparableText(fields[name])]));
+    hash.update('\n');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Compare the re-listed target records with the expected content
+ */
+export function verifyTable(
+  expected: ExpectedTableContent,
+  targetRecords: LarkRecord[]
+): SnapshotVerificationTable {
+  const targetById = new Map(targetRecords.map((r) => [r.record_id, r]));
+  const expectedTargetIds = new Set(expected.recordIdMap.values());
+
+  const missingRecordIds: string[] = [];
+  const mismatchedRecordIds: string[] = [];
+  for (const [sourceRecordId, hash] of expected.hashes) {
+    const targetRecordId = expected.recordIdMap.get(sourceRecordId);
+    const target = targetRecordId ? targetById.get(targetRecordId) : undefined;
+    if (!target) {
+      missingRecordIds.push(sourceRecordId);
+    } else if (hashRecordValues(target.fields, expected.fieldNames) !== hash) {
+      mismatchedRecordIds.push(sourceRecordId);
+    }
+  }
+  const unexpectedRecordIds = targetRecords
+    .filter((r) => !expectedTargetIds.has(r.record_id))
+    .map((r) => r.record_id);
+
+  return {
+    sourceTableId: expected.sourceTableId,
+    targetTableId: expected.targetTableId,
+    tableName: expected.tableName,
+    expectedRecords: expected.hashes.size,
+    targetRecords: targetRecords.length,
+    missingRecordIds,
+    mismatchedRecordIds,
+    unexpectedRecordIds,
+    passed: targetRecords.length === expected.hashes.size &&
+      missingRecordIds.length === 0 &&
+      mismatchedRecordIds.length === 0 &&
+      unexpectedRecordIds.length === 0,
+  };
+}
@@ -0,0 +1,191 @@
+/**
+ * SQLite Exporter
+ *
+ * @description Writes a frozen snapshot as a SQLite database with one table per snapshot table
+ * Column types follow the field type; multi-value fields (MultiSelect, User) are stored
+ * as a JSON array column plus a `<table>__<field>` child table with one row per value
+ */
+
+import initSqlJs, { type SqlJsStatic, type SqlValue } from 'sql.js';
+import { getColumnType } from './xlsxExporter.js';
+import { formatCellText } from './csvExporter.js';
+import { SOURCE_RECORD_ID_FIELD } from '../types/index.js';
+import type { FrozenField, FrozenSnapshot, LarkFieldType } from '../types/index.js';
+
+/** Table holding the source Base, capture time and per-table counts */
+export const SNAPSHOT_META_TABLE = '_snapshot_meta';
+
+/** Field types that were User fields before conversion (frozen as comma-separated names) */
+const USER_FIELD_TYPES: LarkFieldType[] = ['User', 'CreatedUser', 'ModifiedUser'];
+
+/** SQLite column affinity by cell type (dates are Unix milliseconds, checkboxes 0 / 1) */
+const SQLITE_COLUMN_TYPES = {
+  number: 'REAL',
+  date: 'INTEGER',
+  boolean: 'INTEGER',
+  text: 'TEXT',
+} as const;
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load the SQLite WebAssembly module once per process
+ */
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= initSqlJs();
+  return sqlJs;
+}
+
+/**
+ * Whether a field holds a list of values that gets a child table
+ */
+export function isMultiValueField(field: FrozenField): boolean {
+  return field.ui_type === 'MultiSelect' ||
+    (field.source_ui_type !== undefined && USER_FIELD_TYPES.includes(field.source_ui_type));
+}
+
+/**
+ * Get the SQLite column type of a field
+ */
+export function getSqliteColumnType(field: FrozenField): 'REAL' | 'INTEGER' | 'TEXT' {
+  return isMultiValueField(field) ? 'TEXT' : SQLITE_COLUMN_TYPES[getColumnType(field)];
+}
+
+/**
+ * Split a multi-value cell into its values
+ * User names were joined with ", " by the snapshot conversion, so they are split back here
+ */
+export function toMultiValues(field: FrozenField, value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map((v) => formatCellText(field, v)).filter((v) => v !== '');
+  }
+  const text = formatCellText(field, value);
+  if (text === '') {
+    return [];
+  }
+  return field.ui_type === 'MultiSelect' ? [text] : text.split(', ').filter((v) => v !== '');
+}
+
+/**
+ * Convert a frozen cell value to a SQLite value
+ */
+function toSqlValue(field: FrozenField, value: unknown): SqlValue {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  if (isMultiValueField(field)) {
+    const values = toMultiValues(field, value);
+    return values.length > 0 ? JSON.stringify(values) : null;
+  }
+
+  switch (getColumnType(field)) {
+    case 'number':
+    case 'date':
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    case 'boolean':
+      return typeof value === 'boolean' ? Number(value) : null;
+    default: {
+      const text = formatCellText(field, value);
+      return text === '' ? null : text;
+    }
+  }
+}
+
+/**
+ * Quote a table or column name
+ */
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Make a table name unique (SQLite compares names case-insensitively)
+ * and keep it out of the reserved `sqlite_` namespace
+ */
+function toUniqueTableName(name: string, used: Set<string>): string {
+  let base = name.trim() || 'table';
+  if (base.toLowerCase().startsWith('sqlite_')) {
+    base = `_${base}`;
+  }
+  let unique = base;
+  for (let i = 2; used.has(unique.toLowerCase()); i++) {
+    unique = `${base} (${i})`;
+  }
+  used.add(unique.toLowerCase());
+  return unique;
+}
+
+/**
+ * Render a frozen snapshot as a SQLite database file
+ */
+export async function toSqlite(snapshot: FrozenSnapshot): Promise<Buffer> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run('BEGIN');
+    db.run(
+      `CREATE TABLE ${SNAPSHOT_META_TABLE} (` +
+      'table_name TEXT NOT NULL, sqlite_table TEXT NOT NULL, source_table_id TEXT NOT NULL, ' +
+      'field_count INTEGER NOT NULL, record_count INTEGER NOT NULL, ' +
+      'source_base_name TEXT NOT NULL, source_app_token TEXT NOT NULL, captured_at TEXT NOT NULL)'
+    );
+    const insertMeta = db.prepare(`INSERT INTO ${SNAPSHOT_META_TABLE} VALUES (?, ?, ?, ?, ?, ?, ?, ?)`);
+
+    const usedNames = new Set([SNAPSHOT_META_TABLE]);
+    for (const table of snapshot.tables) {
+      const tableName = toUniqueTableName(table.tableName, usedNames);
+      const fields = table.fields.filter((f) => f.field_name !== SOURCE_RECORD_ID_FIELD);
+
+      const columns = [
+        `${quoteIdentifier(SOURCE_RECORD_ID_FIELD)} TEXT PRIMARY KEY`,
+        ...fields.map((f) => `${quoteIdentifier(f.field_name)} ${getSqliteColumnType(f)}`),
+      ];
+      db.run(`CREATE TABLE ${quoteIdentifier(tableName)} (${columns.join(', ')})`);
+
+      const insertRecord = db.prepare(
+        `INSERT INTO ${quoteIdentifier(tableName)} VALUES (${columns.map(() => '?').join(', ')})`
+      );
+      for (const record of table.records) {
+        insertRecord.run([
+          record.sourceRecordId,
+          ...fields.map((f) => toSqlValue(f, record.fields[f.field_name])),
+        ]);
+      }
+      insertRecord.free();
+
+      for (const field of fields.filter(isMultiValueField)) {
+        const childName = toUniqueTableName(`${tableName}__${field.field_name}`, usedNames);
+        db.run(
+          `CREATE TABLE ${quoteIdentifier(childName)} (` +
+          `${quoteIdentifier(SOURCE_RECORD_ID_FIELD)} TEXT NOT NULL REFERENCES ${quoteIdentifier(tableName)}, ` +
+          'position INTEGER NOT NULL, value TEXT NOT NULL)'
+        );
+        const insertValue = db.prepare(`INSERT INTO ${quoteIdentifier(childName)} VALUES (?, ?, ?)`);
+        for (const record of table.records) {
+          toMultiValues(field, record.fields[field.field_name]).forEach((value, position) => {
+            insertValue.run([record.sourceRecordId, position, value]);
+          });
+        }
+        insertValue.free();
+      }
+
+      insertMeta.run([
+        table.tableName,
+        tableName,
+        table.sourceTableId,
+        fields.length,
+        table.records.length,
+        snapshot.sourceBase.name,
+        snapshot.sourceBase.app_token,
+        snapshot.createdAt,
+      ]);
+    }
+    insertMeta.free();
+    db.run('COMMIT');
+
+    return Buffer.from(db.export());
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * View Mapping
+ *
+ * @description Rewrites the settings of a source view for the snapshot table:
+ * field references are remapped to the target field IDs (matched by field name)
+ * and select options to the target option IDs. Settings that no longer apply
+ * are dropped and reported as warnings
+ */
+
+import type {
+  LarkField,
+  LarkViewFilterCondition,
+  LarkViewProperty,
+  LarkViewSortSetting,
+} from '../types/index.js';
+
+/** Link field types (filter values reference source record IDs) */
+const LINK_TYPE_NUMBERS = [18, 21];
+
+/** Select field types (filter values reference option IDs) */
+const SELECT_TYPE_NUMBERS = [3, 4];
+
+/** Remapped view settings and what could not be carried over */
+export interface ViewPropertyMapping {
+  property: LarkViewProperty;
+  warnings: string[];
+}
+
+/**
+ * Remap the option IDs of a select filter value (a JSON array or string of option IDs)
+ * Returns null when an option does not exist in the target field
+ */
+function remapOptionIds(value: string, sourceField: LarkField, targetField: LarkField): string | null {
+  const targetIds = new Map(
+    (targetField.property?.options ?? []).map((o) => [o.name, o.id])
+  );
+  const toTargetId = (optionId: unknown): string | undefined => {
+    const name = sourceField.property?.options?.find((o) => o.id === optionId)?.name;
+    return name !== undefined ? targetIds.get(name) : undefined;
+  };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = value;
+  }
+
+  if (Array.isArray(parsed)) {
+    const mapped = parsed.map(toTargetId);
+    return mapped.every((id) => id !== undefined) ? JSON.stringify(mapped) : null;
+  }
+  const mapped = toTargetId(parsed);
+  return mapped !== undefined ? JSON.stringify(mapped) : null;
+}
+
+/**
+ * Remap a source view's settings to the fields of the snapshot table
+ */
+export function remapViewProperty(
+  property: LarkViewProperty,
+  sourceFields: LarkField[],
+  targetFields: LarkField[]
+): ViewPropertyMapping {
+  const warnings: string[] = [];
+  const sourceById = new Map(sourceFields.map((f) => [f.field_id, f]));
+  const targetByName = new Map(targetFields.map((f) => [f.field_name, f]));
+
+  const resolve = (fieldId: string): { source?: LarkField; target?: LarkField } => {
+    const source = sourceById.get(fieldId);
+    return { source, target: source ? targetByName.get(source.field_name) : undefined };
+  };
+
+  const mapped: LarkViewProperty = {};
+
+  if (property.filter_info) {
+    const conditions: LarkViewFilterCondition[] = [];
+    for (const condition of property.filter_info.conditions ?? []) {
+      const { source, target } = resolve(condition.field_id);
+      const label = source?.field_name ?? condition.field_id;
+
+      if (!source || !target) {
+        warnings.push(`Filter on "${label}" dropped: field is not in the snapshot`);
+      } else if (source.type !== target.type) {
+        warnings.push(`Filter on "${label}" dropped: field was converted to a static ${target.ui_type} field`);
+      } else if (LINK_TYPE_NUMBERS.includes(source.type) && condition.value) {
+        warnings.push(`Filter on "${label}" dropped: it references records of the source Base`);
+      } else if (SELECT_TYPE_NUMBERS.includes(source.type) && condition.value) {
+        const value = remapOptionIds(condition.value, source, target);
+        if (value === null) {
+          warnings.push(`Filter on "${label}" dropped: option not found in the snapshot field`);
+        } else {
+          conditions.push({ field_id: target.field_id, operator: condition.operator, value });
+        }
+      } else {
+        conditions.push({ field_id: target.field_id, operator: condition.operator, value: condition.value });
+      }
+    }
+    mapped.filter_info = conditions.length > 0
+      ? { conjunction: property.filter_info.conjunction, conditions }
+      : null;
+  }
+
+  const remapSettings = (settings: LarkViewSortSetting[], kind: string): LarkViewSortSetting[] =>
+    settings.flatMap((setting) => {
+      const { source, target } = resolve(setting.field_id);
+      if (!target) {
+        warnings.push(`${kind} by "${source?.field_name ?? setting.field_id}" dropped: field is not in the snapshot`);
+        return [];
+      }
+      return [{ field_id: target.field_id, desc: setting.desc }];
+    });
+
+  if (property.sort_info) {
+    mapped.sort_info = remapSettings(property.sort_info, 'Sort');
+  }
+  if (property.group_info) {
+    mapped.group_info = remapSettings(property.group_info, 'Group');
+  }
+
+  if (property.hidden_fields) {
+    mapped.hidden_fields = property.hidden_fields.flatMap((fieldId) => {
+      const { target } = resolve(fieldId);
+      return target ? [target.field_id] : [];
+    });
+  }
+
+  if (property.hierarchy_config?.field_id) {
+    const { source, target } = resolve(property.hierarchy_config.field_id);
+    if (target) {
+      mapped.hierarchy_config = { field_id: target.field_id };
+    } else {
+      warnings.push(`Hierarchy by "${source?.field_name ?? property.hierarchy_config.field_id}" dropped: field is not in the snapshot`);
+    }
+  }
+
+  return { property: mapped, warnings };
+}
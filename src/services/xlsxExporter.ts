@@ -0,0 +1,226 @@
+/**
+ * XLSX Exporter
+ *
+ * @description Writes a frozen snapshot as an Excel workbook with one sheet per table
+ * Cell types follow the field type: numbers, dates and booleans are typed cells,
+ * everything else (including select values) is written as text
+ */
+
+import { createZip } from './zipWriter.js';
+import { formatCellText } from './csvExporter.js';
+import { getDateParts } from './fieldFormatting.js';
+import type { FrozenField, FrozenSnapshot, FrozenTable } from '../types/index.js';
+
+/** Cell type of a column */
+type XlsxColumnType = 'number' | 'date' | 'boolean' | 'text';
+
+/** Column type by Lark field type number */
+const COLUMN_TYPES: Record<number, XlsxColumnType> = {
+  2: 'number',      // Number (also Currency / Progress / Rating after conversion)
+  5: 'date',        // DateTime
+  7: 'boolean',     // Checkbox
+  1001: 'date',     // CreatedTime
+  1002: 'date',     // ModifiedTime
+};
+
+/** Style indexes in styles.xml */
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+
+/** Days between the Excel epoch (1899-12-30) and the Unix epoch */
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 86400000;
+
+/** Excel limits sheet names to 31 characters */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * Get the cell type of a column
+ */
+export function getColumnType(field: FrozenField): XlsxColumnType {
+  if (field.ui_type === 'Progress' || field.ui_type === 'Currency' || field.ui_type === 'Rating') {
+    return 'number';
+  }
+  return COLUMN_TYPES[field.type] ?? 'text';
+}
+
+/**
+ * Convert a millisecond timestamp to an Excel date serial
+ * Excel dates have no time zone, so the serial holds the wall-clock time in the
+ * given time zone (the Base's, or the server's local time zone when none is given)
+ */
+export function toExcelDate(ms: number, timeZone?: string): number {
+  const parts = getDateParts(ms, timeZone);
+  const wallClock = Date.UTC(parts.yyyy, parts.MM - 1, parts.dd, parts.HH, parts.mm, parts.ss) +
+    (((ms % 1000) + 1000) % 1000);
+  return wallClock / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+}
+
+/**
+ * Column letters for a zero-based column index (0 -> A, 26 -> AA)
+ */
+export function toColumnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Escape text for XML, dropping characters XML 1.0 does not allow
+ */
+function escapeXml(text: string): string {
+  let cleaned = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d) {
+      cleaned += char;
+    }
+  }
+  return cleaned
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Make sheet names valid and unique (max 31 chars, no []:*?/\)
+ */
+export function toSheetNames(tableNames: string[]): string[] {
+  const used = new Set<string>();
+  return tableNames.map((tableName) => {
+    const base = (tableName.replace(/[[\]:*?/\\]/g, '_').trim() || 'Sheet').slice(0, MAX_SHEET_NAME_LENGTH);
+    let name = base;
+    for (let i = 2; used.has(name.toLowerCase()); i++) {
+      const suffix = ` (${i})`;
+      name = base.slice(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+/**
+ * Render a single cell, or an empty string for empty values
+ */
+function renderCell(ref: string, field: FrozenField, value: unknown, timeZone?: string): string {
+  if (value === null || value === undefined || value === '') {
+    return '';
+  }
+
+  const type = getColumnType(field);
+  if (type === 'number' && typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (type === 'date' && typeof value === 'number') {
+    return `<c r="${ref}" s="${DATE_STYLE}"><v>${toExcelDate(value, timeZone)}</v></c>`;
+  }
+  if (type === 'boolean' && typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const text = formatCellText(field, value, timeZone);
+  return text === '' ? '' : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+/**
+ * Render the worksheet XML of a table (header row frozen at the top)
+ */
+function renderSheet(table: FrozenTable, timeZone?: string): string {
+  const header = table.fields
+    .map((f, col) =>
+      `<c r="${toColumnName(col)}1" s="${HEADER_STYLE}" t="inlineStr"><is><t>${escapeXml(f.field_name)}</t></is></c>`
+    )
+    .join('');
+  const rows = table.records.map((record, idx) => {
+    const row = idx + 2;
+    const cells = table.fields
+      .map((f, col) => renderCell(`${toColumnName(col)}${row}`, f, record.fields[f.field_name], timeZone))
+      .join('');
+    return `<row r="${row}">${cells}</row>`;
+  });
+  const cols = table.fields
+    .map((f, col) => {
+      const width = Math.min(50, Math.max(10, f.field_name.length + 2));
+      return `<col min="${col + 1}" max="${col + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData><row r="1">${header}</row>${rows.join('')}</sheetData>` +
+    '</worksheet>';
+}
+
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><color rgb="FFFFFFFF"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill>' +
+  '<fill><patternFill patternType="solid"><fgColor rgb="FF3370FF"/><bgColor indexed="64"/></patternFill></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * Render a frozen snapshot as an XLSX workbook
+ */
+export function toXlsx(snapshot: FrozenSnapshot): Buffer {
+  const sheetNames = toSheetNames(snapshot.tables.map((t) => t.tableName));
+  const sheetIds = snapshot.tables.map((_, idx) => idx + 1);
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetIds.map((id) =>
+      `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>';
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+    sheetIds.map((id, idx) =>
+      `<sheet name="${escapeXml(sheetNames[idx])}" sheetId="${id}" r:id="rId${id}"/>`
+    ).join('') +
+    '</sheets></workbook>';
+
+  // Styles come after the sheets so sheet N keeps relationship rIdN
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheetIds.map((id) =>
+      `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${id}.xml"/>`
+    ).join('') +
+    `<Relationship Id="rId${sheetIds.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  return createZip([
+    { name: '[Content_Types].xml', data: Buffer.from(contentTypes, 'utf-8') },
+    { name: '_rels/.rels', data: Buffer.from(rootRels, 'utf-8') },
+    { name: 'xl/workbook.xml', data: Buffer.from(workbook, 'utf-8') },
+    { name: 'xl/_rels/workbook.xml.rels', data: Buffer.from(workbookRels, 'utf-8') },
+    { name: 'xl/styles.xml', data: Buffer.from(STYLES_XML, 'utf-8') },
+    ...snapshot.tables.map((table, idx) => ({
+      name: `xl/worksheets/sheet${sheetIds[idx]}.xml`,
+      data: Buffer.from(renderSheet(table, snapshot.timeZone), 'utf-8'),
+    })),
+  ]);
+}
@@ -46,7 +46,10 @@ export type LarkFieldType =
   | 'Currency'
   | 'Rating'
   | 'Email'
-  | 'Location';
+  | 'Location'
+  | 'GroupChat'
+  | 'Stage'         // Workflow stage
+  | 'Button';
 
 /** Field definition in Lark Base */
 export interface LarkField {
@@ -63,12 +66,25 @@ export interface LarkFieldProperty {
   options?: LarkSelectOption[];
   formatter?: string;
   date_formatter?: string;
+  currency_code?: string;      // For currency fields (ISO 4217, e.g. "CNY")
+  min?: number;                // For progress / rating fields
+  max?: number;                // For progress / rating fields
+  range_customize?: boolean;   // For progress fields
+  rating?: { symbol?: string }; // For rating fields (e.g. "star", "heart")
   auto_fill?: boolean;
   multiple?: boolean;
   table_id?: string;           // For link fields
   link_table_id?: string;      // For link fields
   back_field_id?: string;      // For duplex link
   formula_expression?: string; // For formula fields
+  type?: LarkFieldResultType;  // Result type of formula / lookup fields
+}
+
+/** Result type reported for formula and lookup fields */
+export interface LarkFieldResultType {
+  data_type: number;
+  ui_type?: LarkFieldType;
+  ui_property?: LarkFieldProperty;
 }
 
 /** Select option for SingleSelect/MultiSelect fields */
@@ -89,6 +105,18 @@ export interface LarkTable {
 export interface LarkRecord {
   record_id: string;
   fields: Record<string, LarkCellValue>;
+  created_time?: number;        // Only with automatic_fields=true
+  last_modified_time?: number;  // Only with automatic_fields=true
+}
+
+/** Options for listing records */
+export interface LarkListRecordsOptions {
+  /** Include created_time / last_modified_time in each record */
+  automaticFields?: boolean;
+  /** Called with the records of each page as it is read */
+  onPage?: (records: LarkRecord[]) => void;
+  /** Only list the records visible in this view, in view order */
+  viewId?: string;
 }
 
 /** Possible cell values in Lark Base */
@@ -117,6 +145,7 @@ export interface LarkUserValue {
 /** Link field value (relation) */
 export interface LarkLinkValue {
   record_id: string;
+  record_ids?: string[];  // Returned instead of record_id by some API versions
   text?: string;        // Display text (may change)
   table_id?: string;
 }
@@ -142,10 +171,51 @@ export interface LarkUrlValue {
   link: string;
 }
 
+/** View types in Lark Base */
+export type LarkViewType = 'grid' | 'kanban' | 'gallery' | 'gantt' | 'form';
+
+/** Filter condition of a view */
+export interface LarkViewFilterCondition {
+  field_id: string;
+  operator: string;
+  /** JSON-encoded value (option IDs for select fields, record IDs for link fields) */
+  value?: string;
+  condition_id?: string;
+  field_type?: number;
+}
+
+/** Sort or group-by setting of a view */
+export interface LarkViewSortSetting {
+  field_id: string;
+  desc: boolean;
+}
+
+/** View settings (fields are referenced by field_id) */
+export interface LarkViewProperty {
+  filter_info?: {
+    conjunction: 'and' | 'or';
+    conditions: LarkViewFilterCondition[];
+  } | null;
+  hidden_fields?: string[];
+  hierarchy_config?: { field_id: string } | null;
+  sort_info?: LarkViewSortSetting[];
+  group_info?: LarkViewSortSetting[];
+}
+
+/** View definition */
+export interface LarkView {
+  view_id: string;
+  view_name: string;
+  view_type: LarkViewType;
+  property?: LarkViewProperty;
+}
+
 /** Base (App) definition */
 export interface LarkBase {
   app_token: string;
   name: string;
+  /** Time zone of the Base, e.g. "Asia/Shanghai" */
+  time_zone?: string;
   folder_token?: string;
   url?: string;
 }
@@ -168,11 +238,106 @@ export interface LarkListResponse<T> {
 /** Snapshot configuration */
 export interface SnapshotConfig {
   sourceBaseUrl: string;
+  /** Name of the new Base (ignored when targetBaseUrl is set) */
   targetBaseName: string;
+  /** URL or app_token of an existing Base to add the snapshot tables to */
+  targetBaseUrl?: string;
   grantAdminPermission: boolean;
   /** Copy attachment files to target Base (default: false, convert to file names) */
   preserveAttachments?: boolean;
+  /** Upper limit for the total size of copied attachments in bytes (default: 200 MB) */
+  maxAttachmentBytes?: number;
   selectedTableIds?: string[];
+  /** Only copy records modified since the previous run into the same target Base */
+  incremental?: boolean;
+  /** Re-read the copied tables and compare them with the converted values (default: false) */
+  verify?: boolean;
+  /** Recreate the saved views of each table (default: true) */
+  copyViews?: boolean;
+  /**
+   * Converters replacing the built-in conversion of a field type for this run
+   * (not kept in checkpoints: a resumed run uses the service-wide converters)
+   */
+  fieldConverters?: FieldConverterOverride[];
+  /** Per-field conversion choices, keyed by source table_id and then field_id */
+  fieldPolicies?: Record<string, Record<string, FieldPolicy>>;
+  /**
+   * Filter expressions keyed by source table_id: only matching records are copied
+   * (see recordFilter for the syntax)
+   */
+  recordFilters?: Record<string, string>;
+  /**
+   * When sourceBaseUrl points at a view (?table=...&view=...), only copy the
+   * fields visible in that view (default: false, every field of the table)
+   */
+  viewFieldsOnly?: boolean;
+  /**
+   * Time zone (e.g. "Asia/Tokyo") dates frozen to text are shown in
+   * (default: the time zone of the source Base, then the server's)
+   */
+  timeZone?: string;
+}
+
+/**
+ * How one source field is written to the snapshot
+ * - keep: the default conversion (static fields keep their type)
+ * - text: frozen to display text
+ * - typed: frozen to a Number, DateTime or Checkbox value (see valueType)
+ * - drop: left out of the snapshot
+ */
+export type FieldPolicyAction = 'keep' | 'text' | 'typed' | 'drop';
+
+/** Conversion choice for one source field */
+export interface FieldPolicy {
+  /** Default: 'keep' */
+  action?: FieldPolicyAction;
+  /** Static type of a 'typed' field */
+  valueType?: 'Number' | 'DateTime' | 'Checkbox';
+  /** Name of the field in the snapshot table */
+  rename?: string;
+}
+
+/** What a FieldConverter knows about the table a field is converted for */
+export interface FieldConverterContext {
+  /** Static type inferred for a Formula / Lookup field from its values */
+  computedType?: Extract<LarkFieldType, 'Text' | 'Number' | 'DateTime' | 'Checkbox'>;
+  /** Type number of the field in an existing target table (resumed / incremental runs) */
+  existingFieldType?: number;
+  /** Time zone dates frozen to text are shown in (server local time when absent) */
+  timeZone?: string;
+}
+
+/** Written records passed to a FieldConverter afterWrite hook */
+export interface FieldConverterWriteContext {
+  appToken: string;
+  tableId: string;
+  field: LarkField;
+  /** Source records and the target records they were written to */
+  records: Array<{ source: LarkRecord; targetRecordId: string }>;
+  /** Update fields of the written target records */
+  updateRecords: (records: Array<{ record_id: string; fields: Record<string, unknown> }>) => Promise<void>;
+}
+
+/** Decides how one kind of source field is frozen in a snapshot */
+export interface FieldConverter {
+  /** Target field definitions (fields after the first one are added next to it) */
+  toFieldDefinitions(field: LarkField, context: FieldConverterContext): Partial<LarkField>[];
+  /**
+   * Values written for one non-empty cell, keyed by target field name
+   * (null / undefined values are left empty)
+   */
+  convertValue(value: LarkCellValue, field: LarkField, context: FieldConverterContext): Record<string, unknown>;
+  /** Called after the records of a table have been written */
+  afterWrite?(context: FieldConverterWriteContext): Promise<void>;
+}
+
+/** A FieldConverter registered for a ui_type or a type number */
+export interface FieldConverterOverride {
+  /** ui_type the converter handles (takes precedence over type) */
+  uiType?: string;
+  /** Type number the converter handles */
+  type?: number;
+  converter: FieldConverter;
 }
 
 /** Snapshot result */
@@ -185,6 +350,150 @@ export interface SnapshotResult {
   fieldsConverted: number;
   errors: SnapshotError[];
   createdAt: string;
+  /** Record counts of an incremental run */
+  incremental?: IncrementalSnapshotSummary;
+  /** Checkpoint to resume from when the run did not finish cleanly */
+  checkpointId?: string;
+  /** Comparison of the copied tables with the converted values (when verify is set) */
+  verification?: SnapshotVerification;
+  /** Problems that did not affect the copied data (e.g. views that could not be recreated) */
+  warnings?: SnapshotError[];
+}
+
+/** Verification of one copied table */
+export interface SnapshotVerificationTable {
+  sourceTableId: string;
+  targetTableId: string;
+  tableName: string;
+  /** Records the table should contain */
+  expectedRecords: number;
+  /** Records found when re-listing the target table */
+  targetRecords: number;
+  /** Source record_ids without a record in the target table */
+  missingRecordIds: string[];
+  /** Source record_ids whose target values differ from the converted values */
+  mismatchedRecordIds: string[];
+  /** Target record_ids that belong to no source record */
+  unexpectedRecordIds: string[];
+  passed: boolean;
+}
+
+/** Result of the post-copy verification pass */
+export interface SnapshotVerification {
+  passed: boolean;
+  tables: SnapshotVerificationTable[];
+  verifiedAt: string;
+}
+
+/** Record counts of an incremental snapshot run */
+export interface IncrementalSnapshotSummary {
+  created: number;
+  updated: number;
+  deleted: number;
+}
+
+/** Persisted state of a snapshot series, read by the next incremental run */
+export interface SnapshotState {
+  /** `${sourceAppToken}:${targetBaseName}` */
+  key: string;
+  sourceAppToken: string;
+  targetBase: LarkBase;
+  /** Keyed by source table_id */
+  tables: Record<string, SnapshotTableState>;
+  updatedAt: string;
+}
+
+/** Persisted state of a single snapshot table */
+export interface SnapshotTableState {
+  sourceTableId: string;
+  targetTableId: string;
+  tableName: string;
+  /** Start time (ms) of the last run that copied this table */
+  watermark: number;
+  /** Source record_id -> target record_id */
+  recordIdMap: Record<string, string>;
+  /** Source record_ids that no longer exist in the source table */
+  deletedRecordIds: string[];
+}
+
+/** Progress of an unfinished snapshot run, used to resume it */
+export interface SnapshotCheckpoint {
+  id: string;
+  config: SnapshotConfig;
+  /** Lark user_id of the user who started the run (only they may resume it) */
+  ownerId?: string;
+  targetBase: LarkBase;
+  /** Date suffix of the snapshot table names (YYYYMMDD) */
+  dateSuffix: string;
+  /** The default table of a newly created target Base has not been deleted yet */
+  defaultTablePending: boolean;
+  /** Keyed by source table_id */
+  tables: Record<string, SnapshotCheckpointTable>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Checkpointed progress of a single snapshot table */
+export interface SnapshotCheckpointTable {
+  targetTableId: string;
+  tableName: string;
+  /** 'created' until every record and attachment has been written */
+  status: 'created' | 'completed';
+  /** Source record_id -> target record_id of the records written so far */
+  recordIdMap: Record<string, string>;
+  /**
+   * Link fields finished in the target table: 'linked' once the link field was
+   * created and filled, 'text' once it was frozen to display text instead
+   */
+  linkFields?: Record<string, 'linked' | 'text'>;
+  /** Saved views have been recreated in the target table */
+  viewsCopied?: boolean;
+}
+
+/** Retention rule applied after each scheduled run */
+export interface SnapshotRetention {
+  /** Number of most recent successful snapshot Bases to keep */
+  keep: number;
+  /** Delete older Bases, or flag them by prefixing their name with "[expired]" */
+  action: 'delete' | 'flag';
+}
+
+/** Recurring snapshot definition */
+export interface SnapshotSchedule {
+  id: string;
+  name: string;
+  sourceBaseUrl: string;
+  selectedTableIds?: string[];
+  /** Target Base name, with {name} {yyyy} {MM} {dd} {HH} {mm} placeholders */
+  nameTemplate: string;
+  /** 5-field cron expression, evaluated in server local time */
+  cron: string;
+  grantAdminPermission?: boolean;
+  preserveAttachments?: boolean;
+  retention?: SnapshotRetention;
+  enabled: boolean;
+  /** Lark user_id of the user who created the schedule */
+  ownerId?: string;
+  /** OAuth refresh token of the owner (app credentials are used when absent) */
+  refreshToken?: string;
+  lastRunAt?: string;
+  nextRunAt?: string;
+  /** Runs of this schedule, oldest first */
+  runs: ScheduledSnapshotRun[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A single run of a snapshot schedule */
+export interface ScheduledSnapshotRun {
+  startedAt: string;
+  success: boolean;
+  /** Snapshot Base created by the run */
+  targetBase?: LarkBase;
+  errors: SnapshotError[];
+  checkpointId?: string;
+  /** Set once the retention rule has removed the Base */
+  expired?: 'deleted' | 'flagged';
 }
 
 /** Snapshot error */
@@ -192,10 +501,235 @@ export interface SnapshotError {
   table?: string;
   record?: string;
   field?: string;
+  view?: string;
   message: string;
   code?: string;
 }
 
+/** Progress event emitted while a snapshot runs (table IDs are source IDs) */
+export type SnapshotProgressEvent =
+  | { type: 'table_started'; tableId: string; tableName: string }
+  | { type: 'fields_converted'; tableId: string; tableName: string; fieldCount: number }
+  | { type: 'records_page_read'; tableId: string; tableName: string; recordsRead: number }
+  | { type: 'batch_written'; tableId: string; tableName: string; recordsWritten: number }
+  | { type: 'table_finished'; tableId: string; tableName: string; recordsWritten: number }
+  | { type: 'error'; error: SnapshotError };
+
+/** Event streamed to clients following a snapshot job */
+export type SnapshotJobEvent =
+  | SnapshotProgressEvent
+  | { type: 'job_status'; job: SnapshotJob }
+  | { type: 'job_finished'; job: SnapshotJob };
+
+/** Lifecycle state of a background snapshot job */
+export type SnapshotJobState = 'queued' | 'running' | 'completed' | 'failed';
+
+/** Background snapshot job */
+export interface SnapshotJob {
+  id: string;
+  state: SnapshotJobState;
+  /** Lark user_id of the user who started the job */
+  ownerId?: string;
+  /** Name of the source table being copied */
+  currentTable?: string;
+  /** Records written to the target Base so far */
+  recordsWritten: number;
+  errors: SnapshotError[];
+  /** Set once the job has finished */
+  result?: SnapshotResult;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Field value change of a modified record (values are normalized to text) */
+export interface SnapshotFieldChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+/** Record present on both sides with at least one changed field */
+export interface SnapshotRecordChange {
+  sourceRecordId: string;
+  changes: SnapshotFieldChange[];
+}
+
+/** Record present on only one side of a diff */
+export interface SnapshotDiffRecord {
+  sourceRecordId: string;
+  fields: Record<string, string | null>;
+}
+
+/** Differences between two versions of a table */
+export interface SnapshotTableDiff {
+  /** Table name without the snapshot date suffix */
+  tableName: string;
+  status: 'added' | 'removed' | 'compared' | 'error';
+  /** Why the table could not be compared (status 'error') */
+  error?: string;
+  added: SnapshotDiffRecord[];
+  removed: SnapshotDiffRecord[];
+  modified: SnapshotRecordChange[];
+  /** Fields that exist only in the "after" table */
+  fieldsAdded: string[];
+  /** Fields that exist only in the "before" table */
+  fieldsRemoved: string[];
+}
+
+/** Result of comparing two snapshots, or a snapshot and the live source */
+export interface SnapshotDiff {
+  before: { url: string; name: string };
+  after: { url: string; name: string };
+  tables: SnapshotTableDiff[];
+  summary: {
+    tablesCompared: number;
+    recordsAdded: number;
+    recordsRemoved: number;
+    recordsModified: number;
+  };
+}
+
+/** Restore of source table values from a snapshot */
+export interface SnapshotRestoreOptions {
+  /** Snapshot Base or table to read values from */
+  snapshotUrl: string;
+  /** Source Base or table to write values back to */
+  sourceUrl: string;
+  /** Fields to restore (default: every writable field) */
+  fields?: string[];
+  /** Only report what would be overwritten */
+  dryRun: boolean;
+}
+
+/** Restore outcome for a single table */
+export interface SnapshotRestoreTableResult {
+  tableName: string;
+  /** How snapshot rows were matched to source records */
+  matchedBy: 'source_record_id' | 'primary_field';
+  /** Values that are (or would be) overwritten, per source record */
+  changes: SnapshotRecordChange[];
+  /** Fields that were not restored and why */
+  skippedFields: Array<{ field: string; reason: string }>;
+  /** Snapshot record IDs without a matching source record */
+  unmatchedRecords: string[];
+}
+
+/** Result of a restore run */
+export interface SnapshotRestoreResult {
+  dryRun: boolean;
+  tables: SnapshotRestoreTableResult[];
+  recordsUpdated: number;
+  errors: SnapshotError[];
+}
+
+/** Field definition of a frozen table (after dynamic -> static conversion) */
+export type FrozenField = Pick<LarkField, 'field_name' | 'type' | 'ui_type' | 'property'> & {
+  /** ui_type of the source field before conversion */
+  source_ui_type?: LarkFieldType;
+};
+
+/** Record of a frozen table, with values as they would be written to a snapshot Base */
+export interface FrozenRecord {
+  sourceRecordId: string;
+  fields: Record<string, unknown>;
+}
+
+/** Source table converted to static values without writing to Lark */
+export interface FrozenTable {
+  sourceTableId: string;
+  tableName: string;
+  fields: FrozenField[];
+  records: FrozenRecord[];
+}
+
+/** Source Base converted to static values, used by local file exports */
+export interface FrozenSnapshot {
+  sourceBase: LarkBase;
+  tables: FrozenTable[];
+  errors: SnapshotError[];
+  createdAt: string;
+  /** Time zone dates are shown in (the source Base's); the server's when absent */
+  timeZone?: string;
+}
+
+/** Local file formats a snapshot can be exported to */
+export type SnapshotExportFormat = 'csv' | 'xlsx' | 'sqlite' | 'html';
+
+/** File produced by a local export */
+export interface SnapshotExportFile {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/** Result of exporting a snapshot to local files */
+export interface SnapshotExportResult {
+  format: SnapshotExportFormat;
+  /** Paths of the written files */
+  files: string[];
+  tablesExported: number;
+  recordsExported: number;
+  errors: SnapshotError[];
+}
+
+/** Column of a table in the static HTML viewer */
+export interface SnapshotViewerColumn {
+  name: string;
+  /** How the viewer sorts the column (display text is parsed for number / date) */
+  kind: 'number' | 'date' | 'boolean' | 'text';
+}
+
+/** Table embedded in the static HTML viewer, with values as display text */
+export interface SnapshotViewerTable {
+  tableId: string;
+  name: string;
+  columns: SnapshotViewerColumn[];
+  records: Array<{ id: string; values: string[] }>;
+}
+
+/** Data embedded in the static HTML viewer */
+export interface SnapshotViewerData {
+  sourceBase: LarkBase;
+  capturedAt: string;
+  toolVersion: string;
+  tables: SnapshotViewerTable[];
+  errors: SnapshotError[];
+}
+
+/** Manifest line at the start of a snapshot archive (see docs/ARCHIVE_FORMAT.md) */
+export interface SnapshotArchiveManifest {
+  format: 'lark-base-snapshot';
+  /** Archive format version */
+  version: number;
+  baseName: string;
+  sourceAppToken: string;
+  capturedAt: string;
+  /** Version of the tool that wrote the archive */
+  toolVersion: string;
+  tables: Array<{ tableId: string; name: string; fieldCount: number; recordCount: number }>;
+}
+
+/** Table held in a snapshot archive, with unconverted fields and records */
+export interface SnapshotArchiveTable {
+  table: LarkTable;
+  fields: LarkField[];
+  records: LarkRecord[];
+}
+
+/** Lossless copy of a Base: full field definitions and raw record values */
+export interface SnapshotArchive {
+  manifest: SnapshotArchiveManifest;
+  tables: SnapshotArchiveTable[];
+}
+
+/** Options for creating a new Base from a snapshot archive */
+export interface SnapshotRehydrateOptions {
+  targetBaseName: string;
+  /** Recreate links between tables of the archive (default: true, otherwise frozen as text) */
+  rebuildLinks?: boolean;
+  grantAdminPermission?: boolean;
+}
+
 /** Field type mapping for conversion */
 export const DYNAMIC_FIELD_TYPES: LarkFieldType[] = [
   'SingleLink',
@@ -217,6 +751,9 @@ export const CONVERT_TO_TEXT_TYPES: LarkFieldType[] = [
   'ModifiedUser',
 ];
 
+/** Text field added to every snapshot table, holding the source record_id */
+export const SOURCE_RECORD_ID_FIELD = '_source_record_id';
+
 /** Fields that should be converted to static number */
 export const CONVERT_TO_NUMBER_TYPES: LarkFieldType[] = [
   'Formula', // When formula returns number
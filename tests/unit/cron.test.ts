@@ -0,0 +1,58 @@
+/**
+ * Cron Expression Tests
+ *
+ * @description Tests for parsing cron expressions and computing next run times
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCron, isValidCron, getNextRunTime } from '../../src/services/cron.js';
+
+// Dates are built in local time, matching how the scheduler evaluates cron
+const at = (y: number, mo: number, d: number, h = 0, mi = 0) => new Date(y, mo - 1, d, h, mi);
+
+describe('parseCron', () => {
+  it('should parse lists, ranges and steps', () => {
+    const cron = parseCron('*/15 9-17 1,15 * 1-5');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should expand aliases', () => {
+    expect([...parseCron('@weekly').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(isValidCron('0 0 * *')).toBe(false);
+    expect(isValidCron('60 0 * * *')).toBe(false);
+    expect(isValidCron('0 0 * * mon')).toBe(false);
+    expect(() => parseCron('0 25 * * *')).toThrow('hour "25" is out of range');
+  });
+});
+
+describe('getNextRunTime', () => {
+  it('should return the next matching minute after the given time', () => {
+    expect(getNextRunTime('30 9 * * *', at(2024, 5, 1, 9, 30))).toEqual(at(2024, 5, 2, 9, 30));
+    expect(getNextRunTime('30 9 * * *', at(2024, 5, 1, 8, 0))).toEqual(at(2024, 5, 1, 9, 30));
+  });
+
+  it('should handle month-end runs across years', () => {
+    expect(getNextRunTime('0 18 31 12 *', at(2024, 6, 1))).toEqual(at(2024, 12, 31, 18, 0));
+    expect(getNextRunTime('0 0 1 * *', at(2024, 12, 15))).toEqual(at(2025, 1, 1));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2024-05-01 is a Wednesday; next is Friday the 3rd or the 15th
+    expect(getNextRunTime('0 0 15 * 5', at(2024, 5, 1))).toEqual(at(2024, 5, 3));
+  });
+
+  it('should skip months without the requested day', () => {
+    expect(getNextRunTime('0 0 31 * *', at(2024, 4, 1))).toEqual(at(2024, 5, 31));
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * CSV Exporter Tests
+ *
+ * @description Tests for RFC 4180 CSV output of frozen snapshot tables
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeCsvCell, formatCellText, toCsv, toFileName, toFileNames } from '../../src/services/csvExporter.js';
+import type { FrozenTable } from '../../src/types/index.js';
+
+const table: FrozenTable = {
+  sourceTableId: 'tblDeals',
+  tableName: 'Deals',
+  fields: [
+    { field_name: 'Name', type: 1, ui_type: 'Text' },
+    { field_name: 'Amount', type: 2, ui_type: 'Number' },
+    { field_name: 'Tags', type: 4, ui_type: 'MultiSelect' },
+    { field_name: 'Done', type: 7, ui_type: 'Checkbox' },
+  ],
+  records: [
+    { sourceRecordId: 'rec1', fields: { Name: '見積, "特急"', Amount: 1200, Tags: ['A', 'B'], Done: true } },
+    { sourceRecordId: 'rec2', fields: { Name: [{ type: 'text', text: 'multi\nline' }] } },
+  ],
+};
+
+describe('csvExporter', () => {
+  it('should quote cells with commas, quotes and line breaks', () => {
+    expect(escapeCsvCell('plain')).toBe('plain');
+    expect(escapeCsvCell('a,b')).toBe('"a,b"');
+    expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvCell('a\r\nb')).toBe('"a\r\nb"');
+  });
+
+  it('should render a header row and CRLF-terminated records with a BOM', () => {
+    const csv = toCsv(table);
+
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv.slice(1).split('\r\n')).toEqual([
+      'Name,Amount,Tags,Done',
+      '"見積, ""特急""",1200,"A, B",true',
+      '"multi\nline",,,',
+      '',
+    ]);
+    expect(toCsv(table, false).startsWith('Name')).toBe(true);
+  });
+
+  it('should format DateTime timestamps as local date and time', () => {
+    const ms = new Date(2026, 0, 2, 3, 4, 5).getTime();
+    expect(formatCellText({ field_name: 'Due', type: 5, ui_type: 'DateTime' }, ms))
+      .toBe('2026-01-02 03:04:05');
+  });
+
+  it('should format timestamps in the time zone of the Base', () => {
+    const ms = Date.UTC(2026, 0, 1, 18, 4, 5);
+    const field = { field_name: 'Due', type: 5, ui_type: 'DateTime' as const };
+    expect(formatCellText(field, ms, 'Asia/Tokyo')).toBe('2026-01-02 03:04:05');
+    expect(formatCellText(field, ms, 'America/New_York')).toBe('2026-01-01 13:04:05');
+  });
+
+  it('should replace characters not allowed in file names', () => {
+    expect(toFileName('Sales/2026: Q1?')).toBe('Sales_2026_ Q1_');
+  });
+
+  it('should keep the file names of tables unique', () => {
+    expect(toFileNames(['A/B', 'A_B', 'a_b', 'Deals'])).toEqual(['A_B', 'A_B (2)', 'a_b (3)', 'Deals']);
+  });
+});
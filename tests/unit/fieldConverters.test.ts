@@ -0,0 +1,172 @@
+/**
+ * Field Converter Tests
+ *
+ * @description Tests for the field converter registry and converter overrides
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryCheckpointStore } from '../../src/services/checkpointStore.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import {
+  BUILT_IN_FIELD_CONVERTERS,
+  FieldConverterRegistry,
+} from '../../src/services/fieldConverters.js';
+import type { FieldConverter, LarkField } from '../../src/types/index.js';
+
+const owner: LarkField = { field_id: 'fldOwner', field_name: 'Owner', type: 11, ui_type: 'User' };
+
+/** Freezes users as their IDs instead of their names */
+const userIdConverter: FieldConverter = {
+  ...BUILT_IN_FIELD_CONVERTERS.text,
+  convertValue: (value, field) => ({
+    [field.field_name]: (value as Array<{ id: string }>).map((u) => u.id).join(', '),
+  }),
+};
+
+describe('FieldConverterRegistry', () => {
+  it('should fall back to the built-in converter of the field type mapping', () => {
+    const registry = new FieldConverterRegistry();
+
+    expect(registry.get(owner)).toBe(BUILT_IN_FIELD_CONVERTERS.text);
+    expect(registry.get({ type: 2, ui_type: 'Currency' })).toBe(BUILT_IN_FIELD_CONVERTERS.number);
+    expect(registry.get({ type: 19, ui_type: 'Lookup' })).toBe(BUILT_IN_FIELD_CONVERTERS.computed);
+  });
+
+  it('should prefer a ui_type override to a type number override', () => {
+    const byType: FieldConverter = { ...BUILT_IN_FIELD_CONVERTERS.keep };
+    const registry = new FieldConverterRegistry([
+      { type: 11, converter: byType },
+      { uiType: 'User', converter: userIdConverter },
+    ]);
+
+    expect(registry.get(owner)).toBe(userIdConverter);
+    expect(registry.get({ type: 11, ui_type: 'CreatedUser' })).toBe(byType);
+  });
+
+  it('should reject an override without a key', () => {
+    expect(() => new FieldConverterRegistry([{ converter: userIdConverter }])).toThrow(
+      'A field converter needs a uiType or a type'
+    );
+  });
+});
+
+describe('built-in converters', () => {
+  it('should freeze users to their names', () => {
+    expect(BUILT_IN_FIELD_CONVERTERS.text.convertValue(
+      [{ id: 'ou_1', name: 'Alice' }, { id: 'ou_2', name: 'Bob' }],
+      owner,
+      {}
+    )).toEqual({ Owner: 'Alice, Bob' });
+  });
+
+  it('should write typed formula results in their inferred type', () => {
+    const total: LarkField = { field_id: 'fldTotal', field_name: 'Total', type: 20, ui_type: 'Formula' };
+    const converter = BUILT_IN_FIELD_CONVERTERS.computed;
+
+    expect(converter.toFieldDefinitions(total, { computedType: 'Number' }))
+      .toEqual([{ field_name: 'Total', type: 2, ui_type: 'Number' }]);
+    expect(converter.convertValue({ type: 2, value: [42] } as never, total, { computedType: 'Number' }))
+      .toEqual({ Total: 42 });
+  });
+});
+
+describe('SnapshotService field converter overrides', () => {
+  const tasks: StubTable = {
+    table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+    fields: [
+      { field_id: 'fldTitle', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+      owner,
+    ],
+    records: [
+      { record_id: 'rec1', fields: { Title: 'Write spec', Owner: [{ id: 'ou_1', name: 'Alice' }] } },
+      { record_id: 'rec2', fields: { Title: 'Review' } },
+    ],
+  };
+  const config = {
+    sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+    targetBaseName: 'Target',
+    grantAdminPermission: false,
+  };
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([tasks]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should apply converters passed in the snapshot config', async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const saveCheckpoint = vi.spyOn(checkpointStore, 'save');
+    const service = createTestService({ checkpointStore });
+    const result = await service.createSnapshot({
+      ...config,
+      fieldConverters: [{ uiType: 'User', converter: userIdConverter }],
+    });
+
+    expect(result.success).toBe(true);
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records[0].fields).toMatchObject({ Owner: 'ou_1' });
+    // Converters are not saved with the checkpoint
+    expect(saveCheckpoint.mock.calls[0][0].config).not.toHaveProperty('fieldConverters');
+  });
+
+  it('should apply service-wide converters', async () => {
+    const service = createTestService({
+      fieldConverters: [{ type: 11, converter: userIdConverter }],
+    });
+    await service.createSnapshot(config);
+
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records[0].fields).toMatchObject({ Owner: 'ou_1' });
+  });
+
+  it('should call afterWrite hooks with the written records', async () => {
+    const afterWrite = vi.fn<NonNullable<FieldConverter['afterWrite']>>(async (context) => {
+      await context.updateRecords(context.records.map((r) => ({
+        record_id: r.targetRecordId,
+        fields: { Owner: `checked ${r.source.record_id}` },
+      })));
+    });
+    const service = createTestService();
+    await service.createSnapshot({
+      ...config,
+      fieldConverters: [{ uiType: 'User', converter: { ...userIdConverter, afterWrite } }],
+    });
+
+    expect(afterWrite).toHaveBeenCalledTimes(1);
+    expect(afterWrite.mock.calls[0][0]).toMatchObject({
+      appToken: 'tgtApp',
+      tableId: 'tgt_tblTasks',
+      field: owner,
+      records: [
+        { source: tasks.records[0], targetRecordId: 'tgt_rec1' },
+        { source: tasks.records[1], targetRecordId: 'tgt_rec2' },
+      ],
+    });
+    expect(stub.updateRecords).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', [
+      { record_id: 'tgt_rec1', fields: { Owner: 'checked rec1' } },
+      { record_id: 'tgt_rec2', fields: { Owner: 'checked rec2' } },
+    ]);
+  });
+
+  it('should report a failing afterWrite hook as an error', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...config,
+      fieldConverters: [{
+        uiType: 'User',
+        converter: { ...userIdConverter, afterWrite: async () => { throw new Error('directory offline'); } },
+      }],
+    });
+
+    expect(result.errors).toContainEqual({
+      table: expect.stringMatching(/^Tasks_snap_/),
+      field: 'Owner',
+      message: 'Field converter hook failed: directory offline',
+      code: 'FIELD_CONVERTER_HOOK_FAILED',
+    });
+  });
+});
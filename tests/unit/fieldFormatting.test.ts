@@ -0,0 +1,233 @@
+/**
+ * Field Formatting Tests
+ *
+ * @description Tests for carrying number, currency and date formatting into snapshots
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import {
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  formatValueAsText,
+  getFieldFormat,
+  parseFormattedDate,
+} from '../../src/services/fieldFormatting.js';
+import { LarkApiClient } from '../../src/services/larkApiClient.js';
+import type { LarkField } from '../../src/types/index.js';
+
+const price: LarkField = {
+  field_id: 'fldPrice',
+  field_name: 'Price',
+  type: 1050,
+  ui_type: 'Currency',
+  property: { currency_code: 'JPY', formatter: '0' },
+};
+
+describe('formatNumber', () => {
+  it('should apply precision, grouping and percent formatters', () => {
+    expect(formatNumber(1234.5, '0')).toBe('1235');
+    expect(formatNumber(1234.5, '0.00')).toBe('1234.50');
+    expect(formatNumber(1234.5, '1,000.00')).toBe('1,234.50');
+    expect(formatNumber(0.256, '0%')).toBe('26%');
+    expect(formatNumber(0.256, '0.00%')).toBe('25.60%');
+    expect(formatNumber(1234.5)).toBe('1234.5');
+  });
+});
+
+describe('formatCurrency', () => {
+  it('should prefix the currency symbol and group digits', () => {
+    expect(formatCurrency(1200, 'JPY', '0')).toBe('¥1,200');
+    expect(formatCurrency(-3.5, 'USD', '0.00')).toBe('-$3.50');
+    expect(formatCurrency(10, 'CHF', '0')).toBe('CHF 10');
+  });
+});
+
+describe('formatDate', () => {
+  it('should format local dates with Lark date formatters', () => {
+    const time = new Date(2024, 0, 5, 9, 30).getTime();
+    expect(formatDate(time)).toBe('2024/01/05');
+    expect(formatDate(time, 'yyyy-MM-dd HH:mm')).toBe('2024-01-05 09:30');
+    expect(formatDate(time, 'MM/dd/yyyy')).toBe('01/05/2024');
+  });
+
+  it('should format and read back dates in a given time zone', () => {
+    const time = Date.UTC(2024, 0, 5, 23, 30);
+    expect(formatDate(time, 'yyyy/MM/dd HH:mm', 'Asia/Tokyo')).toBe('2024/01/06 08:30');
+    expect(formatDate(time, 'yyyy/MM/dd HH:mm', 'America/New_York')).toBe('2024/01/05 18:30');
+    expect(parseFormattedDate('2024/01/06 08:30', 'yyyy/MM/dd HH:mm', 'Asia/Tokyo')).toBe(time);
+    // Across a daylight saving change
+    const summer = Date.UTC(2024, 6, 1, 12, 0);
+    expect(parseFormattedDate(formatDate(summer, 'yyyy-MM-dd HH:mm', 'Europe/Berlin'), 'yyyy-MM-dd HH:mm', 'Europe/Berlin'))
+      .toBe(summer);
+  });
+});
+
+describe('getFieldFormat', () => {
+  it('should read the format of a Lookup from its result type', () => {
+    const lookup: LarkField = {
+      field_id: 'fldLookup',
+      field_name: 'Prices',
+      type: 19,
+      ui_type: 'Lookup',
+      property: {
+        type: { data_type: 2, ui_type: 'Currency', ui_property: { currency_code: 'CNY', formatter: '0.00' } },
+      },
+    };
+
+    expect(getFieldFormat(lookup)).toEqual({ kind: 'currency', currencyCode: 'CNY', formatter: '0.00' });
+    expect(formatValueAsText({ type: 2, value: [1200, 30] }, getFieldFormat(lookup)!))
+      .toBe('¥1,200.00, ¥30.00');
+  });
+
+  it('should return null for fields without number or date values', () => {
+    expect(getFieldFormat({ field_id: 'f', field_name: 'T', type: 1, ui_type: 'Text' })).toBeNull();
+  });
+});
+
+describe('SnapshotService field formatting', () => {
+  const created = new Date(2024, 2, 1, 8, 0).getTime();
+  const orders: StubTable = {
+    table: { table_id: 'tblOrders', name: 'Orders', revision: 1 },
+    fields: [
+      { field_id: 'fldTitle', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+      price,
+      {
+        field_id: 'fldDone',
+        field_name: 'Done',
+        type: 22,
+        ui_type: 'Progress',
+        property: { formatter: '0%', min: 0, max: 1 },
+      },
+      {
+        field_id: 'fldCreated',
+        field_name: 'Created',
+        type: 1001,
+        ui_type: 'CreatedTime',
+        property: { date_formatter: 'yyyy-MM-dd HH:mm' },
+      },
+      {
+        field_id: 'fldTotals',
+        field_name: 'Totals',
+        type: 19,
+        ui_type: 'Lookup',
+        property: { type: { data_type: 2, ui_type: 'Currency', ui_property: { currency_code: 'JPY', formatter: '0' } } },
+      },
+      {
+        field_id: 'fldDue',
+        field_name: 'Due',
+        type: 20,
+        ui_type: 'Formula',
+        property: { type: { data_type: 5, ui_type: 'DateTime', ui_property: { date_formatter: 'yyyy/MM/dd HH:mm' } } },
+      },
+    ],
+    records: [
+      {
+        record_id: 'rec1',
+        fields: {
+          Title: 'Order 1',
+          Price: 1200,
+          Done: 0.5,
+          Created: created,
+          Totals: { type: 2, value: [1200, 300] },
+          Due: created,
+        } as never,
+      },
+    ],
+  };
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([orders]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should carry formatters to converted fields and format frozen text', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(result.success).toBe(true);
+    const fields = stub.createTable.mock.calls[0][2];
+    expect(fields).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        field_name: 'Price',
+        type: 2,
+        ui_type: 'Currency',
+        property: { formatter: '0', currency_code: 'JPY' },
+      }),
+      expect.objectContaining({
+        field_name: 'Done',
+        ui_type: 'Progress',
+        property: { formatter: '0%', min: 0, max: 1 },
+      }),
+      expect.objectContaining({
+        field_name: 'Created',
+        ui_type: 'DateTime',
+        property: { date_formatter: 'yyyy-MM-dd HH:mm' },
+      }),
+      expect.objectContaining({ field_name: 'Totals', ui_type: 'Text' }),
+      expect.objectContaining({
+        field_name: 'Due',
+        ui_type: 'DateTime',
+        property: { date_formatter: 'yyyy/MM/dd HH:mm' },
+      }),
+    ]));
+
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records[0].fields).toMatchObject({
+      Price: 1200,
+      Done: 0.5,
+      Created: created,
+      Totals: '¥1,200, ¥300',
+      Due: created,
+    });
+  });
+
+  it('should show dates frozen to text in the time zone of the source Base', async () => {
+    const due = Date.UTC(2024, 2, 1, 20, 0);
+    const freezeDue = async (timeZone?: string) => {
+      vi.restoreAllMocks();
+      stub = stubLarkClient([orders]);
+      vi.mocked(LarkApiClient.prototype.getBase).mockResolvedValue({
+        app_token: 'srcApp',
+        name: 'Source',
+        time_zone: 'Asia/Tokyo',
+      });
+      stub.listRecordsWithFallback.mockResolvedValue([
+        { record_id: 'rec1', fields: { Title: 'Order 1', Due: due } as never },
+      ]);
+      await createTestService().createSnapshot({
+        sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+        targetBaseName: 'Target',
+        grantAdminPermission: false,
+        fieldPolicies: { tblOrders: { fldDue: { action: 'text' } } },
+        timeZone,
+      });
+      return stub.createRecords.mock.calls[0][2][0].fields.Due;
+    };
+
+    expect(await freezeDue()).toBe('2024/03/02 05:00');
+    expect(await freezeDue('UTC')).toBe('2024/03/01 20:00');
+  });
+
+  it('should reject an unknown time zone', async () => {
+    const result = await createTestService().createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+      timeZone: 'Mars/Olympus',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toContainEqual(expect.objectContaining({ message: expect.stringContaining('Unknown time zone: Mars/Olympus') }));
+    expect(stub.createBase).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Field Policy Tests
+ *
+ * @description Tests for per-field conversion policies of a snapshot request
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import { applyFieldPolicies, validateFieldPolicies } from '../../src/services/fieldPolicy.js';
+import type { LarkField } from '../../src/types/index.js';
+
+const fields: LarkField[] = [
+  { field_id: 'fldTitle', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+  { field_id: 'fldHours', field_name: 'Hours', type: 2, ui_type: 'Number' },
+  { field_id: 'fldDue', field_name: 'Due', type: 1, ui_type: 'Text' },
+  { field_id: 'fldNotes', field_name: 'Notes', type: 1, ui_type: 'Text' },
+  { field_id: 'fldFiles', field_name: 'Files', type: 17, ui_type: 'Attachment' },
+];
+
+describe('validateFieldPolicies', () => {
+  it('should accept valid policies', () => {
+    expect(validateFieldPolicies({
+      fldHours: { action: 'text' },
+      fldDue: { action: 'typed', valueType: 'DateTime', rename: 'Due date' },
+      fldNotes: { action: 'drop' },
+    }, fields)).toEqual([]);
+  });
+
+  it('should report policies that cannot be applied to the source schema', () => {
+    expect(validateFieldPolicies({
+      fldMissing: { action: 'text' },
+      fldTitle: { action: 'drop' },
+      fldHours: { action: 'freeze' as never },
+      fldDue: { action: 'typed' },
+      fldFiles: { action: 'typed', valueType: 'Number' },
+      fldNotes: { rename: 'Hours' },
+    }, fields)).toEqual([
+      'Field "fldMissing" is not in the source table',
+      'Primary field "Title" cannot be dropped',
+      'Unknown action "freeze" for field "Hours"',
+      'Field "Due" needs a valueType of Number, DateTime, Checkbox',
+      'Field "Files" (Attachment) cannot be frozen to a typed value',
+      'Fields "Hours", "Notes" would all be named "Hours"',
+    ]);
+  });
+
+  it('should reject empty and reserved names', () => {
+    expect(validateFieldPolicies({
+      fldDue: { rename: ' ' },
+      fldNotes: { rename: '_source_record_id' },
+    }, fields)).toEqual([
+      'Field "Due" cannot be renamed to an empty name',
+      '"_source_record_id" is reserved for the source record ID',
+    ]);
+  });
+});
+
+describe('applyFieldPolicies', () => {
+  it('should drop and rename fields and their record values', () => {
+    const applied = applyFieldPolicies(
+      fields,
+      [{ record_id: 'rec1', fields: { Title: 'Write spec', Hours: 3, Notes: 'draft' } }],
+      { fldHours: { action: 'text', rename: 'Effort' }, fldNotes: { action: 'drop' } }
+    );
+
+    expect(applied.fields.map((f) => f.field_name)).toEqual(['Title', 'Effort', 'Due', 'Files']);
+    expect(applied.records[0].fields).toEqual({ Title: 'Write spec', Effort: 3 });
+    expect(applied.policies).toEqual(new Map([['Effort', { action: 'text', rename: 'Effort' }]]));
+  });
+});
+
+describe('SnapshotService field policies', () => {
+  const projects: StubTable = {
+    table: { table_id: 'tblProjects', name: 'Projects', revision: 1 },
+    fields: [{ field_id: 'p1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+    records: [{ record_id: 'recP1', fields: { Name: 'Alpha' } }],
+  };
+  const tasks: StubTable = {
+    table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+    fields: [
+      ...fields.slice(0, 4),
+      {
+        field_id: 'fldProject',
+        field_name: 'Project',
+        type: 18,
+        ui_type: 'SingleLink',
+        property: { table_id: 'tblProjects' },
+      },
+    ],
+    records: [
+      {
+        record_id: 'rec1',
+        fields: {
+          Title: 'Write spec',
+          Hours: 3.5,
+          Due: '2024-01-01T00:00:00Z',
+          Notes: 'draft',
+          Project: [{ record_id: 'recP1', text: 'Alpha' }],
+        },
+      },
+    ],
+  };
+  const config = {
+    sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+    targetBaseName: 'Target',
+    grantAdminPermission: false,
+  };
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([projects, tasks]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should apply the policies to field definitions and values', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...config,
+      fieldPolicies: {
+        tblTasks: {
+          fldHours: { action: 'text' },
+          fldDue: { action: 'typed', valueType: 'DateTime', rename: 'Due date' },
+          fldNotes: { action: 'drop' },
+          fldProject: { action: 'text' },
+        },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    const taskFields = stub.createTable.mock.calls[1][2];
+    expect(taskFields.map((f) => [f.field_name, f.ui_type])).toEqual([
+      ['Title', 'Text'],
+      ['Hours', 'Text'],
+      ['Due date', 'DateTime'],
+      ['Project', 'Text'],
+      ['_source_record_id', 'Text'],
+    ]);
+
+    const taskRecords = stub.createRecords.mock.calls[1][2];
+    expect(taskRecords[0].fields).toEqual({
+      Title: 'Write spec',
+      Hours: '3.5',
+      'Due date': 1704067200000,
+      Project: 'Alpha',
+      _source_record_id: 'rec1',
+    });
+    // Links frozen to text are not rebuilt
+    expect(stub.createField).not.toHaveBeenCalled();
+  });
+
+  it('should skip a table whose policies do not match its schema', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...config,
+      fieldPolicies: { tblTasks: { fldMissing: { action: 'drop' } } },
+    });
+
+    expect(result.errors).toContainEqual({
+      table: expect.stringMatching(/^Tasks_snap_/),
+      message: 'Invalid field policy: Field "fldMissing" is not in the source table',
+      code: 'INVALID_FIELD_POLICY',
+    });
+    expect(stub.createTable).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report policies for tables that are not copied', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...config,
+      selectedTableIds: ['tblProjects'],
+      fieldPolicies: { tblTasks: { fldNotes: { action: 'drop' } } },
+    });
+
+    expect(result.errors).toContainEqual(expect.objectContaining({ code: 'INVALID_FIELD_POLICY' }));
+  });
+});
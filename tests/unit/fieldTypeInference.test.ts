@@ -0,0 +1,102 @@
+/**
+ * Field Type Inference Tests
+ *
+ * @description Tests for choosing typed static fields for Formula / Lookup results
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  inferStaticFieldType,
+  toStaticValue,
+  unwrapComputedValue,
+} from '../../src/services/fieldTypeInference.js';
+import type { LarkField } from '../../src/types/index.js';
+
+const formula = (property?: LarkField['property']): LarkField => ({
+  field_id: 'fld1',
+  field_name: 'Total',
+  type: 20,
+  ui_type: 'Formula',
+  property,
+});
+
+const lookup: LarkField = {
+  field_id: 'fld2',
+  field_name: 'Price',
+  type: 19,
+  ui_type: 'Lookup',
+};
+
+describe('unwrapComputedValue', () => {
+  it('should unwrap Lark lookup result objects', () => {
+    expect(unwrapComputedValue({ type: 2, value: [1200] } as never)).toEqual([1200]);
+  });
+
+  it('should flatten text segments', () => {
+    expect(unwrapComputedValue([{ type: 'text', text: 'a' }, { type: 'text', text: 'b' }] as never))
+      .toEqual(['a', 'b']);
+  });
+
+  it('should return an empty list for null values', () => {
+    expect(unwrapComputedValue(null)).toEqual([]);
+  });
+});
+
+describe('inferStaticFieldType', () => {
+  it('should infer Number from numeric samples', () => {
+    expect(inferStaticFieldType(formula(), [1, 2.5, null, 3])).toBe('Number');
+  });
+
+  it('should infer Checkbox from boolean samples', () => {
+    expect(inferStaticFieldType(formula(), [true, false])).toBe('Checkbox');
+  });
+
+  it('should fall back to Text for mixed samples', () => {
+    expect(inferStaticFieldType(formula(), [1, 'n/a'])).toBe('Text');
+  });
+
+  it('should fall back to Text when there are no samples', () => {
+    expect(inferStaticFieldType(formula(), [null, null])).toBe('Text');
+  });
+
+  it('should prefer the declared result type', () => {
+    const field = formula({ type: { data_type: 5, ui_type: 'DateTime' } });
+    expect(inferStaticFieldType(field, [1700000000000])).toBe('DateTime');
+  });
+
+  it('should treat a date formatter as DateTime', () => {
+    expect(inferStaticFieldType(formula({ date_formatter: 'yyyy/MM/dd' }), [])).toBe('DateTime');
+  });
+
+  it('should keep multi-value lookups as Text', () => {
+    const values = [{ type: 2, value: [100] }, { type: 2, value: [100, 200] }] as never[];
+    expect(inferStaticFieldType(lookup, values)).toBe('Text');
+  });
+
+  it('should infer Number for single-value lookups', () => {
+    const values = [{ type: 2, value: [100] }, { type: 2, value: [250] }] as never[];
+    expect(inferStaticFieldType(lookup, values)).toBe('Number');
+  });
+});
+
+describe('toStaticValue', () => {
+  it('should convert numeric strings to numbers', () => {
+    expect(toStaticValue('12.5', 'Number')).toBe(12.5);
+  });
+
+  it('should return null for values that are not numbers', () => {
+    expect(toStaticValue('abc', 'Number')).toBeNull();
+  });
+
+  it('should parse ISO dates to timestamps', () => {
+    expect(toStaticValue('2024-01-01T00:00:00Z', 'DateTime')).toBe(Date.UTC(2024, 0, 1));
+  });
+
+  it('should convert boolean strings for Checkbox', () => {
+    expect(toStaticValue('true', 'Checkbox')).toBe(true);
+  });
+
+  it('should return null for multi-value cells', () => {
+    expect(toStaticValue({ type: 2, value: [1, 2] } as never, 'Number')).toBeNull();
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * Field Type Mapping Tests
+ *
+ * @description Tests for the snapshot mapping of every Lark field type
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemorySnapshotStateStore } from '../../src/services/snapshotStateStore.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import {
+  FIELD_TYPE_MAPPINGS,
+  LARK_FIELD_TYPES,
+  getFieldTypeMapping,
+  isValidEmail,
+  parseLocationValue,
+  toEmailAddress,
+} from '../../src/services/fieldTypeMapping.js';
+import type { LarkFieldType } from '../../src/types/index.js';
+
+describe('getFieldTypeMapping', () => {
+  it('should map every Lark type number', () => {
+    const expected: Array<[number, LarkFieldType, string]> = [
+      [1, 'Text', 'keep'],
+      [2, 'Number', 'keep'],
+      [3, 'SingleSelect', 'keep'],
+      [4, 'MultiSelect', 'keep'],
+      [5, 'DateTime', 'keep'],
+      [7, 'Checkbox', 'keep'],
+      [11, 'Text', 'text'],
+      [13, 'Phone', 'keep'],
+      [15, 'Url', 'keep'],
+      [17, 'Text', 'text'],
+      [18, 'Text', 'text'],
+      [19, 'Text', 'computed'],
+      [20, 'Text', 'computed'],
+      [21, 'Text', 'text'],
+      [22, 'Text', 'location'],
+      [23, 'Text', 'text'],
+      [24, 'Text', 'text'],
+      [1001, 'DateTime', 'dateTime'],
+      [1002, 'DateTime', 'dateTime'],
+      [1003, 'Text', 'text'],
+      [1004, 'Text', 'text'],
+      [1005, 'Text', 'text'],
+      [3001, 'Text', 'text'],
+    ];
+
+    for (const [type, target, conversion] of expected) {
+      const mapping = getFieldTypeMapping({ type, ui_type: undefined as unknown as LarkFieldType });
+      expect({ type, target: mapping.target, conversion: mapping.conversion })
+        .toEqual({ type, target, conversion });
+    }
+  });
+
+  it('should tell ui_types sharing a type number apart', () => {
+    expect(getFieldTypeMapping({ type: 2, ui_type: 'Currency' }).conversion).toBe('number');
+    expect(getFieldTypeMapping({ type: 2, ui_type: 'Progress' }).conversion).toBe('number');
+    expect(getFieldTypeMapping({ type: 2, ui_type: 'Rating' }).target).toBe('Rating');
+    expect(getFieldTypeMapping({ type: 1, ui_type: 'Barcode' })).toEqual({ type: 1, target: 'Barcode', conversion: 'keep' });
+    expect(getFieldTypeMapping({ type: 1, ui_type: 'Email' }).conversion).toBe('email');
+    expect(LARK_FIELD_TYPES.Progress).toBe(2);
+    expect(LARK_FIELD_TYPES.Location).toBe(22);
+  });
+
+  it('should freeze unknown field types to text', () => {
+    expect(getFieldTypeMapping({ type: 9999, ui_type: 'Unknown' as LarkFieldType }))
+      .toEqual({ type: 1, target: 'Text', conversion: 'text' });
+  });
+
+  it('should only target field types a table can be created with', () => {
+    const creatable: LarkFieldType[] = [
+      'Text', 'Number', 'SingleSelect', 'MultiSelect', 'DateTime', 'Checkbox', 'Phone', 'Url',
+      'Barcode', 'Currency', 'Progress', 'Rating',
+    ];
+    for (const mapping of Object.values(FIELD_TYPE_MAPPINGS)) {
+      expect(creatable).toContain(mapping.target);
+    }
+  });
+});
+
+describe('value helpers', () => {
+  it('should split a location into address and coordinates', () => {
+    expect(parseLocationValue({
+      location: '139.767125,35.681236',
+      name: '東京駅',
+      full_address: '東京都千代田区丸の内1丁目',
+    } as never)).toEqual({ address: '東京都千代田区丸の内1丁目', latitude: 35.681236, longitude: 139.767125 });
+  });
+
+  it('should read and validate e-mail addresses', () => {
+    expect(toEmailAddress([{ type: 'url', text: 'mailto:a@example.com' }] as never)).toBe('a@example.com');
+    expect(isValidEmail('a@example.com')).toBe(true);
+    expect(isValidEmail('not an address')).toBe(false);
+  });
+});
+
+describe('SnapshotService field type mapping', () => {
+  const created = Date.UTC(2024, 2, 1);
+  const sites: StubTable = {
+    table: { table_id: 'tblSites', name: 'Sites', revision: 1 },
+    fields: [
+      { field_id: 'fldName', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+      { field_id: 'fldNo', field_name: 'No', type: 1005, ui_type: 'AutoNumber' },
+      { field_id: 'fldCreated', field_name: 'Created', type: 1001, ui_type: 'CreatedTime' },
+      { field_id: 'fldContact', field_name: 'Contact', type: 1, ui_type: 'Email' },
+      { field_id: 'fldPlace', field_name: 'Place', type: 22, ui_type: 'Location' },
+    ],
+    records: [
+      {
+        record_id: 'rec1',
+        fields: {
+          Name: 'Head office',
+          No: 'S-001',
+          Created: created,
+          Contact: 'office@example.com',
+          Place: { location: '139.767125,35.681236', full_address: '東京都千代田区丸の内1丁目' },
+        } as never,
+      },
+      { record_id: 'rec2', fields: { Name: 'Branch', No: 'S-002', Created: created, Contact: 'n/a' } },
+    ],
+  };
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('new snapshot', () => {
+    let stub: ReturnType<typeof stubLarkClient>;
+
+    beforeEach(() => {
+      stub = stubLarkClient([sites]);
+    });
+
+    it('should create native fields and write converted values', async () => {
+      const service = createTestService();
+      const result = await service.createSnapshot({
+        sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+        targetBaseName: 'Target',
+        grantAdminPermission: false,
+      });
+
+      expect(result.success).toBe(true);
+      const fields = stub.createTable.mock.calls[0][2];
+      expect(fields.map((f) => [f.field_name, f.ui_type])).toEqual([
+        ['Name', 'Text'],
+        ['No', 'Text'],
+        ['Created', 'DateTime'],
+        ['Contact', 'Text'],
+        ['Place', 'Text'],
+        ['Place_latitude', 'Number'],
+        ['Place_longitude', 'Number'],
+        ['_source_record_id', 'Text'],
+      ]);
+
+      const records = stub.createRecords.mock.calls[0][2];
+      expect(records[0].fields).toEqual({
+        Name: 'Head office',
+        No: 'S-001',
+        Created: created,
+        Contact: 'office@example.com',
+        Place: '東京都千代田区丸の内1丁目',
+        Place_latitude: 35.681236,
+        Place_longitude: 139.767125,
+        _source_record_id: 'rec1',
+      });
+      expect(result.warnings).toContainEqual({
+        table: expect.stringMatching(/^Sites_snap_/),
+        field: 'Contact',
+        message: '1 value(s) are not valid e-mail addresses and were copied as text',
+      });
+    });
+  });
+
+  it('should create Currency, Progress, Rating and Barcode fields with their settings', async () => {
+    const stub = stubLarkClient([{
+      table: { table_id: 'tblItems', name: 'Items', revision: 1 },
+      fields: [
+        { field_id: 'fldName', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+        {
+          field_id: 'fldPrice',
+          field_name: 'Price',
+          type: 2,
+          ui_type: 'Currency',
+          property: { currency_code: 'USD', formatter: '0.00' },
+        },
+        {
+          field_id: 'fldDone',
+          field_name: 'Done',
+          type: 2,
+          ui_type: 'Progress',
+          property: { formatter: '0%', min: 0, max: 200, range_customize: true },
+        },
+        {
+          field_id: 'fldScore',
+          field_name: 'Score',
+          type: 2,
+          ui_type: 'Rating',
+          property: { formatter: '0', min: 1, max: 5, rating: { symbol: 'heart' } },
+        },
+        { field_id: 'fldCode', field_name: 'Code', type: 1, ui_type: 'Barcode' },
+      ],
+      records: [
+        { record_id: 'rec1', fields: { Name: 'Lamp', Price: '19.5', Done: 120, Score: 4, Code: '4901234567894' } },
+      ],
+    }]);
+
+    const service = createTestService();
+    await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(stub.createTable.mock.calls[0][2].slice(1, 5)).toEqual([
+      {
+        field_name: 'Price',
+        type: 2,
+        ui_type: 'Currency',
+        property: { formatter: '0.00', currency_code: 'USD' },
+      },
+      {
+        field_name: 'Done',
+        type: 2,
+        ui_type: 'Progress',
+        property: { formatter: '0%', min: 0, max: 200, range_customize: true },
+      },
+      {
+        field_name: 'Score',
+        type: 2,
+        ui_type: 'Rating',
+        property: { formatter: '0', min: 1, max: 5, rating: { symbol: 'heart' } },
+      },
+      { field_name: 'Code', type: 1, ui_type: 'Barcode' },
+    ]);
+    expect(stub.createRecords.mock.calls[0][2][0].fields).toMatchObject({
+      Price: 19.5,
+      Done: 120,
+      Score: 4,
+      Code: '4901234567894',
+    });
+  });
+
+  it('should keep writing text to created time fields of older snapshot tables', async () => {
+    const stateStore = new InMemorySnapshotStateStore();
+    await stateStore.save({
+      key: 'srcApp:Target',
+      sourceAppToken: 'srcApp',
+      targetBase: { app_token: 'tgtApp', name: 'Target' },
+      tables: {
+        tblSites: {
+          sourceTableId: 'tblSites',
+          targetTableId: 'tgt_tblSites',
+          tableName: 'Sites_snap_20240101',
+          watermark: 1000,
+          recordIdMap: {},
+          deletedRecordIds: [],
+        },
+      },
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+    const stub = stubLarkClient([sites]);
+    stub.listFields.mockResolvedValue([
+      { field_id: 't1', field_name: 'Name', type: 1, ui_type: 'Text' },
+      { field_id: 't2', field_name: 'Created', type: 1, ui_type: 'Text' },
+      { field_id: 't3', field_name: 'Place', type: 1, ui_type: 'Text' },
+    ]);
+
+    const service = createTestService({ stateStore });
+    await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+      incremental: true,
+    });
+
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records[0].fields).toEqual({
+      Name: 'Head office',
+      Created: expect.stringMatching(/^2024\/0[23]\/\d{2} \d{2}:\d{2}$/),
+      Place: '東京都千代田区丸の内1丁目',
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * LarkApiClient test stub
+ *
+ * @description Serves an in-memory source Base through spies on LarkApiClient
+ * and records what SnapshotService writes to the target Base
+ */
+
+import { vi } from 'vitest';
+import { LarkApiClient } from '../../../src/services/larkApiClient.js';
+import { SnapshotService, type SnapshotServiceOptions } from '../../../src/services/snapshotService.js';
+import { InMemorySnapshotStateStore } from '../../../src/services/snapshotStateStore.js';
+import { InMemoryCheckpointStore } from '../../../src/services/checkpointStore.js';
+import type { LarkField, LarkRecord, LarkTable } from '../../../src/types/index.js';
+
+export interface StubTable {
+  table: LarkTable;
+  fields: LarkField[];
+  records: LarkRecord[];
+}
+
+/**
+ * Stub the LarkApiClient prototype with an in-memory source Base.
+ * Target tables get IDs `tgt_<source table_id>` and target records
+ * get IDs `tgt_<source record_id>`.
+ */
+export function stubLarkClient(sourceTables: StubTable[]) {
+  const targetTableIds = new Map<string, string>();
+  const tableNames = new Map<string, string>();
+  const createdFields = new Map<string, LarkField[]>();
+  let createdTableCount = 0;
+
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(LarkApiClient.prototype, 'resolveBaseAppToken').mockResolvedValue('srcApp');
+  vi.spyOn(LarkApiClient.prototype, 'getBase').mockImplementation(async (appToken) => ({
+    app_token: appToken,
+    name: appToken === 'srcApp' ? 'Source' : 'Target',
+  }));
+  vi.spyOn(LarkApiClient.prototype, 'listTablesWithFallback').mockResolvedValue(
+    sourceTables.map((t) => t.table)
+  );
+  const listTables = vi.spyOn(LarkApiClient.prototype, 'listTables').mockResolvedValue([]);
+  const hasEditPermission = vi.spyOn(LarkApiClient.prototype, 'hasEditPermission').mockResolvedValue(true);
+  vi.spyOn(LarkApiClient.prototype, 'listFieldsWithFallback').mockImplementation(
+    async (_appToken, tableId) => sourceTables.find((t) => t.table.table_id === tableId)?.fields ?? []
+  );
+  const listRecordsWithFallback = vi.spyOn(LarkApiClient.prototype, 'listRecordsWithFallback').mockImplementation(
+    async (_appToken, tableId) => sourceTables.find((t) => t.table.table_id === tableId)?.records ?? []
+  );
+  const listRecords = vi.spyOn(LarkApiClient.prototype, 'listRecords').mockImplementation(
+    async (_appToken, tableId) => sourceTables.find((t) => t.table.table_id === tableId)?.records ?? []
+  );
+
+  const createBase = vi.spyOn(LarkApiClient.prototype, 'createBase').mockResolvedValue({
+    app_token: 'tgtApp',
+    name: 'Target',
+  });
+  const createTable = vi.spyOn(LarkApiClient.prototype, 'createTable').mockImplementation(
+    async (_appToken, name, fields) => {
+      // Target table IDs follow creation order of the source tables
+      const source = sourceTables[createdTableCount++];
+      const tableId = `tgt_${source.table.table_id}`;
+      targetTableIds.set(source.table.table_id, tableId);
+      tableNames.set(tableId, name);
+      createdFields.set(tableId, fields.map((f, idx) => ({
+        field_id: `tgtfld_${idx}`,
+        field_name: f.field_name!,
+        type: f.type!,
+        ui_type: f.ui_type!,
+        property: f.property,
+      })));
+      return { table_id: tableId, name, revision: 0 };
+    }
+  );
+  const listFields = vi.spyOn(LarkApiClient.prototype, 'listFields').mockImplementation(
+    async (_appToken, tableId) => createdFields.get(tableId) ?? []
+  );
+  const createField = vi.spyOn(LarkApiClient.prototype, 'createField').mockImplementation(
+    async (_appToken, tableId, field) => {
+      const created = {
+        field_id: `tgtfld_${field.field_name}`,
+        field_name: field.field_name!,
+        type: field.type!,
+        ui_type: field.ui_type!,
+        property: field.property,
+      };
+      createdFields.get(tableId)?.push(created);
+      return created;
+    }
+  );
+  const createRecords = vi.spyOn(LarkApiClient.prototype, 'createRecords').mockImplementation(
+    async (_appToken, tableId, records, onBatch) => {
+      const source = sourceTables.find((t) => `tgt_${t.table.table_id}` === tableId);
+      const created = records.map((r, idx) => ({
+        record_id: `tgt_${source?.records[idx]?.record_id ?? idx}`,
+        fields: r.fields as LarkRecord['fields'],
+      }));
+      onBatch?.(created);
+      return created;
+    }
+  );
+  const updateRecords = vi.spyOn(LarkApiClient.prototype, 'updateRecords').mockImplementation(
+    async (_appToken, _tableId, records, onBatch) => {
+      const updated = records.map((r) => ({
+        record_id: r.record_id,
+        fields: r.fields as LarkRecord['fields'],
+      }));
+      onBatch?.(updated);
+      return updated;
+    }
+  );
+  const updateRecordField = vi.spyOn(LarkApiClient.prototype, 'updateRecordField').mockResolvedValue();
+  const listViews = vi.spyOn(LarkApiClient.prototype, 'listViews').mockResolvedValue([]);
+  const createView = vi.spyOn(LarkApiClient.prototype, 'createView').mockImplementation(
+    async (_appToken, _tableId, view) => ({ view_id: `tgtview_${view.view_name}`, ...view })
+  );
+  const updateView = vi.spyOn(LarkApiClient.prototype, 'updateView').mockImplementation(
+    async (_appToken, _tableId, viewId, update) => ({
+      view_id: viewId,
+      view_name: update.view_name ?? '',
+      view_type: 'grid',
+      property: update.property,
+    })
+  );
+
+  return {
+    listTables,
+    hasEditPermission,
+    listFields,
+    listRecords,
+    listRecordsWithFallback,
+    createBase,
+    createTable,
+    createField,
+    createRecords,
+    updateRecords,
+    updateRecordField,
+    listViews,
+    createView,
+    updateView,
+    targetTableIds,
+    tableNames,
+  };
+}
+
+/**
+ * Create a SnapshotService that keeps its state and checkpoints in memory
+ */
+export function createTestService(options: SnapshotServiceOptions = {}): SnapshotService {
+  return new SnapshotService({ appId: 'id', appSecret: 'secret' }, undefined, {
+    stateStore: new InMemorySnapshotStateStore(),
+    checkpointStore: new InMemoryCheckpointStore(),
+    ...options,
+  });
+}
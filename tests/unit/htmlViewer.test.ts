@@ -0,0 +1,92 @@
+/**
+ * HTML Viewer Tests
+ *
+ * @description Tests for the static HTML viewer page of frozen snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadViewerAssets, renderViewerHtml, toViewerData } from '../../src/services/htmlViewer.js';
+import type { FrozenSnapshot } from '../../src/types/index.js';
+
+const snapshot: FrozenSnapshot = {
+  sourceBase: { app_token: 'srcApp', name: 'Sales <Q1>' },
+  errors: [{ table: 'Hidden', message: 'Could not retrieve field definitions' }],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  tables: [
+    {
+      sourceTableId: 'tblDeals',
+      tableName: 'Deals',
+      fields: [
+        { field_name: 'Name', type: 1, ui_type: 'Text' },
+        { field_name: 'Amount', type: 2, ui_type: 'Currency' },
+        { field_name: 'Won', type: 7, ui_type: 'Checkbox' },
+        { field_name: 'Tags', type: 4, ui_type: 'MultiSelect' },
+      ],
+      records: [
+        {
+          sourceRecordId: 'rec1',
+          fields: { Name: '</script><b>x</b>', Amount: 1200, Won: true, Tags: ['New', 'VIP'] },
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Read the JSON embedded in a rendered page
+ */
+function readEmbeddedData(html: string): unknown {
+  const match = html.match(/<script id="snapshot-data" type="application\/json">(.*?)<\/script>/s);
+  return JSON.parse(match![1]);
+}
+
+describe('htmlViewer', () => {
+  it('should convert records to display text with column kinds', () => {
+    const data = toViewerData(snapshot);
+
+    expect(data.sourceBase.name).toBe('Sales <Q1>');
+    expect(data.capturedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(data.errors).toHaveLength(1);
+    expect(data.tables[0].columns).toEqual([
+      { name: 'Name', kind: 'text' },
+      { name: 'Amount', kind: 'number' },
+      { name: 'Won', kind: 'boolean' },
+      { name: 'Tags', kind: 'text' },
+    ]);
+    expect(data.tables[0].records).toEqual([
+      { id: 'rec1', values: ['</script><b>x</b>', '1200', 'true', 'New, VIP'] },
+    ]);
+  });
+
+  it('should inline the data and assets without breaking out of their elements', () => {
+    const data = toViewerData(snapshot);
+    const html = renderViewerHtml(data, {
+      script: 'const tag = "</script>";',
+      style: 'body { color: red; }',
+    });
+
+    expect(html).toContain('<title>Sales &lt;Q1&gt; - Snapshot 2026-01-01</title>');
+    expect(html).toContain('<style>body { color: red; }</style>');
+    expect(html).toContain('<script>const tag = "<\\/script>";</script>');
+    expect(html.match(/<\/script>/g)).toHaveLength(2);
+    expect(readEmbeddedData(html)).toEqual(data);
+    expect(html).toContain('<html lang="en">');
+    expect(renderViewerHtml(data, { script: '', style: '' }, 'ja')).toContain('<html lang="ja">');
+  });
+
+  it('should read the built bundle and report a missing build', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'viewer-'));
+    try {
+      await expect(loadViewerAssets(dir)).rejects.toThrow('npm run build:viewer');
+
+      await writeFile(join(dir, 'viewer.js'), 'console.log(1);');
+      await writeFile(join(dir, 'viewer.css'), 'body{}');
+      await expect(loadViewerAssets(dir)).resolves.toEqual({ script: 'console.log(1);', style: 'body{}' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Job Store Tests
+ *
+ * @description Tests for persisting background snapshot jobs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileJobStore, InMemoryJobStore } from '../../src/services/jobStore.js';
+import type { SnapshotJob } from '../../src/types/index.js';
+
+function makeJob(id: string, state: SnapshotJob['state'], updatedAt = new Date().toISOString()): SnapshotJob {
+  return { id, state, recordsWritten: 0, errors: [], createdAt: updatedAt, updatedAt };
+}
+
+const readJobs = (path: string): Record<string, SnapshotJob> => JSON.parse(readFileSync(path, 'utf-8'));
+
+describe('FileJobStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'jobs-'));
+    filePath = join(dir, 'jobs.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should coalesce the progress writes of running jobs', async () => {
+    const store = new FileJobStore(filePath, { saveIntervalMs: 20 });
+
+    for (let written = 1; written <= 5; written++) {
+      await store.save({ ...makeJob('job1', 'running'), recordsWritten: written });
+    }
+
+    // Served from memory before the file is written
+    expect((await store.get('job1'))?.recordsWritten).toBe(5);
+    expect(existsSync(filePath)).toBe(false);
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await store.flush();
+    expect(readJobs(filePath).job1.recordsWritten).toBe(5);
+  });
+
+  it('should write finished jobs at once and read them back', async () => {
+    const store = new FileJobStore(filePath, { saveIntervalMs: 60_000 });
+    await store.save(makeJob('job1', 'running'));
+    await store.save(makeJob('job1', 'completed'));
+
+    expect(readJobs(filePath).job1.state).toBe('completed');
+    expect((await new FileJobStore(filePath).get('job1'))?.state).toBe('completed');
+  });
+
+  it('should evict finished jobs after the TTL', async () => {
+    const store = new FileJobStore(filePath, { finishedJobTtlMs: 60_000 });
+    const old = new Date(Date.now() - 120_000).toISOString();
+    await store.save(makeJob('old', 'failed', old));
+    await store.save(makeJob('recent', 'completed'));
+
+    expect(Object.keys(readJobs(filePath))).toEqual(['recent']);
+    expect(await store.get('old')).toBeNull();
+  });
+});
+
+describe('InMemoryJobStore', () => {
+  it('should evict finished jobs after the TTL', async () => {
+    const store = new InMemoryJobStore({ finishedJobTtlMs: 60_000 });
+    await store.save(makeJob('old', 'completed', new Date(Date.now() - 120_000).toISOString()));
+    await store.save(makeJob('queued', 'queued', new Date(Date.now() - 120_000).toISOString()));
+
+    expect(await store.get('old')).toBeNull();
+    expect(await store.get('queued')).not.toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Record Filter Tests
+ *
+ * @description Tests for the record filter expression language and filtered snapshots
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemorySnapshotStateStore } from '../../src/services/snapshotStateStore.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import { compileRecordFilter, parseRecordFilter } from '../../src/services/recordFilter.js';
+import type { LarkField, LarkRecord } from '../../src/types/index.js';
+
+const fields: LarkField[] = [
+  { field_id: 'fldName', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+  { field_id: 'fldStatus', field_name: 'Status', type: 3, ui_type: 'SingleSelect' },
+  { field_id: 'fldAmount', field_name: 'Amount', type: 2, ui_type: 'Number' },
+  { field_id: 'fldClose', field_name: 'Close Date', type: 5, ui_type: 'DateTime' },
+  { field_id: 'fldTags', field_name: 'Tags', type: 4, ui_type: 'MultiSelect' },
+  { field_id: 'fldOwner', field_name: 'Owner', type: 11, ui_type: 'User' },
+  { field_id: 'fldWon', field_name: 'Won', type: 7, ui_type: 'Checkbox' },
+];
+
+const deals: LarkRecord[] = [
+  {
+    record_id: 'rec1',
+    fields: {
+      Name: [{ type: 'text', text: 'Acme ' }, { type: 'text', text: 'renewal' }],
+      Status: 'Closed',
+      Amount: 1200,
+      'Close Date': new Date(2024, 10, 5).getTime(),
+      Tags: ['enterprise', 'urgent'],
+      Owner: [{ id: 'ou_1', name: 'Alice' }],
+      Won: true,
+    } as never,
+  },
+  {
+    record_id: 'rec2',
+    fields: {
+      Name: 'Globex',
+      Status: 'Closed',
+      Amount: 300,
+      'Close Date': new Date(2024, 8, 30).getTime(),
+      Tags: ['smb'],
+      Won: false,
+    } as never,
+  },
+  { record_id: 'rec3', fields: { Name: 'Initech', Status: 'Open', Amount: 5000 } },
+];
+
+/** Record IDs matching an expression */
+function match(expression: string): string[] {
+  const matches = compileRecordFilter(expression, fields);
+  return deals.filter(matches).map((r) => r.record_id);
+}
+
+describe('parseRecordFilter', () => {
+  it('should bind AND tighter than OR', () => {
+    expect(parseRecordFilter('A = 1 OR B = 2 AND NOT C IS EMPTY')).toEqual({
+      kind: 'or',
+      left: { kind: 'compare', field: 'A', operator: '=', value: 1 },
+      right: {
+        kind: 'and',
+        left: { kind: 'compare', field: 'B', operator: '=', value: 2 },
+        right: { kind: 'not', operand: { kind: 'empty', field: 'C', negated: false } },
+      },
+    });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseRecordFilter('')).toThrow('The filter expression is empty');
+    expect(() => parseRecordFilter('Status = ')).toThrow('Expected a value at the end of the expression');
+    expect(() => parseRecordFilter('Status "Closed"')).toThrow('Expected an operator at position 8');
+    expect(() => parseRecordFilter('(Amount > 1')).toThrow('Expected ")" at the end of the expression');
+    expect(() => parseRecordFilter('[Close Date >= "2024-01-01"')).toThrow('Missing "]"');
+    expect(() => parseRecordFilter('Won > TRUE')).toThrow('TRUE and FALSE can only be compared with = or !=');
+  });
+});
+
+describe('compileRecordFilter', () => {
+  it('should compare text, numbers, dates and checkboxes', () => {
+    expect(match('Status = "Closed"')).toEqual(['rec1', 'rec2']);
+    expect(match('Status = "Closed" AND [Close Date] >= "2024-10-01"')).toEqual(['rec1']);
+    expect(match('Amount > 1000')).toEqual(['rec1', 'rec3']);
+    expect(match('Won = TRUE')).toEqual(['rec1']);
+    expect(match("Name = 'Acme renewal'")).toEqual(['rec1']);
+  });
+
+  it('should read dates in the time zone of the Base', () => {
+    // 2024-04-01 01:00 in Tokyo, still 2024-03-31 in New York
+    const record: LarkRecord = { record_id: 'rec1', fields: { 'Close Date': Date.UTC(2024, 2, 31, 16, 0) } };
+    const expression = '[Close Date] >= "2024-04-01"';
+
+    expect(compileRecordFilter(expression, fields, 'Asia/Tokyo')(record)).toBe(true);
+    expect(compileRecordFilter(expression, fields, 'America/New_York')(record)).toBe(false);
+    expect(compileRecordFilter('[Close Date] = "2024-04-01 01:00"', fields, 'Asia/Tokyo')(record)).toBe(true);
+  });
+
+  it('should match any value of a multi-value cell', () => {
+    expect(match('Tags = "urgent"')).toEqual(['rec1']);
+    expect(match('Tags != "urgent"')).toEqual(['rec2', 'rec3']);
+    expect(match('Owner CONTAINS "ali"')).toEqual(['rec1']);
+  });
+
+  it('should test for empty cells', () => {
+    expect(match('Owner IS EMPTY')).toEqual(['rec2', 'rec3']);
+    expect(match('NOT (Tags IS NOT EMPTY OR Amount < 1000)')).toEqual(['rec3']);
+  });
+
+  it('should reject fields that are not in the table', () => {
+    expect(() => compileRecordFilter('Stage = "Won"', fields)).toThrow('Field "Stage" is not in the source table');
+  });
+});
+
+describe('SnapshotService record filters', () => {
+  const table: StubTable = {
+    table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+    fields: fields.slice(0, 3),
+    records: deals.map((r) => ({
+      ...r,
+      fields: { Name: r.fields.Name, Status: r.fields.Status, Amount: r.fields.Amount },
+      last_modified_time: 2000,
+    })),
+  };
+  const config = {
+    sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+    targetBaseName: 'Target',
+    grantAdminPermission: false,
+  };
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([table]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should only copy the records matching the filter', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...config,
+      recordFilters: { tblDeals: 'Status = "Closed"' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.recordsProcessed).toBe(2);
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records.map((r) => r.fields._source_record_id)).toEqual(['rec1', 'rec2']);
+  });
+
+  it('should skip a table with an invalid filter', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...config,
+      recordFilters: { tblDeals: 'Status =' },
+    });
+
+    expect(result.errors).toContainEqual({
+      table: expect.stringMatching(/^Deals_snap_/),
+      message: 'Invalid record filter: Expected a value at the end of the expression',
+      code: 'INVALID_RECORD_FILTER',
+    });
+    expect(stub.createTable).not.toHaveBeenCalled();
+  });
+
+  it('should record records leaving the filter as deleted in incremental runs', async () => {
+    const stateStore = new InMemorySnapshotStateStore();
+    await stateStore.save({
+      key: 'srcApp:Target',
+      sourceAppToken: 'srcApp',
+      targetBase: { app_token: 'tgtApp', name: 'Target' },
+      tables: {
+        tblDeals: {
+          sourceTableId: 'tblDeals',
+          targetTableId: 'tgt_tblDeals',
+          tableName: 'Deals_snap_20240101',
+          watermark: 3000,
+          recordIdMap: { rec1: 'tgt_rec1', rec2: 'tgt_rec2', rec3: 'tgt_rec3' },
+          deletedRecordIds: [],
+        },
+      },
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    const service = createTestService({ stateStore });
+    const result = await service.createSnapshot({
+      ...config,
+      incremental: true,
+      recordFilters: { tblDeals: 'Amount >= 1000' },
+    });
+
+    expect(result.incremental).toMatchObject({ created: 0, updated: 0, deleted: 1 });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Snapshot Archive Tests
+ *
+ * @description Tests for the gzip JSON Lines archive reader and writer
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { gunzipSync, gzipSync } from 'zlib';
+import {
+  ARCHIVE_FORMAT_VERSION,
+  createArchive,
+  readArchive,
+  writeArchive,
+} from '../../src/services/snapshotArchive.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+
+const tasks: StubTable = {
+  table: { table_id: 'tblTasks', name: 'Tasks', revision: 3 },
+  fields: [
+    { field_id: 'f1', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+    {
+      field_id: 'f2',
+      field_name: 'Project',
+      type: 18,
+      ui_type: 'SingleLink',
+      property: { table_id: 'tblProjects', multiple: true },
+    },
+  ],
+  records: [
+    {
+      record_id: 'recT1',
+      fields: { Title: 'Write spec', Project: [{ record_id: '', record_ids: ['recP1'], text: 'Alpha' }] },
+      created_time: 1000,
+      last_modified_time: 2000,
+    },
+  ],
+};
+
+const archive = createArchive(
+  { app_token: 'srcApp', name: 'Source' },
+  'srcApp',
+  '2026-01-01T00:00:00.000Z',
+  [{ table: tasks.table, fields: tasks.fields, records: tasks.records }]
+);
+
+describe('snapshotArchive', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write a manifest line followed by table and record lines', () => {
+    const lines = gunzipSync(writeArchive(archive)).toString('utf-8').trim().split('\n').map((l) => JSON.parse(l));
+
+    expect(lines.map((l) => l.type)).toEqual(['manifest', 'table', 'record']);
+    expect(lines[0]).toMatchObject({
+      format: 'lark-base-snapshot',
+      version: ARCHIVE_FORMAT_VERSION,
+      baseName: 'Source',
+      sourceAppToken: 'srcApp',
+      tables: [{ tableId: 'tblTasks', name: 'Tasks', fieldCount: 2, recordCount: 1 }],
+    });
+    expect(lines[2]).toEqual({ type: 'record', tableId: 'tblTasks', record: tasks.records[0] });
+  });
+
+  it('should read back exactly what was written', () => {
+    expect(readArchive(writeArchive(archive))).toEqual(archive);
+  });
+
+  it('should reject newer versions and truncated archives', () => {
+    const newer = createArchive({ app_token: 'a', name: 'A' }, 'a', '', []);
+    newer.manifest.version = ARCHIVE_FORMAT_VERSION + 1;
+    expect(() => readArchive(writeArchive(newer))).toThrow(/newer than supported/);
+
+    const text = gunzipSync(writeArchive(archive)).toString('utf-8').trim().split('\n');
+    const truncated = gzipSync(Buffer.from(text.slice(0, 2).join('\n')));
+    expect(() => readArchive(truncated)).toThrow('table Tasks has 0 of 1 records');
+
+    expect(() => readArchive(Buffer.from('not gzip'))).toThrow(/not gzip data/);
+  });
+
+  it('should skip unknown line types', () => {
+    const text = gunzipSync(writeArchive(archive)).toString('utf-8') + '{"type":"view","name":"Grid"}\n';
+    expect(readArchive(gzipSync(Buffer.from(text))).tables).toHaveLength(1);
+  });
+
+  it('should capture raw fields and records from the source Base', async () => {
+    const stub = stubLarkClient([tasks]);
+    const service = createTestService();
+    const { archive: captured, errors } = await service.captureArchive({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+    });
+
+    expect(errors).toEqual([]);
+    expect(stub.createBase).not.toHaveBeenCalled();
+    expect(captured.manifest.baseName).toBe('Source');
+    expect(captured.tables[0].fields).toEqual(tasks.fields);
+    expect(captured.tables[0].records).toEqual(tasks.records);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Attachment Copy Tests
+ *
+ * @description Tests for copying attachment files when preserveAttachments is set
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
+import { LarkApiClient } from '../../src/services/larkApiClient.js';
+import { InMemorySnapshotStateStore } from '../../src/services/snapshotStateStore.js';
+import { createTestService, stubLarkClient } from './helpers/larkClientStub.js';
+
+const baseConfig = {
+  sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+  targetBaseName: 'Target',
+  grantAdminPermission: false,
+};
+
+describe('SnapshotService attachment copy', () => {
+  let stub: ReturnType<typeof stubLarkClient>;
+  let uploadAttachment: MockInstance<LarkApiClient['uploadAttachment']>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([
+      {
+        table: { table_id: 'tbl1', name: 'Docs', revision: 1 },
+        fields: [
+          { field_id: 'fld1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+          { field_id: 'fld2', field_name: 'Files', type: 17, ui_type: 'Attachment' },
+        ],
+        records: [
+          {
+            record_id: 'rec1',
+            fields: {
+              Name: 'First',
+              Files: [
+                { file_token: 'file1', name: 'a.pdf', type: 'application/pdf', size: 10 },
+                { file_token: 'file2', name: 'b.pdf', type: 'application/pdf', size: 10 },
+              ],
+            },
+          },
+        ],
+      },
+    ]);
+    vi.spyOn(LarkApiClient.prototype, 'downloadAttachment').mockResolvedValue({
+      buffer: Buffer.alloc(10),
+      contentType: 'application/pdf',
+    });
+    uploadAttachment = vi.spyOn(LarkApiClient.prototype, 'uploadAttachment')
+      .mockResolvedValueOnce('newFile1')
+      .mockResolvedValueOnce('newFile2');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should convert attachments to file names by default', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot(baseConfig);
+
+    expect(result.success).toBe(true);
+    const fields = stub.createTable.mock.calls[0][2];
+    expect(fields.find((f) => f.field_name === 'Files')?.type).toBe(1);
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records[0].fields.Files).toBe('a.pdf, b.pdf');
+    expect(uploadAttachment).not.toHaveBeenCalled();
+  });
+
+  it('should keep Attachment fields and re-upload files to the target record', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({ ...baseConfig, preserveAttachments: true });
+
+    expect(result.success).toBe(true);
+    const fields = stub.createTable.mock.calls[0][2];
+    expect(fields.find((f) => f.field_name === 'Files')?.type).toBe(17);
+    const records = stub.createRecords.mock.calls[0][2];
+    expect(records[0].fields.Files).toBeUndefined();
+
+    expect(uploadAttachment).toHaveBeenCalledTimes(2);
+    expect(uploadAttachment.mock.calls[0].slice(0, 5)).toEqual(['tgtApp', 'tgt_tbl1', 'tgt_rec1', 'Files', 'a.pdf']);
+    expect(stub.updateRecordField).toHaveBeenCalledWith('tgtApp', 'tgt_tbl1', 'tgt_rec1', {
+      Files: [{ file_token: 'newFile1' }, { file_token: 'newFile2' }],
+    });
+  });
+
+  it('should report files that exceed the total size limit', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      ...baseConfig,
+      preserveAttachments: true,
+      maxAttachmentBytes: 15,
+    });
+
+    expect(result.success).toBe(false);
+    expect(uploadAttachment).toHaveBeenCalledTimes(1);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      table: expect.stringMatching(/^Docs_snap_\d{8}$/),
+      record: 'rec1',
+      field: 'Files',
+      code: 'ATTACHMENT_LIMIT_EXCEEDED',
+    });
+  });
+
+  it('should apply the size limit to incremental runs', async () => {
+    const stateStore = new InMemorySnapshotStateStore();
+    await stateStore.save({
+      key: 'srcApp:Target',
+      sourceAppToken: 'srcApp',
+      targetBase: { app_token: 'tgtApp', name: 'Target' },
+      tables: {
+        tbl1: {
+          sourceTableId: 'tbl1',
+          targetTableId: 'tgt_tbl1',
+          tableName: 'Docs_snap_20240101',
+          watermark: 0,
+          recordIdMap: {},
+          deletedRecordIds: [],
+        },
+      },
+      updatedAt: '2024-01-01T00:00:00.000Z',
+    });
+
+    // The first run kept Files as an Attachment field
+    stub.listFields.mockResolvedValue([
+      { field_id: 't1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+      { field_id: 't2', field_name: 'Files', type: 17, ui_type: 'Attachment' },
+    ]);
+    const service = createTestService({ stateStore });
+    const result = await service.createSnapshot({
+      ...baseConfig,
+      incremental: true,
+      preserveAttachments: true,
+      maxAttachmentBytes: 15,
+    });
+    expect(uploadAttachment).toHaveBeenCalledTimes(1);
+    expect(result.errors).toContainEqual(expect.objectContaining({ code: 'ATTACHMENT_LIMIT_EXCEEDED' }));
+  });
+
+  it('should report per-file download failures and keep going', async () => {
+    vi.spyOn(LarkApiClient.prototype, 'downloadAttachment')
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce({ buffer: Buffer.alloc(10), contentType: 'application/pdf' });
+
+    const service = createTestService();
+    const result = await service.createSnapshot({ ...baseConfig, preserveAttachments: true });
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].code).toBe('ATTACHMENT_COPY_FAILED');
+    expect(result.errors[0].message).toContain('a.pdf');
+    expect(stub.updateRecordField).toHaveBeenCalledWith('tgtApp', 'tgt_tbl1', 'tgt_rec1', {
+      Files: [{ file_token: 'newFile1' }],
+    });
+  });
+});
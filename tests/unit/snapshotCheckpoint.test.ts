@@ -0,0 +1,239 @@
+/**
+ * Snapshot Checkpoint Tests
+ *
+ * @description Tests for checkpointing a snapshot run and resuming it
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryCheckpointStore } from '../../src/services/checkpointStore.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import type { LarkField } from '../../src/types/index.js';
+
+const config = {
+  sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+  targetBaseName: 'Target',
+  grantAdminPermission: false,
+};
+
+describe('SnapshotService checkpoints', () => {
+  let customers: StubTable;
+  let deals: StubTable;
+  let checkpointStore: InMemoryCheckpointStore;
+
+  beforeEach(() => {
+    const fields = [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text' as const, is_primary: true }];
+    customers = {
+      table: { table_id: 'tblCustomers', name: 'Customers', revision: 1 },
+      fields,
+      records: [{ record_id: 'cus1', fields: { Name: 'Acme' } }],
+    };
+    deals = {
+      table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+      fields,
+      records: [
+        { record_id: 'rec1', fields: { Name: 'A' } },
+        { record_id: 'rec2', fields: { Name: 'B' } },
+      ],
+    };
+    checkpointStore = new InMemoryCheckpointStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /** Run a snapshot whose second batch into the Deals table fails */
+  async function runFailingSnapshot() {
+    const stub = stubLarkClient([customers, deals]);
+    stub.createRecords.mockImplementation(async (_appToken, tableId, records, onBatch) => {
+      if (tableId === 'tgt_tblCustomers') {
+        const created = [{ record_id: 'tgt_cus1', fields: {} }];
+        onBatch?.(created);
+        return created;
+      }
+      onBatch?.([{ record_id: 'tgt_rec1', fields: {} }]);
+      throw new Error(`batch_create failed after 1 of ${records.length} records`);
+    });
+
+    return createTestService({ checkpointStore }).createSnapshot(config);
+  }
+
+  it('should delete the checkpoint after a clean run', async () => {
+    stubLarkClient([customers, deals]);
+    const result = await createTestService({ checkpointStore }).createSnapshot(config);
+
+    expect(result.success).toBe(true);
+    expect(result.checkpointId).toBeUndefined();
+  });
+
+  it('should checkpoint created tables and written records', async () => {
+    const result = await runFailingSnapshot();
+
+    expect(result.success).toBe(false);
+    const checkpoint = await checkpointStore.get(result.checkpointId!);
+    expect(checkpoint?.targetBase.app_token).toBe('tgtApp');
+    expect(checkpoint?.tables.tblCustomers).toMatchObject({
+      status: 'completed',
+      recordIdMap: { cus1: 'tgt_cus1' },
+    });
+    expect(checkpoint?.tables.tblDeals).toMatchObject({
+      targetTableId: 'tgt_tblDeals',
+      status: 'created',
+      recordIdMap: { rec1: 'tgt_rec1' },
+    });
+  });
+
+  it('should resume into the same tables without duplicating records', async () => {
+    const failed = await runFailingSnapshot();
+    vi.restoreAllMocks();
+
+    const stub = stubLarkClient([customers, deals]);
+    stub.listFields.mockResolvedValue([{ field_id: 't1', field_name: 'Name', type: 1, ui_type: 'Text' }]);
+    const result = await createTestService({ checkpointStore }).resumeSnapshot(failed.checkpointId!);
+
+    expect(result.success).toBe(true);
+    expect(stub.createBase).not.toHaveBeenCalled();
+    expect(stub.createTable).not.toHaveBeenCalled();
+    expect(stub.createRecords).toHaveBeenCalledTimes(1);
+    expect(stub.createRecords).toHaveBeenCalledWith(
+      'tgtApp',
+      'tgt_tblDeals',
+      [{ fields: { Name: 'B' } }],
+      expect.any(Function)
+    );
+    expect(await checkpointStore.get(failed.checkpointId!)).toBeNull();
+  });
+
+  it('should reject an unknown checkpoint', async () => {
+    stubLarkClient([customers]);
+    await expect(createTestService({ checkpointStore }).resumeSnapshot('missing'))
+      .rejects.toThrow('Checkpoint not found');
+  });
+
+  it('should record the user who started the run', async () => {
+    const stub = stubLarkClient([customers, deals]);
+    stub.createRecords.mockRejectedValue(new Error('batch_create failed'));
+    const result = await createTestService({ checkpointStore, ownerId: 'ou_alice' }).createSnapshot(config);
+
+    expect(result.checkpointId).toBeDefined();
+    expect((await checkpointStore.get(result.checkpointId!))?.ownerId).toBe('ou_alice');
+  });
+
+  it('should drop checkpoints that have not been updated within the TTL', async () => {
+    const store = new InMemoryCheckpointStore({ checkpointTtlMs: 60_000 });
+    const checkpoint = {
+      id: 'old',
+      config,
+      targetBase: { app_token: 'tgtApp', name: 'Target' },
+      dateSuffix: '20240101',
+      defaultTablePending: false,
+      tables: {},
+      createdAt: new Date(Date.now() - 120_000).toISOString(),
+      updatedAt: new Date(Date.now() - 120_000).toISOString(),
+    };
+    await store.save(checkpoint);
+    await store.save({ ...checkpoint, id: 'new', updatedAt: new Date().toISOString() });
+
+    expect(await store.get('old')).toBeNull();
+    expect(await store.get('new')).not.toBeNull();
+  });
+
+  describe('link fields', () => {
+    let projects: StubTable;
+    let tasks: StubTable;
+
+    beforeEach(() => {
+      projects = {
+        table: { table_id: 'tblProjects', name: 'Projects', revision: 1 },
+        fields: [{ field_id: 'p1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+        records: [{ record_id: 'recP1', fields: { Name: 'Alpha' } }],
+      };
+      tasks = {
+        table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+        fields: [
+          { field_id: 't1', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+          {
+            field_id: 't2',
+            field_name: 'Project',
+            type: 18,
+            ui_type: 'SingleLink',
+            property: { table_id: 'tblProjects', multiple: true },
+          },
+        ],
+        records: [
+          {
+            record_id: 'recT1',
+            fields: { Title: 'Write spec', Project: [{ record_id: 'recP1', text: 'Alpha' }] },
+          },
+        ],
+      };
+    });
+
+    /** Target fields of the Tasks table after the first run */
+    function stubTaskFields(stub: ReturnType<typeof stubLarkClient>, project?: LarkField) {
+      const listFields = stub.listFields.getMockImplementation()!;
+      stub.listFields.mockImplementation(async (appToken, tableId) => tableId === 'tgt_tblTasks'
+        ? [
+          { field_id: 'tf1', field_name: 'Title', type: 1, ui_type: 'Text' },
+          { field_id: 'tf2', field_name: '_source_record_id', type: 1, ui_type: 'Text' },
+          ...(project ? [project] : []),
+        ]
+        : listFields(appToken, tableId));
+    }
+
+    it('should retry a link field that could not be created', async () => {
+      const first = stubLarkClient([projects, tasks]);
+      first.createField.mockRejectedValue(new Error('field quota exceeded'));
+      const failed = await createTestService({ checkpointStore }).createSnapshot(config);
+
+      expect(failed.success).toBe(false);
+      expect((await checkpointStore.get(failed.checkpointId!))?.tables.tblTasks.linkFields).toEqual({});
+      vi.restoreAllMocks();
+
+      const stub = stubLarkClient([projects, tasks]);
+      stubTaskFields(stub);
+      const result = await createTestService({ checkpointStore }).resumeSnapshot(failed.checkpointId!);
+
+      expect(result.success).toBe(true);
+      expect(stub.createField).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', expect.objectContaining({
+        field_name: 'Project',
+        type: 18,
+        property: { table_id: 'tgt_tblProjects', multiple: true },
+      }));
+      expect(stub.updateRecords).toHaveBeenCalledWith(
+        'tgtApp',
+        'tgt_tblTasks',
+        [{ record_id: 'tgt_recT1', fields: { Project: ['tgt_recP1'] } }]
+      );
+    });
+
+    it('should leave a link frozen to text when its linked table failed', async () => {
+      const first = stubLarkClient([tasks, projects]);
+      const createTable = first.createTable.getMockImplementation()!;
+      first.createTable.mockImplementation(async (appToken, name, fields) => {
+        if (name.startsWith('Projects')) throw new Error('table quota exceeded');
+        return createTable(appToken, name, fields);
+      });
+      const failed = await createTestService({ checkpointStore }).createSnapshot(config);
+
+      expect(failed.success).toBe(false);
+      expect(first.updateRecords).toHaveBeenCalledWith(
+        'tgtApp',
+        'tgt_tblTasks',
+        [{ record_id: 'tgt_recT1', fields: { Project: 'Alpha' } }]
+      );
+      const checkpoint = await checkpointStore.get(failed.checkpointId!);
+      expect(checkpoint?.tables.tblTasks.linkFields).toEqual({ Project: 'text' });
+      vi.restoreAllMocks();
+
+      const stub = stubLarkClient([projects, tasks]);
+      stubTaskFields(stub, { field_id: 'tf3', field_name: 'Project', type: 1, ui_type: 'Text' });
+      const result = await createTestService({ checkpointStore }).resumeSnapshot(failed.checkpointId!);
+
+      expect(result.success).toBe(true);
+      expect(stub.createTable).toHaveBeenCalledTimes(1);
+      expect(stub.createField).not.toHaveBeenCalled();
+      expect(stub.updateRecords).not.toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', expect.anything());
+    });
+  });
+});
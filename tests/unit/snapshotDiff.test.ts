@@ -0,0 +1,234 @@
+/**
+ * Snapshot Diff Tests
+ *
+ * @description Tests for comparing snapshots by source record ID
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LarkApiClient } from '../../src/services/larkApiClient.js';
+import { SnapshotDiffService, diffTables, formatDiffSummary } from '../../src/services/snapshotDiff.js';
+import { toComparableText } from '../../src/services/cellText.js';
+import { createTestService, stubLarkClient } from './helpers/larkClientStub.js';
+import type { LarkField, LarkRecord, LarkTable } from '../../src/types/index.js';
+
+describe('toComparableText', () => {
+  it('should normalize live and frozen values to the same text', () => {
+    expect(toComparableText([{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'world' }]))
+      .toBe('Hello world');
+    expect(toComparableText([{ record_ids: ['rec1'], text: 'Alpha' }, { record_ids: ['rec2'], text: 'Beta' }]))
+      .toBe('Alpha, Beta');
+    expect(toComparableText([{ id: 'ou_1', name: 'Alice' }])).toBe('Alice');
+    expect(toComparableText(42)).toBe('42');
+    expect(toComparableText('')).toBeNull();
+    expect(toComparableText(false)).toBeNull();
+    expect(toComparableText([])).toBeNull();
+  });
+});
+
+describe('diffTables', () => {
+  it('should list added, removed and modified records', () => {
+    const diff = diffTables(
+      {
+        name: 'Deals_snap_20260101',
+        fieldNames: ['Name', 'Amount', 'Stage', '_source_record_id'],
+        records: [
+          { sourceRecordId: 'rec1', fields: { Name: 'A', Amount: 100, Stage: 'Lead' } },
+          { sourceRecordId: 'rec2', fields: { Name: 'B', Amount: 200 } },
+        ],
+      },
+      {
+        name: 'Deals_snap_20260201',
+        fieldNames: ['Name', 'Amount', 'Owner', '_source_record_id'],
+        records: [
+          { sourceRecordId: 'rec1', fields: { Name: 'A', Amount: 150, Owner: 'Alice' } },
+          { sourceRecordId: 'rec3', fields: { Name: 'C', Amount: 300 } },
+        ],
+      }
+    );
+
+    expect(diff.tableName).toBe('Deals');
+    expect(diff.status).toBe('compared');
+    expect(diff.added).toEqual([
+      { sourceRecordId: 'rec3', fields: { Name: 'C', Amount: '300', Owner: null } },
+    ]);
+    expect(diff.removed.map((r) => r.sourceRecordId)).toEqual(['rec2']);
+    expect(diff.modified).toEqual([
+      { sourceRecordId: 'rec1', changes: [{ field: 'Amount', before: '100', after: '150' }] },
+    ]);
+    expect(diff.fieldsAdded).toEqual(['Owner']);
+    expect(diff.fieldsRemoved).toEqual(['Stage']);
+  });
+});
+
+describe('SnapshotDiffService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const stubBases = (bases: Record<string, { table: LarkTable; fields: LarkField[]; records: LarkRecord[] }>) => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(LarkApiClient.prototype, 'resolveBaseAppToken').mockImplementation(
+      async (url) => url.match(/\/base\/([a-zA-Z0-9]+)/)![1]
+    );
+    vi.spyOn(LarkApiClient.prototype, 'getBase').mockImplementation(async (appToken) => ({
+      app_token: appToken,
+      name: appToken,
+      time_zone: 'Asia/Tokyo',
+    }));
+    vi.spyOn(LarkApiClient.prototype, 'listTablesWithFallback').mockImplementation(
+      async (appToken) => [bases[appToken].table]
+    );
+    vi.spyOn(LarkApiClient.prototype, 'listFieldsWithFallback').mockImplementation(
+      async (appToken) => bases[appToken].fields
+    );
+    vi.spyOn(LarkApiClient.prototype, 'listRecords').mockImplementation(
+      async (appToken) => bases[appToken].records
+    );
+  };
+
+  it('should match snapshot records to the live source by source record ID', async () => {
+    stubBases({
+      snapApp: {
+        table: { table_id: 'tblSnap', name: 'Deals_snap_20260101', revision: 1 },
+        fields: [
+          { field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text' },
+          { field_id: 'f2', field_name: '_source_record_id', type: 1, ui_type: 'Text' },
+        ],
+        records: [
+          { record_id: 'tgt_rec1', fields: { Name: 'Old name', _source_record_id: 'rec1' } },
+          { record_id: 'tgt_rec2', fields: { Name: 'Gone', _source_record_id: 'rec2' } },
+        ],
+      },
+      srcApp: {
+        table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+        fields: [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text' }],
+        records: [
+          { record_id: 'rec1', fields: { Name: [{ type: 'text', text: 'New name' }] } as unknown as LarkRecord['fields'] },
+        ],
+      },
+    });
+
+    const service = new SnapshotDiffService({ appId: 'id', appSecret: 'secret' });
+    const diff = await service.diff(
+      'https://xxx.larksuite.com/base/snapApp',
+      'https://xxx.larksuite.com/base/srcApp'
+    );
+
+    expect(diff.summary).toEqual({
+      tablesCompared: 1,
+      recordsAdded: 0,
+      recordsRemoved: 1,
+      recordsModified: 1,
+    });
+    expect(diff.tables[0].modified[0]).toEqual({
+      sourceRecordId: 'rec1',
+      changes: [{ field: 'Name', before: 'Old name', after: 'New name' }],
+    });
+
+    const summary = formatDiffSummary(diff);
+    expect(summary).toContain('[Deals] +0 -1 ~1');
+    expect(summary).toContain('Name: Old name -> New name');
+  });
+
+  it('should compare values frozen to formatted text with the unchanged live values', async () => {
+    // 2024-04-01 in Tokyo
+    const closeDate = Date.UTC(2024, 2, 31, 15, 0);
+    stubBases({
+      snapApp: {
+        table: { table_id: 'tblSnap', name: 'Deals_snap_20240401', revision: 1 },
+        fields: [
+          { field_id: 'f1', field_name: 'Amount', type: 1, ui_type: 'Text' },
+          { field_id: 'f2', field_name: 'Close', type: 1, ui_type: 'Text' },
+          { field_id: 'f3', field_name: '_source_record_id', type: 1, ui_type: 'Text' },
+        ],
+        records: [
+          { record_id: 'tgt_rec1', fields: { Amount: '¥1,200', Close: '2024/04/01', _source_record_id: 'rec1' } },
+          { record_id: 'tgt_rec2', fields: { Amount: '¥500', Close: '2024/04/01', _source_record_id: 'rec2' } },
+        ],
+      },
+      srcApp: {
+        table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+        fields: [
+          {
+            field_id: 'f1',
+            field_name: 'Amount',
+            type: 20,
+            ui_type: 'Formula',
+            property: { type: { data_type: 2, ui_type: 'Currency', ui_property: { currency_code: 'JPY', formatter: '0' } } },
+          },
+          { field_id: 'f2', field_name: 'Close', type: 5, ui_type: 'DateTime', property: { date_formatter: 'yyyy/MM/dd' } },
+        ],
+        records: [
+          { record_id: 'rec1', fields: { Amount: { type: 2, value: [1200] }, Close: closeDate } as never },
+          { record_id: 'rec2', fields: { Amount: { type: 2, value: [800] }, Close: closeDate } as never },
+        ],
+      },
+    });
+
+    const service = new SnapshotDiffService({ appId: 'id', appSecret: 'secret' });
+    const diff = await service.diff(
+      'https://xxx.larksuite.com/base/snapApp',
+      'https://xxx.larksuite.com/base/srcApp'
+    );
+
+    expect(diff.tables[0].modified).toEqual([
+      { sourceRecordId: 'rec2', changes: [{ field: 'Amount', before: '¥500', after: '800' }] },
+    ]);
+  });
+
+  it('should report a table whose records cannot be read', async () => {
+    const table = { table_id: 'tblDeals', name: 'Deals', revision: 1 };
+    const fields: LarkField[] = [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text' }];
+    stubBases({
+      snapApp: { table, fields, records: [{ record_id: 'rec1', fields: { Name: 'A' } }] },
+      srcApp: { table, fields, records: [] },
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(LarkApiClient.prototype.listRecords).mockImplementation(async (appToken) => {
+      if (appToken === 'srcApp') throw new Error('1254302 permission denied');
+      return [{ record_id: 'rec1', fields: { Name: 'A' } }];
+    });
+
+    const service = new SnapshotDiffService({ appId: 'id', appSecret: 'secret' });
+    const diff = await service.diff(
+      'https://xxx.larksuite.com/base/snapApp',
+      'https://xxx.larksuite.com/base/srcApp'
+    );
+
+    expect(diff.tables[0]).toMatchObject({
+      tableName: 'Deals',
+      status: 'error',
+      error: 'Failed to read records of srcApp / Deals: 1254302 permission denied',
+      removed: [],
+    });
+    expect(diff.summary).toMatchObject({ tablesCompared: 0, recordsRemoved: 0 });
+    expect(formatDiffSummary(diff)).toContain('[Deals] could not be compared: Failed to read records');
+  });
+});
+
+describe('SnapshotService source record ID', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should store the source record ID in every snapshot record', async () => {
+    const stub = stubLarkClient([
+      {
+        table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+        fields: [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+        records: [{ record_id: 'rec1', fields: { Name: 'A' } }],
+      },
+    ]);
+
+    const service = createTestService();
+    await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(stub.createRecords.mock.calls[0][2]).toEqual([
+      { fields: { Name: 'A', _source_record_id: 'rec1' } },
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Snapshot Export Tests
+ *
+ * @description Tests for converting a source Base to local export files
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import { bundleExportFiles, getExportName, renderSnapshotExport } from '../../src/services/snapshotExport.js';
+import { crc32, createZip } from '../../src/services/zipWriter.js';
+import { createTestService, stubLarkClient } from './helpers/larkClientStub.js';
+
+describe('SnapshotService.captureSnapshot', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should freeze dynamic values without writing to Lark', async () => {
+    const stub = stubLarkClient([
+      {
+        table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+        fields: [
+          { field_id: 'f1', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+          { field_id: 'f2', field_name: 'Owner', type: 11, ui_type: 'User' },
+          { field_id: 'f3', field_name: 'Project', type: 18, ui_type: 'SingleLink', property: { table_id: 'tblTasks' } },
+        ],
+        records: [
+          {
+            record_id: 'rec1',
+            fields: {
+              Title: 'Write spec',
+              Owner: [{ id: 'ou_1', name: 'Alice' }],
+              Project: [{ record_id: '', record_ids: ['rec9'], text: 'Alpha' }],
+            },
+          },
+        ],
+      },
+    ]);
+
+    const service = createTestService();
+    const snapshot = await service.captureSnapshot({ sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp' });
+
+    expect(stub.createBase).not.toHaveBeenCalled();
+    expect(stub.createTable).not.toHaveBeenCalled();
+    expect(snapshot.sourceBase.name).toBe('Source');
+    expect(snapshot.tables[0].fields.map((f) => f.ui_type)).toEqual(['Text', 'Text', 'Text']);
+    expect(snapshot.tables[0].records).toEqual([
+      { sourceRecordId: 'rec1', fields: { Title: 'Write spec', Owner: 'Alice', Project: 'Alpha' } },
+    ]);
+
+    const files = await renderSnapshotExport(snapshot, 'csv');
+    expect(files.map((f) => f.name)).toEqual(['Tasks.csv']);
+    expect(getExportName(snapshot.sourceBase.name, new Date(2026, 2, 4).toISOString()))
+      .toBe('Source_snap_20260304');
+  });
+});
+
+describe('export bundles', () => {
+  it('should compute CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('hello'))).toBe(0x3610a686);
+  });
+
+  it('should zip several files and pass a single file through', () => {
+    const a = { name: '売上.csv', contentType: 'text/csv', data: Buffer.from('a,b\r\n') };
+    const b = { name: 'b.csv', contentType: 'text/csv', data: Buffer.from('c\r\n') };
+
+    expect(bundleExportFiles([a], 'Export')).toBe(a);
+
+    const zip = bundleExportFiles([a, b], 'Export');
+    expect(zip.name).toBe('Export.zip');
+    expect(zip.data.readUInt32LE(0)).toBe(0x04034b50);
+
+    // First entry: local header (30 bytes) + UTF-8 name + deflated data
+    const nameLength = zip.data.readUInt16LE(26);
+    const compressedSize = zip.data.readUInt32LE(18);
+    expect(zip.data.subarray(30, 30 + nameLength).toString('utf-8')).toBe('売上.csv');
+    const data = inflateRawSync(zip.data.subarray(30 + nameLength, 30 + nameLength + compressedSize));
+    expect(data.toString()).toBe('a,b\r\n');
+
+    // End of central directory lists both entries
+    const end = createZip([a, b]).subarray(-22);
+    expect(end.readUInt32LE(0)).toBe(0x06054b50);
+    expect(end.readUInt16LE(10)).toBe(2);
+  });
+});
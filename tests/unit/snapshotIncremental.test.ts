@@ -0,0 +1,136 @@
+/**
+ * Incremental Snapshot Tests
+ *
+ * @description Tests for copying only records changed since the previous run
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemorySnapshotStateStore } from '../../src/services/snapshotStateStore.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+
+const config = {
+  sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+  targetBaseName: 'Deals Archive',
+  grantAdminPermission: false,
+  incremental: true,
+};
+
+describe('SnapshotService incremental mode', () => {
+  let deals: StubTable;
+  let stateStore: InMemorySnapshotStateStore;
+
+  beforeEach(() => {
+    deals = {
+      table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+      fields: [
+        { field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+        { field_id: 'f2', field_name: 'Amount', type: 2, ui_type: 'Number' },
+      ],
+      records: [
+        { record_id: 'rec1', fields: { Name: 'A', Amount: 100 } },
+        { record_id: 'rec2', fields: { Name: 'B', Amount: 200 } },
+      ],
+    };
+    stateStore = new InMemorySnapshotStateStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should save the record map and watermark after the first run', async () => {
+    stubLarkClient([deals]);
+    const service = createTestService({ stateStore });
+    const result = await service.createSnapshot(config);
+
+    expect(result.success).toBe(true);
+    expect(result.incremental).toBeUndefined();
+
+    const state = await stateStore.get('srcApp:Deals Archive');
+    expect(state?.targetBase.app_token).toBe('tgtApp');
+    expect(state?.tables.tblDeals.recordIdMap).toEqual({ rec1: 'tgt_rec1', rec2: 'tgt_rec2' });
+    expect(state?.tables.tblDeals.watermark).toBe(Date.parse(result.createdAt));
+  });
+
+  it('should upsert changed records and record deletions on the next run', async () => {
+    await stateStore.save({
+      key: 'srcApp:Deals Archive',
+      sourceAppToken: 'srcApp',
+      targetBase: { app_token: 'tgtApp', name: 'Deals Archive' },
+      tables: {
+        tblDeals: {
+          sourceTableId: 'tblDeals',
+          targetTableId: 'tgt_tblDeals',
+          tableName: 'Deals_snap_20260101',
+          watermark: 1000,
+          recordIdMap: { rec1: 'tgt_rec1', rec2: 'tgt_rec2' },
+          deletedRecordIds: [],
+        },
+      },
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    deals.records = [
+      { record_id: 'rec1', fields: { Name: 'A', Amount: 100 }, last_modified_time: 500 },
+      { record_id: 'rec3', fields: { Name: 'C', Amount: 300 }, last_modified_time: 2000 },
+      { record_id: 'rec2', fields: { Name: 'B' }, last_modified_time: 1500 },
+    ];
+    const stub = stubLarkClient([deals]);
+    stub.listFields.mockResolvedValue([
+      { field_id: 't1', field_name: 'Name', type: 1, ui_type: 'Text' },
+      { field_id: 't2', field_name: 'Amount', type: 2, ui_type: 'Number' },
+    ]);
+    stub.createRecords.mockImplementation(async (_appToken, _tableId, _records, onBatch) => {
+      const created = [{ record_id: 'tgt_rec3', fields: {} }];
+      onBatch?.(created);
+      return created;
+    });
+
+    const service = createTestService({ stateStore });
+    const result = await service.createSnapshot({ ...config });
+
+    expect(result.success).toBe(true);
+    expect(stub.createBase).not.toHaveBeenCalled();
+    expect(stub.createTable).not.toHaveBeenCalled();
+    expect(stub.listRecords).toHaveBeenCalledWith('srcApp', 'tblDeals', expect.objectContaining({ automaticFields: true }));
+    expect(stub.createRecords).toHaveBeenCalledWith('tgtApp', 'tgt_tblDeals', [
+      { fields: { Name: 'C', Amount: 300 } },
+    ], expect.any(Function));
+    expect(stub.updateRecords).toHaveBeenCalledWith('tgtApp', 'tgt_tblDeals', [
+      { record_id: 'tgt_rec2', fields: { Name: 'B', Amount: null } },
+    ], expect.any(Function));
+    expect(result.incremental).toEqual({ created: 1, updated: 1, deleted: 0 });
+
+    const state = await stateStore.get('srcApp:Deals Archive');
+    expect(state?.tables.tblDeals.recordIdMap.rec3).toBe('tgt_rec3');
+  });
+
+  it('should record source records that were deleted', async () => {
+    await stateStore.save({
+      key: 'srcApp:Deals Archive',
+      sourceAppToken: 'srcApp',
+      targetBase: { app_token: 'tgtApp', name: 'Deals Archive' },
+      tables: {
+        tblDeals: {
+          sourceTableId: 'tblDeals',
+          targetTableId: 'tgt_tblDeals',
+          tableName: 'Deals_snap_20260101',
+          watermark: Date.now() + 60000,
+          recordIdMap: { rec1: 'tgt_rec1', rec2: 'tgt_rec2', rec9: 'tgt_rec9' },
+          deletedRecordIds: [],
+        },
+      },
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+    deals.records = deals.records.map((r) => ({ ...r, last_modified_time: 1 }));
+    const stub = stubLarkClient([deals]);
+
+    const service = createTestService({ stateStore });
+    const result = await service.createSnapshot(config);
+
+    expect(stub.createRecords).not.toHaveBeenCalled();
+    expect(result.incremental).toEqual({ created: 0, updated: 0, deleted: 1 });
+    const state = await stateStore.get('srcApp:Deals Archive');
+    expect(state?.tables.tblDeals.deletedRecordIds).toEqual(['rec9']);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Snapshot Job Runner Tests
+ *
+ * @description Tests for running snapshots as background jobs
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SnapshotJobRunner } from '../../src/services/snapshotJobRunner.js';
+import { SnapshotService } from '../../src/services/snapshotService.js';
+import { InMemoryJobStore } from '../../src/services/jobStore.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+
+const config = {
+  sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+  targetBaseName: 'Target',
+  grantAdminPermission: false,
+};
+
+describe('SnapshotJobRunner', () => {
+  let deals: StubTable;
+  let store: InMemoryJobStore;
+  let runner: SnapshotJobRunner;
+
+  beforeEach(() => {
+    deals = {
+      table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+      fields: [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+      records: [
+        { record_id: 'rec1', fields: { Name: 'A' } },
+        { record_id: 'rec2', fields: { Name: 'B' } },
+      ],
+    };
+    store = new InMemoryJobStore();
+    runner = new SnapshotJobRunner(store);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should return a queued job before the snapshot runs', async () => {
+    stubLarkClient([deals]);
+    const service = createTestService();
+
+    const job = await runner.start(service, (s) => s.createSnapshot(config), 'user1');
+
+    expect(job.state).toBe('queued');
+    expect(job.ownerId).toBe('user1');
+    await runner.waitForJob(job.id);
+  });
+
+  it('should record progress and the final result', async () => {
+    stubLarkClient([deals]);
+    const service = createTestService();
+
+    const job = await runner.start(service, (s) => s.createSnapshot(config));
+    const finished = await runner.waitForJob(job.id);
+
+    expect(finished?.state).toBe('completed');
+    expect(finished?.recordsWritten).toBe(2);
+    expect(finished?.currentTable).toBeUndefined();
+    expect(finished?.result?.recordsProcessed).toBe(2);
+    expect(await store.get(job.id)).toEqual(finished);
+  });
+
+  it('should stream progress events to subscribers', async () => {
+    stubLarkClient([deals]);
+    const service = createTestService();
+
+    const job = await runner.start(service, (s) => s.createSnapshot(config));
+    const types: string[] = [];
+    runner.subscribe(job.id, (event) => types.push(event.type));
+    await runner.waitForJob(job.id);
+
+    expect(types).toEqual([
+      'table_started',
+      'fields_converted',
+      'batch_written',
+      'table_finished',
+      'job_finished',
+    ]);
+    expect(runner.subscribe(job.id, () => {})).toBeNull();
+  });
+
+  it('should mark the job failed when the snapshot fails', async () => {
+    const stub = stubLarkClient([deals]);
+    stub.createBase.mockRejectedValue(new Error('quota exceeded'));
+    const service = createTestService();
+
+    const job = await runner.start(service, (s) => s.createSnapshot(config));
+    const finished = await runner.waitForJob(job.id);
+
+    expect(finished?.state).toBe('failed');
+    expect(finished?.errors[0].message).toBe('quota exceeded');
+  });
+
+  it('should keep the table errors of a snapshot that was aborted', async () => {
+    const stub = stubLarkClient([deals]);
+    stub.listRecordsWithFallback.mockRejectedValue(new Error('read failed'));
+    // Abort the run after the tables were processed
+    vi.spyOn(SnapshotService.prototype as unknown as { rebuildLinks: () => Promise<void> }, 'rebuildLinks')
+      .mockRejectedValue(new Error('connection reset'));
+    const service = createTestService();
+
+    const job = await runner.start(service, (s) => s.createSnapshot(config));
+    const finished = await runner.waitForJob(job.id);
+
+    expect(finished?.state).toBe('failed');
+    expect(finished?.errors.map((e) => e.message)).toEqual([
+      'Failed to process table: read failed',
+      'connection reset',
+    ]);
+  });
+});
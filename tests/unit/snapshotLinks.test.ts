@@ -0,0 +1,117 @@
+/**
+ * Link Rebuild Tests
+ *
+ * @description Tests for recreating link fields between snapshotted tables
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+
+const projects: StubTable = {
+  table: { table_id: 'tblProjects', name: 'Projects', revision: 1 },
+  fields: [
+    { field_id: 'p1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+  ],
+  records: [
+    { record_id: 'recP1', fields: { Name: 'Alpha' } },
+    { record_id: 'recP2', fields: { Name: 'Beta' } },
+  ],
+};
+
+const tasks: StubTable = {
+  table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+  fields: [
+    { field_id: 't1', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+    {
+      field_id: 't2',
+      field_name: 'Project',
+      type: 18,
+      ui_type: 'SingleLink',
+      property: { table_id: 'tblProjects', multiple: true },
+    },
+    {
+      field_id: 't3',
+      field_name: 'Owner Team',
+      type: 21,
+      ui_type: 'DuplexLink',
+      property: { table_id: 'tblTeams', back_field_id: 'x' },
+    },
+  ],
+  records: [
+    {
+      record_id: 'recT1',
+      fields: {
+        Title: 'Write spec',
+        Project: [{ record_id: '', record_ids: ['recP1', 'recP2'], text: 'Alpha, Beta' }],
+        'Owner Team': [{ record_id: 'recTeam1', text: 'Platform' }],
+      },
+    },
+    { record_id: 'recT2', fields: { Title: 'Unlinked' } },
+  ],
+};
+
+describe('SnapshotService link rebuild', () => {
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([projects, tasks]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should recreate links between snapshot tables using target record IDs', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(result.success).toBe(true);
+
+    // The link field is not part of the initial table definition
+    const taskFields = stub.createTable.mock.calls[1][2];
+    expect(taskFields.map((f) => f.field_name)).toEqual(['Title', 'Owner Team', '_source_record_id']);
+
+    expect(stub.createField).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', {
+      field_name: 'Project',
+      type: 18,
+      ui_type: 'SingleLink',
+      property: { table_id: 'tgt_tblProjects', multiple: true },
+    });
+    expect(stub.updateRecords).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', [
+      { record_id: 'tgt_recT1', fields: { Project: ['tgt_recP1', 'tgt_recP2'] } },
+    ]);
+  });
+
+  it('should freeze links to tables outside the snapshot as text', async () => {
+    const service = createTestService();
+    await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    const taskFields = stub.createTable.mock.calls[1][2];
+    expect(taskFields.find((f) => f.field_name === 'Owner Team')?.type).toBe(1);
+    const taskRecords = stub.createRecords.mock.calls[1][2];
+    expect(taskRecords[0].fields['Owner Team']).toBe('Platform');
+  });
+
+  it('should fall back to text when the linked table is not selected', async () => {
+    const service = createTestService();
+    stub = stubLarkClient([tasks]);
+    await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+      selectedTableIds: ['tblTasks'],
+    });
+
+    const taskFields = stub.createTable.mock.calls[0][2];
+    expect(taskFields.find((f) => f.field_name === 'Project')?.type).toBe(1);
+    expect(stub.createField).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Archive Rehydrate Tests
+ *
+ * @description Tests for creating a new Base from a snapshot archive
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import { createArchive } from '../../src/services/snapshotArchive.js';
+import type { SnapshotArchive } from '../../src/types/index.js';
+
+const projects: StubTable = {
+  table: { table_id: 'tblProjects', name: 'Projects', revision: 1 },
+  fields: [
+    { field_id: 'p1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+    { field_id: 'p2', field_name: 'Budget', type: 2, ui_type: 'Currency' },
+  ],
+  records: [
+    { record_id: 'recP1', fields: { Name: 'Alpha', Budget: 100 } },
+    { record_id: 'recP2', fields: { Name: 'Beta', Budget: 250 } },
+  ],
+};
+
+const tasks: StubTable = {
+  table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+  fields: [
+    { field_id: 't1', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+    {
+      field_id: 't2',
+      field_name: 'Project',
+      type: 18,
+      ui_type: 'SingleLink',
+      property: { table_id: 'tblProjects', multiple: true },
+    },
+  ],
+  records: [
+    {
+      record_id: 'recT1',
+      fields: {
+        Title: 'Write spec',
+        Project: [{ record_id: '', record_ids: ['recP1', 'recP2'], text: 'Alpha, Beta' }],
+      },
+    },
+  ],
+};
+
+function buildArchive(): SnapshotArchive {
+  return createArchive(
+    { app_token: 'srcApp', name: 'Source' },
+    'srcApp',
+    '2026-01-01T00:00:00.000Z',
+    [projects, tasks]
+  );
+}
+
+describe('SnapshotService.rehydrateArchive', () => {
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([projects, tasks]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create a new Base with the archived tables and records', async () => {
+    const service = createTestService();
+    const result = await service.rehydrateArchive(buildArchive(), { targetBaseName: 'Restored' });
+
+    expect(result.success).toBe(true);
+    expect(result.sourceBase.name).toBe('Source');
+    expect(result.tablesProcessed).toBe(2);
+    expect(result.recordsProcessed).toBe(3);
+    expect(stub.createBase).toHaveBeenCalledWith('Restored');
+    expect(stub.createTable.mock.calls.map((c) => c[1])).toEqual(['Projects', 'Tasks']);
+
+    // Same static type downgrades as a live snapshot
+    const projectFields = stub.createTable.mock.calls[0][2];
+    expect(projectFields.map((f) => f.field_name)).toEqual(['Name', 'Budget', '_source_record_id']);
+    expect(projectFields.find((f) => f.field_name === 'Budget')?.type).toBe(2);
+
+    const projectRecords = stub.createRecords.mock.calls[0][2];
+    expect(projectRecords[0].fields).toEqual({ Name: 'Alpha', Budget: 100, _source_record_id: 'recP1' });
+  });
+
+  it('should rebuild links between archived tables', async () => {
+    const service = createTestService();
+    await service.rehydrateArchive(buildArchive(), { targetBaseName: 'Restored' });
+
+    expect(stub.createField).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', {
+      field_name: 'Project',
+      type: 18,
+      ui_type: 'SingleLink',
+      property: { table_id: 'tgt_tblProjects', multiple: true },
+    });
+    expect(stub.updateRecords).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', [
+      { record_id: 'tgt_recT1', fields: { Project: ['tgt_recP1', 'tgt_recP2'] } },
+    ]);
+  });
+
+  it('should freeze links as text when rebuildLinks is false', async () => {
+    const service = createTestService();
+    await service.rehydrateArchive(buildArchive(), { targetBaseName: 'Restored', rebuildLinks: false });
+
+    const taskFields = stub.createTable.mock.calls[1][2];
+    expect(taskFields.find((f) => f.field_name === 'Project')?.type).toBe(1);
+    expect(stub.createRecords.mock.calls[1][2][0].fields.Project).toBe('Alpha, Beta');
+    expect(stub.createField).not.toHaveBeenCalled();
+  });
+
+  it('should keep the source record IDs of an archived snapshot Base', async () => {
+    const snapshotTable: StubTable = {
+      table: { table_id: 'tblSnap', name: 'Snapshot', revision: 1 },
+      fields: [
+        { field_id: 's1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+        { field_id: 's2', field_name: '_source_record_id', type: 1, ui_type: 'Text' },
+      ],
+      records: [{ record_id: 'recS1', fields: { Name: 'Alpha', _source_record_id: 'recOriginal' } }],
+    };
+    stub = stubLarkClient([snapshotTable]);
+    const archive = createArchive(
+      { app_token: 'snapApp', name: 'Snapshot' },
+      'snapApp',
+      '2026-01-01T00:00:00.000Z',
+      [snapshotTable]
+    );
+    const service = createTestService();
+    const result = await service.rehydrateArchive(archive, { targetBaseName: 'Restored' });
+
+    expect(result.success).toBe(true);
+    const fieldNames = stub.createTable.mock.calls[0][2].map((f) => f.field_name);
+    expect(fieldNames).toEqual(['Name', '_source_record_id']);
+    expect(stub.createRecords.mock.calls[0][2][0].fields).toEqual({
+      Name: 'Alpha',
+      _source_record_id: 'recOriginal',
+    });
+  });
+
+  it('should return a failed result when the Base cannot be created', async () => {
+    stub.createBase.mockRejectedValueOnce(new Error('quota exceeded'));
+    const service = createTestService();
+    const result = await service.rehydrateArchive(buildArchive(), { targetBaseName: 'Restored' });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([{ message: 'quota exceeded' }]);
+    expect(stub.createTable).not.toHaveBeenCalled();
+  });
+});
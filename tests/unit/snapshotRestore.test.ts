@@ -0,0 +1,197 @@
+/**
+ * Snapshot Restore Tests
+ *
+ * @description Tests for writing snapshot values back to the source table
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LarkApiClient } from '../../src/services/larkApiClient.js';
+import {
+  SnapshotRestoreService,
+  getRestoreSkipReason,
+  toRestoreValue,
+} from '../../src/services/snapshotRestore.js';
+import type { LarkField, LarkRecord, LarkTable } from '../../src/types/index.js';
+
+const sourceFields: LarkField[] = [
+  { field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+  { field_id: 'f2', field_name: 'Amount', type: 2, ui_type: 'Number' },
+  { field_id: 'f3', field_name: 'Total', type: 20, ui_type: 'Formula' },
+  { field_id: 'f4', field_name: 'Updated', type: 1002, ui_type: 'ModifiedTime' },
+];
+
+function stubBases(snapshot: { table: LarkTable; fields: LarkField[]; records: LarkRecord[] }) {
+  const source = {
+    table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+    fields: sourceFields,
+    records: [
+      { record_id: 'rec1', fields: { Name: 'A', Amount: 999, Total: 999, Updated: 1 } },
+      { record_id: 'rec2', fields: { Name: 'B', Amount: 200, Total: 200, Updated: 1 } },
+    ] as LarkRecord[],
+  };
+  const bases: Record<string, typeof source> = { snapApp: snapshot, srcApp: source };
+
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(LarkApiClient.prototype, 'resolveBaseAppToken').mockImplementation(
+    async (url) => url.match(/\/base\/([a-zA-Z0-9]+)/)![1]
+  );
+  vi.spyOn(LarkApiClient.prototype, 'getBase').mockImplementation(async (appToken) => ({
+    app_token: appToken,
+    name: appToken,
+  }));
+  vi.spyOn(LarkApiClient.prototype, 'listTablesWithFallback').mockImplementation(
+    async (appToken) => [bases[appToken].table]
+  );
+  vi.spyOn(LarkApiClient.prototype, 'listFieldsWithFallback').mockImplementation(
+    async (appToken) => bases[appToken].fields
+  );
+  vi.spyOn(LarkApiClient.prototype, 'listRecords').mockImplementation(
+    async (appToken) => bases[appToken].records
+  );
+  return vi.spyOn(LarkApiClient.prototype, 'updateRecords').mockResolvedValue([]);
+}
+
+const snapshotTable = { table_id: 'tblSnap', name: 'Deals_snap_20260101', revision: 1 };
+const snapshotFields: LarkField[] = [
+  { field_id: 's1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+  { field_id: 's2', field_name: 'Amount', type: 2, ui_type: 'Number' },
+  { field_id: 's3', field_name: 'Total', type: 2, ui_type: 'Number' },
+  { field_id: 's4', field_name: 'Updated', type: 5, ui_type: 'DateTime' },
+];
+
+const options = {
+  snapshotUrl: 'https://xxx.larksuite.com/base/snapApp',
+  sourceUrl: 'https://xxx.larksuite.com/base/srcApp',
+};
+
+describe('SnapshotRestoreService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should preview overwrites by source record ID without writing', async () => {
+    const updateRecords = stubBases({
+      table: snapshotTable,
+      fields: [...snapshotFields, { field_id: 's5', field_name: '_source_record_id', type: 1, ui_type: 'Text' }],
+      records: [
+        { record_id: 'tgt_rec1', fields: { Name: 'A', Amount: 100, Total: 100, Updated: 0, _source_record_id: 'rec1' } },
+        { record_id: 'tgt_rec9', fields: { Name: 'Z', Amount: 1, _source_record_id: 'rec9' } },
+      ],
+    });
+
+    const service = new SnapshotRestoreService({ appId: 'id', appSecret: 'secret' });
+    const result = await service.restore({ ...options, dryRun: true });
+
+    expect(updateRecords).not.toHaveBeenCalled();
+    expect(result.tables[0].matchedBy).toBe('source_record_id');
+    expect(result.tables[0].changes).toEqual([
+      { sourceRecordId: 'rec1', changes: [{ field: 'Amount', before: '999', after: '100' }] },
+    ]);
+    expect(result.tables[0].skippedFields).toEqual([
+      { field: 'Total', reason: 'computed field' },
+      { field: 'Updated', reason: 'system field' },
+    ]);
+    expect(result.tables[0].unmatchedRecords).toEqual(['tgt_rec9']);
+    expect(result.recordsUpdated).toBe(0);
+  });
+
+  it('should fall back to the primary field and write changed values', async () => {
+    const updateRecords = stubBases({
+      table: snapshotTable,
+      fields: snapshotFields,
+      records: [
+        { record_id: 'tgt_1', fields: { Name: 'A', Amount: 100 } },
+        { record_id: 'tgt_2', fields: { Name: 'B', Amount: 200 } },
+      ],
+    });
+
+    const service = new SnapshotRestoreService({ appId: 'id', appSecret: 'secret' });
+    const result = await service.restore({ ...options, fields: ['Amount'], dryRun: false });
+
+    expect(result.tables[0].matchedBy).toBe('primary_field');
+    expect(updateRecords).toHaveBeenCalledWith('srcApp', 'tblDeals', [
+      { record_id: 'rec1', fields: { Amount: 100 } },
+    ]);
+    expect(result.recordsUpdated).toBe(1);
+  });
+
+  it('should not match primary field values shared by several source records', async () => {
+    stubBases({
+      table: snapshotTable,
+      fields: snapshotFields,
+      records: [{ record_id: 'tgt_1', fields: { Name: 'A', Amount: 100 } }],
+    });
+    vi.mocked(LarkApiClient.prototype.listRecords).mockImplementation(async (appToken) =>
+      appToken === 'srcApp'
+        ? [
+            { record_id: 'rec1', fields: { Name: 'A', Amount: 1 } },
+            { record_id: 'rec2', fields: { Name: 'A', Amount: 2 } },
+          ]
+        : [{ record_id: 'tgt_1', fields: { Name: 'A', Amount: 100 } }]
+    );
+
+    const service = new SnapshotRestoreService({ appId: 'id', appSecret: 'secret' });
+    const result = await service.restore({ ...options, dryRun: true });
+
+    expect(result.tables[0].changes).toEqual([]);
+    expect(result.tables[0].unmatchedRecords).toEqual(['tgt_1']);
+    expect(result.errors[0].message).toContain('not unique');
+  });
+
+  it('should not restore a table whose records cannot be read', async () => {
+    const updateRecords = stubBases({ table: snapshotTable, fields: snapshotFields, records: [] });
+    vi.mocked(LarkApiClient.prototype.listRecords).mockRejectedValue(new Error('1254302 permission denied'));
+
+    const service = new SnapshotRestoreService({ appId: 'id', appSecret: 'secret' });
+    const result = await service.restore({ ...options, dryRun: false });
+
+    expect(result.tables).toEqual([]);
+    expect(result.errors).toEqual([{ table: 'Deals', message: '1254302 permission denied' }]);
+    expect(updateRecords).not.toHaveBeenCalled();
+  });
+
+  it('should skip values that cannot be read back instead of clearing the source', async () => {
+    const updateRecords = stubBases({
+      table: snapshotTable,
+      fields: [snapshotFields[0], { field_id: 's2', field_name: 'Amount', type: 1, ui_type: 'Text' }],
+      records: [
+        { record_id: 'tgt_1', fields: { Name: 'A', Amount: '1,500' } },
+        { record_id: 'tgt_2', fields: { Name: 'B', Amount: 'about 200' } },
+      ],
+    });
+
+    const service = new SnapshotRestoreService({ appId: 'id', appSecret: 'secret' });
+    const result = await service.restore({ ...options, fields: ['Amount'], dryRun: false });
+
+    expect(updateRecords).toHaveBeenCalledWith('srcApp', 'tblDeals', [
+      { record_id: 'rec1', fields: { Amount: 1500 } },
+    ]);
+    expect(result.errors).toEqual([{
+      table: 'Deals',
+      record: 'rec2',
+      field: 'Amount',
+      message: 'Snapshot value "about 200" cannot be converted to Number, the field is not restored',
+    }]);
+  });
+
+  it('should read numbers and dates frozen with the source field format', () => {
+    const field = (ui_type: LarkField['ui_type'], property?: LarkField['property']): LarkField =>
+      ({ field_id: 'x', field_name: 'X', type: 2, ui_type, property });
+
+    expect(toRestoreValue(field('Currency', { currency_code: 'JPY' }), '¥1,000')).toBe(1000);
+    expect(toRestoreValue(field('Currency', { currency_code: 'USD' }), '-$3.50')).toBe(-3.5);
+    expect(toRestoreValue(field('Progress', { formatter: '0%' }), '50%')).toBe(0.5);
+    expect(toRestoreValue(field('DateTime', { date_formatter: 'yyyy/MM/dd HH:mm' }), '2024/01/05 09:30'))
+      .toBe(new Date(2024, 0, 5, 9, 30).getTime());
+    expect(toRestoreValue(field('DateTime'), '2024/01/05')).toBe(new Date(2024, 0, 5).getTime());
+    expect(toRestoreValue(field('DateTime'), '5 Jan 2024')).toBeUndefined();
+    expect(toRestoreValue(field('DateTime'), '2024/01/05', 'Asia/Tokyo')).toBe(Date.UTC(2024, 0, 4, 15, 0));
+  });
+
+  it('should not restore fields frozen to text', () => {
+    expect(getRestoreSkipReason({ field_id: 'x', field_name: 'Owner', type: 11, ui_type: 'User' }))
+      .toBe('stored as text in the snapshot');
+    expect(getRestoreSkipReason({ field_id: 'x', field_name: 'Name', type: 1, ui_type: 'Text' }))
+      .toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Snapshot Scheduler Tests
+ *
+ * @description Tests for running scheduled snapshots and applying retention
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LarkApiClient } from '../../src/services/larkApiClient.js';
+import { InMemoryCheckpointStore } from '../../src/services/checkpointStore.js';
+import { InMemoryScheduleStore } from '../../src/services/scheduleStore.js';
+import {
+  SnapshotScheduler,
+  renderNameTemplate,
+  validateSchedule,
+} from '../../src/services/snapshotScheduler.js';
+import { stubLarkClient } from './helpers/larkClientStub.js';
+import type { SnapshotSchedule } from '../../src/types/index.js';
+
+const schedule = (overrides: Partial<SnapshotSchedule> = {}): SnapshotSchedule => ({
+  id: 'sch1',
+  name: 'Sales',
+  sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+  nameTemplate: '{name} {yyyy}-{MM}',
+  cron: '0 0 1 * *',
+  grantAdminPermission: false,
+  enabled: true,
+  runs: [],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const oldRun = (appToken: string) => ({
+  startedAt: '2024-01-01T00:00:00.000Z',
+  success: true,
+  targetBase: { app_token: appToken, name: `Sales ${appToken}` },
+  errors: [],
+});
+
+describe('renderNameTemplate', () => {
+  it('should fill date and name placeholders', () => {
+    const date = new Date(2024, 2, 5, 7, 9);
+    expect(renderNameTemplate('{name}_{yyyy}{MM}{dd}_{HH}{mm}', date, 'Sales')).toBe('Sales_20240305_0709');
+  });
+
+  it('should keep unknown placeholders', () => {
+    expect(renderNameTemplate('{name} {week}', new Date(), 'Sales')).toBe('Sales {week}');
+  });
+});
+
+describe('validateSchedule', () => {
+  it('should report missing fields and bad values', () => {
+    expect(validateSchedule({ name: 'x', cron: 'every day', retention: { keep: 0, action: 'delete' } }))
+      .toEqual([
+        'sourceBaseUrl is required',
+        'nameTemplate is required',
+        'cron must be a valid cron expression',
+        'retention.keep must be a positive integer',
+      ]);
+  });
+
+  it('should reject values of the wrong type', () => {
+    expect(validateSchedule({
+      name: 42,
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      nameTemplate: '{name}',
+      cron: '0 3 * * *',
+      selectedTableIds: 'tbl1',
+      enabled: 'yes',
+      retention: 3,
+    } as never)).toEqual([
+      'name must be a string',
+      'selectedTableIds must be an array of table IDs',
+      'enabled must be true or false',
+      'retention must be an object with keep and action',
+    ]);
+  });
+});
+
+describe('SnapshotScheduler', () => {
+  let store: InMemoryScheduleStore;
+  let scheduler: SnapshotScheduler;
+
+  beforeEach(() => {
+    store = new InMemoryScheduleStore();
+    scheduler = new SnapshotScheduler({ appId: 'id', appSecret: 'secret' }, {
+      store,
+      checkpointStore: new InMemoryCheckpointStore(),
+    });
+    stubLarkClient([
+      {
+        table: { table_id: 'tbl1', name: 'Deals', revision: 1 },
+        fields: [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+        records: [{ record_id: 'rec1', fields: { Name: 'A' } }],
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should run due schedules and record the run', async () => {
+    await store.save(schedule({ nextRunAt: new Date(2024, 4, 1).toISOString() }));
+
+    await scheduler.tick(new Date(2024, 4, 1, 0, 0, 30));
+
+    const saved = await store.get('sch1');
+    expect(saved?.runs).toHaveLength(1);
+    expect(saved?.runs[0]).toMatchObject({ success: true, targetBase: { app_token: 'tgtApp' } });
+    expect(saved?.nextRunAt).toBe(new Date(2024, 5, 1).toISOString());
+    expect(LarkApiClient.prototype.createBase).toHaveBeenCalledWith('Sales 2024-05');
+  });
+
+  it('should skip schedules that are not due or disabled', async () => {
+    await store.save(schedule({ nextRunAt: new Date(2024, 5, 1).toISOString() }));
+    await store.save(schedule({ id: 'sch2', enabled: false, nextRunAt: new Date(2024, 0, 1).toISOString() }));
+
+    await scheduler.tick(new Date(2024, 4, 1));
+
+    expect(LarkApiClient.prototype.createBase).not.toHaveBeenCalled();
+  });
+
+  it('should delete Bases beyond the retention limit', async () => {
+    const deleteBase = vi.spyOn(LarkApiClient.prototype, 'deleteBase').mockResolvedValue();
+    await store.save(schedule({
+      retention: { keep: 2, action: 'delete' },
+      runs: [oldRun('old1'), oldRun('old2')],
+    }));
+
+    await scheduler.runSchedule((await store.get('sch1'))!, new Date(2024, 4, 1));
+
+    expect(deleteBase).toHaveBeenCalledTimes(1);
+    expect(deleteBase).toHaveBeenCalledWith('old1');
+    const saved = await store.get('sch1');
+    expect(saved?.runs.map((r) => r.expired)).toEqual(['deleted', undefined, undefined]);
+  });
+
+  it('should flag Bases instead of deleting them when configured', async () => {
+    const updateBase = vi.spyOn(LarkApiClient.prototype, 'updateBase')
+      .mockResolvedValue({ app_token: 'old1', name: '[expired] Sales old1' });
+    await store.save(schedule({ retention: { keep: 1, action: 'flag' }, runs: [oldRun('old1')] }));
+
+    await scheduler.runSchedule((await store.get('sch1'))!, new Date(2024, 4, 1));
+
+    expect(updateBase).toHaveBeenCalledWith('old1', '[expired] Sales old1');
+    expect((await store.get('sch1'))?.runs[0].expired).toBe('flagged');
+  });
+
+  it('should only count successful runs toward the retention limit', async () => {
+    const deleteBase = vi.spyOn(LarkApiClient.prototype, 'deleteBase').mockResolvedValue();
+    const failedRun = (appToken: string) => ({ ...oldRun(appToken), success: false });
+    await store.save(schedule({
+      retention: { keep: 2, action: 'delete' },
+      runs: [failedRun('failed1'), oldRun('old1'), failedRun('failed2'), oldRun('old2'), failedRun('failed3')],
+    }));
+
+    await scheduler.runSchedule((await store.get('sch1'))!, new Date(2024, 4, 1));
+
+    // old2 and the new run are kept, with the failed run between them
+    expect(deleteBase.mock.calls.map(([appToken]) => appToken)).toEqual(['failed1', 'old1', 'failed2']);
+  });
+
+  it('should cap the run history', async () => {
+    const runs = Array.from({ length: 60 }, (_, i) => ({ ...oldRun(`old${i}`), expired: 'deleted' as const }));
+    await store.save(schedule({ runs: [oldRun('live'), ...runs] }));
+
+    await scheduler.runSchedule((await store.get('sch1'))!, new Date(2024, 4, 1));
+
+    const saved = await store.get('sch1');
+    expect(saved?.runs).toHaveLength(50);
+    expect(saved?.runs[0].targetBase?.app_token).toBe('live');
+    expect(saved?.runs[1].targetBase?.app_token).toBe('old12');
+  });
+});
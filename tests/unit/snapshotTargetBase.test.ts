@@ -0,0 +1,69 @@
+/**
+ * Existing Target Base Tests
+ *
+ * @description Tests for adding snapshot tables to an existing Base
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { SnapshotService } from '../../src/services/snapshotService.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+
+const config = {
+  sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+  targetBaseName: '',
+  targetBaseUrl: 'archiveApp',
+  grantAdminPermission: false,
+};
+
+describe('SnapshotService with an existing target Base', () => {
+  let deals: StubTable;
+  let service: SnapshotService;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2024-05-01T00:00:00Z'), toFake: ['Date'] });
+    deals = {
+      table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+      fields: [{ field_id: 'f1', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+      records: [{ record_id: 'rec1', fields: { Name: 'A' } }],
+    };
+    service = createTestService();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should add tables to the existing Base without creating a new one', async () => {
+    const stub = stubLarkClient([deals]);
+    const result = await service.createSnapshot(config);
+
+    expect(result.success).toBe(true);
+    expect(result.targetBase.app_token).toBe('archiveApp');
+    expect(stub.createBase).not.toHaveBeenCalled();
+    expect(stub.hasEditPermission).toHaveBeenCalledWith('archiveApp');
+    expect(stub.createTable.mock.calls[0][0]).toBe('archiveApp');
+  });
+
+  it('should refuse a Base without write access', async () => {
+    const stub = stubLarkClient([deals]);
+    stub.hasEditPermission.mockResolvedValue(false);
+
+    const result = await service.createSnapshot(config);
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toContain('No write access');
+    expect(stub.createTable).not.toHaveBeenCalled();
+  });
+
+  it('should refuse when a snapshot table name already exists', async () => {
+    const stub = stubLarkClient([deals]);
+    stub.listTables.mockResolvedValue([{ table_id: 'tblOld', name: 'Deals_snap_20240501', revision: 1 }]);
+
+    const result = await service.createSnapshot(config);
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toContain('Deals_snap_20240501');
+    expect(stub.createTable).not.toHaveBeenCalled();
+  });
+});
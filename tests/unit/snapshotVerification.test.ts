@@ -0,0 +1,155 @@
+/**
+ * Snapshot Verification Tests
+ *
+ * @description Tests for the post-copy comparison of target tables with the converted values
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import { hashRecordValues, verifyTable } from '../../src/services/snapshotVerification.js';
+import type { LarkRecord } from '../../src/types/index.js';
+
+const tasks: StubTable = {
+  table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+  fields: [
+    { field_id: 't1', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+    { field_id: 't2', field_name: 'Points', type: 2, ui_type: 'Number' },
+    { field_id: 't3', field_name: 'Owner', type: 11, ui_type: 'User' },
+  ],
+  records: [
+    { record_id: 'rec1', fields: { Title: 'Write spec', Points: 3, Owner: [{ id: 'ou_1', name: 'Alice' }] } },
+    { record_id: 'rec2', fields: { Title: 'Review', Points: 1 } },
+  ],
+};
+
+describe('hashRecordValues', () => {
+  it('should compare values as display text', () => {
+    const fieldNames = ['Title', 'Points'];
+    const written = hashRecordValues({ Title: 'Write spec', Points: 3 }, fieldNames);
+
+    expect(hashRecordValues({ Title: [{ type: 'text', text: 'Write spec' }], Points: 3 }, fieldNames))
+      .toBe(written);
+    expect(hashRecordValues({ Title: 'Write spec', Points: 4 }, fieldNames)).not.toBe(written);
+    // Fields outside the list are ignored
+    expect(hashRecordValues({ Title: 'Write spec', Points: 3, Extra: 'x' }, fieldNames)).toBe(written);
+  });
+});
+
+describe('verifyTable', () => {
+  const expected = {
+    sourceTableId: 'tblTasks',
+    targetTableId: 'tgt_tblTasks',
+    tableName: 'Tasks',
+    fieldNames: ['Title'],
+    hashes: new Map([
+      ['rec1', hashRecordValues({ Title: 'A' }, ['Title'])],
+      ['rec2', hashRecordValues({ Title: 'B' }, ['Title'])],
+    ]),
+    recordIdMap: new Map([['rec1', 'tgt1'], ['rec2', 'tgt2']]),
+  };
+
+  it('should pass when every record matches', () => {
+    const result = verifyTable(expected, [
+      { record_id: 'tgt1', fields: { Title: 'A' } },
+      { record_id: 'tgt2', fields: { Title: 'B' } },
+    ]);
+
+    expect(result.passed).toBe(true);
+    expect(result.expectedRecords).toBe(2);
+    expect(result.targetRecords).toBe(2);
+  });
+
+  it('should report missing, mismatched and unexpected records', () => {
+    const result = verifyTable(expected, [
+      { record_id: 'tgt1', fields: { Title: 'changed' } },
+      { record_id: 'tgt9', fields: { Title: 'B' } },
+    ]);
+
+    expect(result.passed).toBe(false);
+    expect(result.missingRecordIds).toEqual(['rec2']);
+    expect(result.mismatchedRecordIds).toEqual(['rec1']);
+    expect(result.unexpectedRecordIds).toEqual(['tgt9']);
+  });
+});
+
+describe('SnapshotService verification pass', () => {
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  /**
+   * Serve the records written by createRecords when the target table is re-listed,
+   * with text returned as rich text segments like the Lark API does
+   */
+  const serveWrittenRecords = (transform: (records: LarkRecord[]) => LarkRecord[] = (r) => r) => {
+    stub.listRecords.mockImplementation(async () => {
+      const written = (await stub.createRecords.mock.results[0].value) as LarkRecord[];
+      return transform(written.map((r) => ({
+        record_id: r.record_id,
+        fields: {
+          ...r.fields,
+          Title: [{ type: 'text', text: String(r.fields.Title) }],
+        } as unknown as LarkRecord['fields'],
+      })));
+    });
+  };
+
+  beforeEach(() => {
+    stub = stubLarkClient([tasks]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not verify unless requested', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(result.verification).toBeUndefined();
+  });
+
+  it('should report a verified copy', async () => {
+    serveWrittenRecords();
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+      verify: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(stub.listRecords).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks');
+    expect(result.verification?.passed).toBe(true);
+    expect(result.verification?.tables).toEqual([
+      expect.objectContaining({
+        tableName: expect.stringMatching(/^Tasks_snap_\d{8}$/),
+        expectedRecords: 2,
+        targetRecords: 2,
+        passed: true,
+      }),
+    ]);
+  });
+
+  it('should report a short write as missing records', async () => {
+    serveWrittenRecords((records) => records.slice(0, 1));
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+      verify: true,
+    });
+
+    expect(result.verification?.passed).toBe(false);
+    expect(result.verification?.tables[0]).toMatchObject({
+      expectedRecords: 2,
+      targetRecords: 1,
+      missingRecordIds: ['rec2'],
+      mismatchedRecordIds: [],
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * View Scope Tests
+ *
+ * @description Tests for snapshots limited to the view in the source Base URL
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LarkApiClient } from '../../src/services/larkApiClient.js';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import type { LarkView } from '../../src/types/index.js';
+
+const deals: StubTable = {
+  table: { table_id: 'tblDeals', name: 'Deals', revision: 1 },
+  fields: [
+    { field_id: 'fldName', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true },
+    { field_id: 'fldAmount', field_name: 'Amount', type: 2, ui_type: 'Number' },
+    { field_id: 'fldNotes', field_name: 'Notes', type: 1, ui_type: 'Text' },
+  ],
+  records: [
+    { record_id: 'rec1', fields: { Name: 'Acme', Amount: 100, Notes: 'renewal' } },
+    { record_id: 'rec2', fields: { Name: 'Globex', Amount: 300 } },
+    { record_id: 'rec3', fields: { Name: 'Initech', Amount: 200 } },
+  ],
+};
+
+const contacts: StubTable = {
+  table: { table_id: 'tblContacts', name: 'Contacts', revision: 1 },
+  fields: [{ field_id: 'fldName', field_name: 'Name', type: 1, ui_type: 'Text', is_primary: true }],
+  records: [{ record_id: 'recC1', fields: { Name: 'Alice' } }],
+};
+
+const bigDeals: LarkView = {
+  view_id: 'vewBig',
+  view_name: 'Big deals',
+  view_type: 'grid',
+  property: { hidden_fields: ['fldNotes'] },
+};
+
+const viewUrl = 'https://xxx.larksuite.com/base/srcApp?table=tblDeals&view=vewBig';
+
+describe('LarkApiClient view URLs', () => {
+  const client = new LarkApiClient({ appId: 'id', appSecret: 'secret' });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read the view ID from a Base URL', () => {
+    expect(client.parseViewIdFromUrl(viewUrl)).toBe('vewBig');
+    expect(client.parseViewIdFromUrl('https://xxx.larksuite.com/base/srcApp?table=tblDeals')).toBeNull();
+  });
+
+  it('should only resolve the view for the table of the URL', async () => {
+    const getView = vi.spyOn(client, 'getView').mockResolvedValue(bigDeals);
+
+    expect(await client.resolveUrlView('srcApp', 'tblDeals', viewUrl)).toBe(bigDeals);
+    expect(await client.resolveUrlView('srcApp', 'tblContacts', viewUrl)).toBeNull();
+    expect(getView).toHaveBeenCalledTimes(1);
+    expect(getView).toHaveBeenCalledWith('srcApp', 'tblDeals', 'vewBig');
+  });
+});
+
+describe('SnapshotService view scope', () => {
+  const config = {
+    sourceBaseUrl: viewUrl,
+    targetBaseName: 'Target',
+    grantAdminPermission: false,
+  };
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([deals, contacts]);
+    vi.spyOn(LarkApiClient.prototype, 'getView').mockResolvedValue(bigDeals);
+    // The view shows the deals over 150, largest first
+    stub.listRecordsWithFallback.mockImplementation(async (_appToken, tableId, options) => {
+      if (tableId === 'tblDeals' && options?.viewId === 'vewBig') {
+        return [deals.records[1], deals.records[2]];
+      }
+      return tableId === 'tblDeals' ? deals.records : contacts.records;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should copy the records of the view in view order', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot(config);
+
+    expect(result.success).toBe(true);
+    const dealFields = stub.createTable.mock.calls[0][2];
+    expect(dealFields.map((f) => f.field_name)).toEqual(['Name', 'Amount', 'Notes', '_source_record_id']);
+    const dealRecords = stub.createRecords.mock.calls[0][2];
+    expect(dealRecords.map((r) => r.fields._source_record_id)).toEqual(['rec2', 'rec3']);
+
+    // Other tables are copied whole
+    expect(stub.listRecordsWithFallback).toHaveBeenCalledWith(
+      'srcApp',
+      'tblContacts',
+      expect.objectContaining({ viewId: undefined })
+    );
+    expect(stub.createRecords.mock.calls[1][2]).toHaveLength(1);
+  });
+
+  it('should keep only the fields visible in the view when requested', async () => {
+    const service = createTestService();
+    await service.createSnapshot({ ...config, viewFieldsOnly: true });
+
+    const dealFields = stub.createTable.mock.calls[0][2];
+    expect(dealFields.map((f) => f.field_name)).toEqual(['Name', 'Amount', '_source_record_id']);
+  });
+
+  it('should skip the table when the view cannot be read', async () => {
+    vi.mocked(LarkApiClient.prototype.getView).mockRejectedValue(new Error('view not found'));
+    const service = createTestService();
+    const result = await service.createSnapshot(config);
+
+    expect(result.errors).toContainEqual({
+      table: expect.stringMatching(/^Deals_snap_/),
+      view: 'vewBig',
+      message: 'Could not read the view of the source URL: view not found',
+      code: 'SOURCE_VIEW_UNAVAILABLE',
+    });
+    expect(stub.createTable).toHaveBeenCalledTimes(1);
+  });
+
+  it('should limit exports to the view of the source URL', async () => {
+    const service = createTestService();
+    const snapshot = await service.captureSnapshot({ sourceBaseUrl: viewUrl, viewFieldsOnly: true });
+
+    const dealTable = snapshot.tables.find((t) => t.sourceTableId === 'tblDeals')!;
+    expect(dealTable.fields.map((f) => f.field_name)).toEqual(['Name', 'Amount']);
+    expect(dealTable.records.map((r) => r.sourceRecordId)).toEqual(['rec2', 'rec3']);
+  });
+
+  it('should reject archives of a view', async () => {
+    const service = createTestService();
+
+    await expect(service.captureArchive({ sourceBaseUrl: viewUrl })).rejects.toThrow(
+      'An archive holds whole tables and cannot be limited to a view: remove view=vewBig from the source URL'
+    );
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * View Copy Tests
+ *
+ * @description Tests for recreating saved views with remapped field references
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createTestService, stubLarkClient, type StubTable } from './helpers/larkClientStub.js';
+import { remapViewProperty } from '../../src/services/viewMapping.js';
+import type { LarkField, LarkView } from '../../src/types/index.js';
+
+const sourceFields: LarkField[] = [
+  { field_id: 'fldTitle', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+  {
+    field_id: 'fldStatus',
+    field_name: 'Status',
+    type: 3,
+    ui_type: 'SingleSelect',
+    property: { options: [{ id: 'optOpen', name: 'Open' }, { id: 'optDone', name: 'Done' }] },
+  },
+  { field_id: 'fldOwner', field_name: 'Owner', type: 11, ui_type: 'User' },
+  { field_id: 'fldDue', field_name: 'Due', type: 5, ui_type: 'DateTime' },
+];
+
+const targetFields: LarkField[] = [
+  { field_id: 'tgtTitle', field_name: 'Title', type: 1, ui_type: 'Text', is_primary: true },
+  {
+    field_id: 'tgtStatus',
+    field_name: 'Status',
+    type: 3,
+    ui_type: 'SingleSelect',
+    property: { options: [{ id: 'optNewOpen', name: 'Open' }, { id: 'optNewDone', name: 'Done' }] },
+  },
+  { field_id: 'tgtOwner', field_name: 'Owner', type: 1, ui_type: 'Text' },
+  { field_id: 'tgtDue', field_name: 'Due', type: 5, ui_type: 'DateTime' },
+  { field_id: 'tgtSource', field_name: '_source_record_id', type: 1, ui_type: 'Text' },
+];
+
+describe('remapViewProperty', () => {
+  it('should remap field and option IDs to the snapshot table', () => {
+    const { property, warnings } = remapViewProperty(
+      {
+        filter_info: {
+          conjunction: 'and',
+          conditions: [
+            { field_id: 'fldStatus', operator: 'is', value: '["optOpen"]', condition_id: 'c1' },
+            { field_id: 'fldTitle', operator: 'contains', value: '["spec"]' },
+          ],
+        },
+        hidden_fields: ['fldDue'],
+        sort_info: [{ field_id: 'fldDue', desc: true }],
+        group_info: [{ field_id: 'fldStatus', desc: false }],
+      },
+      sourceFields,
+      targetFields
+    );
+
+    expect(warnings).toEqual([]);
+    expect(property).toEqual({
+      filter_info: {
+        conjunction: 'and',
+        conditions: [
+          { field_id: 'tgtStatus', operator: 'is', value: '["optNewOpen"]' },
+          { field_id: 'tgtTitle', operator: 'contains', value: '["spec"]' },
+        ],
+      },
+      hidden_fields: ['tgtDue'],
+      sort_info: [{ field_id: 'tgtDue', desc: true }],
+      group_info: [{ field_id: 'tgtStatus', desc: false }],
+    });
+  });
+
+  it('should drop settings that no longer apply and report them', () => {
+    const { property, warnings } = remapViewProperty(
+      {
+        filter_info: {
+          conjunction: 'or',
+          conditions: [
+            { field_id: 'fldOwner', operator: 'is', value: '["ou_1"]' },
+            { field_id: 'fldGone', operator: 'isNotEmpty' },
+          ],
+        },
+        sort_info: [{ field_id: 'fldGone', desc: false }],
+      },
+      sourceFields,
+      targetFields
+    );
+
+    expect(property.filter_info).toBeNull();
+    expect(property.sort_info).toEqual([]);
+    expect(warnings).toEqual([
+      'Filter on "Owner" dropped: field was converted to a static Text field',
+      'Filter on "fldGone" dropped: field is not in the snapshot',
+      'Sort by "fldGone" dropped: field is not in the snapshot',
+    ]);
+  });
+});
+
+describe('SnapshotService view copy', () => {
+  const tasks: StubTable = {
+    table: { table_id: 'tblTasks', name: 'Tasks', revision: 1 },
+    fields: sourceFields,
+    records: [{ record_id: 'rec1', fields: { Title: 'Write spec' } }],
+  };
+  const sourceViews: LarkView[] = [
+    {
+      view_id: 'vewAll',
+      view_name: 'Open tasks',
+      view_type: 'grid',
+      property: {
+        filter_info: {
+          conjunction: 'and',
+          conditions: [
+            { field_id: 'fldStatus', operator: 'is', value: '["optOpen"]' },
+            { field_id: 'fldOwner', operator: 'is', value: '["ou_1"]' },
+          ],
+        },
+        hidden_fields: ['fldDue'],
+      },
+    },
+    { view_id: 'vewBoard', view_name: 'Board', view_type: 'kanban', property: {} },
+  ];
+  let stub: ReturnType<typeof stubLarkClient>;
+
+  beforeEach(() => {
+    stub = stubLarkClient([tasks]);
+    stub.listViews.mockImplementation(async (appToken) =>
+      appToken === 'srcApp'
+        ? sourceViews
+        : [{ view_id: 'vewDefault', view_name: 'Grid View', view_type: 'grid' }]
+    );
+    stub.listFields.mockResolvedValue(targetFields);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should recreate views, reusing the default grid view', async () => {
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(stub.createView).toHaveBeenCalledTimes(1);
+    expect(stub.createView).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', {
+      view_name: 'Board',
+      view_type: 'kanban',
+    });
+    expect(stub.updateView).toHaveBeenCalledWith('tgtApp', 'tgt_tblTasks', 'vewDefault', {
+      view_name: 'Open tasks',
+      property: {
+        filter_info: {
+          conjunction: 'and',
+          conditions: [{ field_id: 'tgtStatus', operator: 'is', value: '["optNewOpen"]' }],
+        },
+        hidden_fields: ['tgtDue'],
+      },
+    });
+    expect(result.warnings).toEqual([
+      {
+        table: expect.stringMatching(/^Tasks_snap_/),
+        view: 'Open tasks',
+        message: 'Filter on "Owner" dropped: field was converted to a static Text field',
+      },
+    ]);
+  });
+
+  it('should report views that cannot be created as warnings', async () => {
+    stub.createView.mockRejectedValueOnce(new Error('unsupported view type'));
+    const service = createTestService();
+    const result = await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toContainEqual({
+      table: expect.stringMatching(/^Tasks_snap_/),
+      view: 'Board',
+      message: 'Could not recreate view: unsupported view type',
+    });
+  });
+
+  it('should skip views when copyViews is false', async () => {
+    const service = createTestService();
+    await service.createSnapshot({
+      sourceBaseUrl: 'https://xxx.larksuite.com/base/srcApp',
+      targetBaseName: 'Target',
+      grantAdminPermission: false,
+      copyViews: false,
+    });
+
+    expect(stub.listViews).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * SQLite Exporter Tests
+ *
+ * @description Tests for the SQLite database export of frozen snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import initSqlJs from 'sql.js';
+import {
+  getSqliteColumnType,
+  toMultiValues,
+  toSqlite,
+} from '../../src/services/sqliteExporter.js';
+import type { FrozenSnapshot } from '../../src/types/index.js';
+
+const snapshot: FrozenSnapshot = {
+  sourceBase: { app_token: 'srcApp', name: 'Source' },
+  errors: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  tables: [
+    {
+      sourceTableId: 'tblDeals',
+      tableName: 'Deals',
+      fields: [
+        { field_name: 'Name', type: 1, ui_type: 'Text', source_ui_type: 'Text' },
+        { field_name: 'Amount', type: 2, ui_type: 'Number', source_ui_type: 'Number' },
+        { field_name: 'Closed', type: 5, ui_type: 'DateTime', source_ui_type: 'DateTime' },
+        { field_name: 'Won', type: 7, ui_type: 'Checkbox', source_ui_type: 'Checkbox' },
+        { field_name: 'Tags', type: 4, ui_type: 'MultiSelect', source_ui_type: 'MultiSelect' },
+        { field_name: 'Owner', type: 1, ui_type: 'Text', source_ui_type: 'User' },
+      ],
+      records: [
+        {
+          sourceRecordId: 'rec1',
+          fields: {
+            Name: 'Alpha "1"',
+            Amount: 1200,
+            Closed: Date.UTC(2026, 0, 2),
+            Won: true,
+            Tags: ['New', 'VIP'],
+            Owner: 'Alice, Bob',
+          },
+        },
+        { sourceRecordId: 'rec2', fields: { Name: 'Beta', Won: false } },
+      ],
+    },
+    {
+      sourceTableId: 'tblDeals2',
+      tableName: 'deals',
+      fields: [{ field_name: 'Name', type: 1, ui_type: 'Text' }],
+      records: [],
+    },
+  ],
+};
+
+async function openDatabase(data: Buffer) {
+  const SQL = await initSqlJs();
+  return new SQL.Database(data);
+}
+
+describe('sqliteExporter', () => {
+  it('should derive column types from field types', () => {
+    const [name, amount, closed, won, tags, owner] = snapshot.tables[0].fields;
+    expect([name, amount, closed, won, tags, owner].map(getSqliteColumnType))
+      .toEqual(['TEXT', 'REAL', 'INTEGER', 'INTEGER', 'TEXT', 'TEXT']);
+  });
+
+  it('should split multi-select and user values', () => {
+    const [, , , , tags, owner] = snapshot.tables[0].fields;
+    expect(toMultiValues(tags, ['New', 'VIP'])).toEqual(['New', 'VIP']);
+    expect(toMultiValues(owner, 'Alice, Bob')).toEqual(['Alice', 'Bob']);
+    expect(toMultiValues(owner, '')).toEqual([]);
+  });
+
+  it('should write one table per snapshot table with typed values', async () => {
+    const db = await openDatabase(await toSqlite(snapshot));
+
+    const [rows] = db.exec('SELECT * FROM "Deals" ORDER BY _source_record_id');
+    expect(rows.columns).toEqual(['_source_record_id', 'Name', 'Amount', 'Closed', 'Won', 'Tags', 'Owner']);
+    expect(rows.values).toEqual([
+      ['rec1', 'Alpha "1"', 1200, Date.UTC(2026, 0, 2), 1, '["New","VIP"]', '["Alice","Bob"]'],
+      ['rec2', 'Beta', null, null, 0, null, null],
+    ]);
+
+    const [tags] = db.exec('SELECT _source_record_id, position, value FROM "Deals__Tags" ORDER BY position');
+    expect(tags.values).toEqual([['rec1', 0, 'New'], ['rec1', 1, 'VIP']]);
+    const [owners] = db.exec('SELECT value FROM "Deals__Owner" ORDER BY position');
+    expect(owners.values).toEqual([['Alice'], ['Bob']]);
+    db.close();
+  });
+
+  it('should write snapshot metadata and keep table names unique', async () => {
+    const db = await openDatabase(await toSqlite(snapshot));
+
+    const [meta] = db.exec(
+      'SELECT table_name, sqlite_table, source_table_id, field_count, record_count, source_base_name, captured_at FROM _snapshot_meta'
+    );
+    expect(meta.values).toEqual([
+      ['Deals', 'Deals', 'tblDeals', 6, 2, 'Source', '2026-01-01T00:00:00.000Z'],
+      ['deals', 'deals (2)', 'tblDeals2', 1, 0, 'Source', '2026-01-01T00:00:00.000Z'],
+    ]);
+    db.close();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * XLSX Exporter Tests
+ *
+ * @description Tests for the Excel workbook export of frozen snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { inflateRawSync } from 'zlib';
+import {
+  getColumnType,
+  toColumnName,
+  toExcelDate,
+  toSheetNames,
+  toXlsx,
+} from '../../src/services/xlsxExporter.js';
+import type { FrozenSnapshot } from '../../src/types/index.js';
+
+/**
+ * Read the entries of a ZIP archive written by createZip
+ */
+function readZip(zip: Buffer): Map<string, string> {
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString('utf-8');
+    const start = offset + 30 + nameLength;
+    entries.set(name, inflateRawSync(zip.subarray(start, start + compressedSize)).toString('utf-8'));
+    offset = start + compressedSize;
+  }
+  return entries;
+}
+
+const snapshot: FrozenSnapshot = {
+  sourceBase: { app_token: 'srcApp', name: 'Source' },
+  errors: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  tables: [
+    {
+      sourceTableId: 'tblDeals',
+      tableName: 'Deals',
+      fields: [
+        { field_name: 'Name', type: 1, ui_type: 'Text' },
+        { field_name: 'Amount', type: 2, ui_type: 'Number' },
+        { field_name: 'Closed', type: 5, ui_type: 'DateTime' },
+        { field_name: 'Won', type: 7, ui_type: 'Checkbox' },
+        { field_name: 'Stage', type: 3, ui_type: 'SingleSelect' },
+      ],
+      records: [
+        {
+          sourceRecordId: 'rec1',
+          fields: { Name: 'A & <B>', Amount: 1200, Closed: Date.UTC(2026, 0, 2), Won: true, Stage: '商談' },
+        },
+      ],
+    },
+  ],
+};
+
+describe('xlsxExporter', () => {
+  it('should choose cell types from the field type', () => {
+    expect(getColumnType({ field_name: 'x', type: 2, ui_type: 'Number' })).toBe('number');
+    expect(getColumnType({ field_name: 'x', type: 1001, ui_type: 'CreatedTime' })).toBe('date');
+    expect(getColumnType({ field_name: 'x', type: 7, ui_type: 'Checkbox' })).toBe('boolean');
+    expect(getColumnType({ field_name: 'x', type: 3, ui_type: 'SingleSelect' })).toBe('text');
+  });
+
+  it('should convert timestamps to Excel date serials', () => {
+    const ms = new Date(2026, 0, 2, 12, 0, 0).getTime();
+    expect(toExcelDate(ms)).toBeCloseTo(46024.5, 6);
+  });
+
+  it('should convert timestamps to the wall-clock time of the Base time zone', () => {
+    const ms = Date.UTC(2026, 0, 2, 3, 0, 0);
+    expect(toExcelDate(ms, 'Asia/Tokyo')).toBeCloseTo(46024.5, 6);
+    expect(toExcelDate(ms, 'UTC')).toBeCloseTo(46024.125, 6);
+  });
+
+  it('should name columns like Excel', () => {
+    expect(toColumnName(0)).toBe('A');
+    expect(toColumnName(25)).toBe('Z');
+    expect(toColumnName(26)).toBe('AA');
+    expect(toColumnName(701)).toBe('ZZ');
+  });
+
+  it('should make sheet names valid and unique', () => {
+    expect(toSheetNames(['A/B', 'a/b', 'x'.repeat(40)])).toEqual(['A_B', 'a_b (2)', 'x'.repeat(31)]);
+  });
+
+  it('should write typed cells and a styled header row', () => {
+    const entries = readZip(toXlsx(snapshot));
+
+    expect(entries.get('xl/workbook.xml')).toContain('<sheet name="Deals" sheetId="1" r:id="rId1"/>');
+    const sheet = entries.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t>Name</t></is></c>');
+    expect(sheet).toContain('<t xml:space="preserve">A &amp; &lt;B&gt;</t>');
+    expect(sheet).toContain('<c r="B2"><v>1200</v></c>');
+    expect(sheet).toContain(`<c r="C2" s="2"><v>${toExcelDate(Date.UTC(2026, 0, 2))}</v></c>`);
+    expect(sheet).toContain('<c r="D2" t="b"><v>1</v></c>');
+    expect(sheet).toContain('<c r="E2" t="inlineStr"><is><t xml:space="preserve">商談</t></is></c>');
+    expect(entries.get('xl/styles.xml')).toContain('formatCode="yyyy-mm-dd hh:mm"');
+  });
+});
@@ -0,0 +1,29 @@
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+/**
+ * Build of the static snapshot viewer (src/client/viewer)
+ * A single classic script + stylesheet so renderViewerHtml can inline them
+ * and the generated page also works when opened from disk
+ */
+export default defineConfig({
+  plugins: [react()],
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  build: {
+    outDir: 'dist/viewer',
+    emptyOutDir: true,
+    lib: {
+      entry: 'src/client/viewer/main.tsx',
+      name: 'SnapshotViewer',
+      formats: ['iife'],
+      fileName: () => 'viewer.js',
+    },
+    rollupOptions: {
+      output: {
+        assetFileNames: 'viewer.[ext]',
+      },
+    },
+  },
+});